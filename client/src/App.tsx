@@ -10,6 +10,7 @@ import Browse from "./pages/Browse";
 import Contribute from "./pages/Contribute";
 import Dashboard from "./pages/Dashboard";
 import ResourceDetail from "./pages/ResourceDetail";
+import CollectionDetail from "./pages/CollectionDetail";
 import { Dashboard } from "./pages/Dashboard";
 import Features from "./pages/Features";
 import Pricing from "./pages/Pricing";
@@ -29,6 +30,7 @@ function Router() {
       <Route path={"/contribute"} component={Contribute} />
       <Route path={"/dashboard"} component={Dashboard} />
       <Route path={"/resource/:id"} component={ResourceDetail} />
+      <Route path={"/collection/:id"} component={CollectionDetail} />
       <Route path={"/features"} component={Features} />
       <Route path={"/pricing"} component={Pricing} />
       <Route path={"/integrations"} component={Integrations} />
@@ -0,0 +1,369 @@
+import { useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, MessageSquare, Pencil, ShieldX, Trash2 } from "lucide-react";
+import { trpc, type RouterOutputs } from "../lib/trpc";
+import { useAuth } from "../_core/hooks/useAuth";
+import { COMMENT_CONFIG } from "../const";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+
+type ThreadComment = RouterOutputs["comment"]["listReplies"]["items"][number];
+type ReplyPage = RouterOutputs["comment"]["listReplies"];
+
+// Styles for the HTML rendered by server/markdown.ts
+const renderedContent =
+  "text-sm text-slate-200 break-words [&_p]:my-1 [&_a]:text-cyan-400 [&_a]:underline " +
+  "[&_code]:rounded [&_code]:bg-white/10 [&_code]:px-1 [&_pre]:my-2 [&_pre]:overflow-x-auto " +
+  "[&_pre]:rounded-lg [&_pre]:bg-black/40 [&_pre]:p-3 [&_blockquote]:border-l-2 " +
+  "[&_blockquote]:border-white/20 [&_blockquote]:pl-3 [&_blockquote]:text-slate-400 " +
+  "[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_.mention]:font-medium [&_.mention]:text-cyan-400";
+
+// Threaded discussion for ResourceDetail
+export function CommentThread({ resourceId }: { resourceId: string }) {
+  const { isAuthenticated } = useAuth();
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = trpc.comment.list.useInfiniteQuery(
+    { resourceId },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  const comments = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur">
+      <h2 className="text-lg font-semibold text-white mb-4">Discussion</h2>
+
+      {isAuthenticated ? (
+        <CommentComposer resourceId={resourceId} />
+      ) : (
+        <p className="text-sm text-slate-500">Sign in to join the discussion</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-cyan-400" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="py-6 text-center text-sm text-slate-500">No comments yet</p>
+      ) : (
+        <ul className="mt-6 space-y-6">
+          {comments.map((comment) => (
+            <li key={comment.id}>
+              <CommentItem comment={comment} resourceId={resourceId} initialReplies={comment.replies} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="mt-6 text-sm text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+        >
+          {isFetchingNextPage ? "Loading…" : "Load more comments"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function CommentItem({
+  comment,
+  resourceId,
+  initialReplies,
+}: {
+  comment: ThreadComment;
+  resourceId: string;
+  initialReplies?: ReplyPage;
+}) {
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const [replying, setReplying] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const refresh = () => utils.comment.invalidate();
+  const deleteMutation = trpc.comment.delete.useMutation({ onSuccess: refresh });
+  const removeMutation = trpc.comment.remove.useMutation({ onSuccess: refresh });
+
+  const isAuthor = !!user && comment.author?.id === user.id;
+  const isModerator = !!user && ["moderator", "admin"].includes(user.role);
+
+  const handleDelete = () => {
+    if (window.confirm("Delete this comment?")) deleteMutation.mutate({ id: comment.id });
+  };
+
+  const handleRemove = () => {
+    const reason = window.prompt("Reason for removing this comment");
+    if (reason?.trim()) removeMutation.mutate({ id: comment.id, reason: reason.trim() });
+  };
+
+  return (
+    <div>
+      <div className="flex items-start gap-3">
+        {comment.author?.avatarUrl ? (
+          <img src={comment.author.avatarUrl} alt="" className="h-8 w-8 flex-shrink-0 rounded-full" />
+        ) : (
+          <div className="h-8 w-8 flex-shrink-0 rounded-full bg-white/10" />
+        )}
+
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            <span className="font-medium text-slate-300">
+              {comment.deleted ? "[deleted]" : (comment.author?.name ?? "Unknown")}
+            </span>
+            <span>{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+            {comment.isEdited && !comment.deleted && (
+              <button onClick={() => setShowHistory(!showHistory)} className="hover:text-cyan-400">
+                (edited)
+              </button>
+            )}
+          </div>
+
+          {comment.deleted ? (
+            <p className="mt-1 text-sm italic text-slate-500">
+              {comment.deleted === "moderator" ? "Removed by a moderator" : "Deleted by the author"}
+            </p>
+          ) : editing ? (
+            <CommentComposer
+              resourceId={resourceId}
+              editing={{ id: comment.id, content: comment.content ?? "" }}
+              onDone={() => setEditing(false)}
+            />
+          ) : (
+            <div className={renderedContent} dangerouslySetInnerHTML={{ __html: comment.contentHtml ?? "" }} />
+          )}
+
+          {showHistory && <CommentHistory commentId={comment.id} />}
+
+          {!comment.deleted && !editing && user && (
+            <div className="mt-1 flex gap-4 text-xs text-slate-500">
+              <button onClick={() => setReplying(!replying)} className="flex items-center gap-1 hover:text-cyan-400">
+                <MessageSquare className="h-3 w-3" />
+                Reply
+              </button>
+              {isAuthor && (
+                <>
+                  <button onClick={() => setEditing(true)} className="flex items-center gap-1 hover:text-cyan-400">
+                    <Pencil className="h-3 w-3" />
+                    Edit
+                  </button>
+                  <button onClick={handleDelete} className="flex items-center gap-1 hover:text-red-400">
+                    <Trash2 className="h-3 w-3" />
+                    Delete
+                  </button>
+                </>
+              )}
+              {isModerator && !isAuthor && (
+                <button onClick={handleRemove} className="flex items-center gap-1 hover:text-red-400">
+                  <ShieldX className="h-3 w-3" />
+                  Remove
+                </button>
+              )}
+            </div>
+          )}
+
+          {replying && (
+            <div className="mt-3">
+              <CommentComposer resourceId={resourceId} parentId={comment.id} onDone={() => setReplying(false)} />
+            </div>
+          )}
+
+          {comment.replyCount > 0 && (
+            <ReplyList
+              parentId={comment.id}
+              replyCount={comment.replyCount}
+              resourceId={resourceId}
+              initial={initialReplies}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Replies under a comment: the first page comes with the thread, the rest loads on demand
+function ReplyList({
+  parentId,
+  replyCount,
+  resourceId,
+  initial,
+}: {
+  parentId: string;
+  replyCount: number;
+  resourceId: string;
+  initial?: ReplyPage;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { data, fetchNextPage, hasNextPage, isFetching } = trpc.comment.listReplies.useInfiniteQuery(
+    { commentId: parentId, limit: COMMENT_CONFIG.REPLY_PAGE_SIZE },
+    {
+      enabled: expanded,
+      initialCursor: initial?.nextCursor,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    }
+  );
+
+  const fetched = data?.pages.flatMap((page) => page.items) ?? [];
+  const replies = [...(initial?.items ?? []), ...fetched];
+  const hasMore = expanded ? hasNextPage : initial ? !!initial.nextCursor : true;
+
+  return (
+    <div className="mt-3 border-l border-white/10 pl-4">
+      {replies.length > 0 && (
+        <ul className="space-y-4">
+          {replies.map((reply) => (
+            <li key={reply.id}>
+              <CommentItem comment={reply} resourceId={resourceId} />
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={() => (expanded ? fetchNextPage() : setExpanded(true))}
+          disabled={isFetching}
+          className="mt-2 text-xs text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+        >
+          {isFetching
+            ? "Loading…"
+            : replies.length === 0
+              ? `View ${replyCount} ${replyCount === 1 ? "reply" : "replies"}`
+              : "Show more replies"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function CommentHistory({ commentId }: { commentId: string }) {
+  const { data, isLoading } = trpc.comment.history.useQuery({ id: commentId });
+
+  if (isLoading) return <Loader2 className="my-2 h-4 w-4 animate-spin text-cyan-400" />;
+  if (!data?.length) return null;
+
+  return (
+    <ul className="my-2 space-y-2 rounded-lg border border-white/10 bg-black/20 p-3">
+      {data.map((edit) => (
+        <li key={edit.id} className="text-xs">
+          <span className="text-slate-500">
+            Before edit {formatDistanceToNow(new Date(edit.createdAt), { addSuffix: true })}
+          </span>
+          <p className="mt-1 whitespace-pre-wrap text-slate-400">{edit.previousContent}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// The "@query" being typed just before the caret, if any
+function mentionQueryAt(text: string, caret: number) {
+  const match = /(^|\s)@([\w.-]{2,30})$/.exec(text.slice(0, caret));
+  return match ? { query: match[2], start: caret - match[2].length - 1 } : null;
+}
+
+// New comment, reply or edit, with @mention autocomplete
+function CommentComposer({
+  resourceId,
+  parentId,
+  editing,
+  onDone,
+}: {
+  resourceId: string;
+  parentId?: string;
+  editing?: { id: string; content: string };
+  onDone?: () => void;
+}) {
+  const utils = trpc.useUtils();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [content, setContent] = useState(editing?.content ?? "");
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+
+  const { data: suggestions } = trpc.user.search.useQuery(
+    { query: mention?.query ?? "", limit: 5 },
+    { enabled: !!mention }
+  );
+
+  const onSuccess = () => {
+    setContent("");
+    utils.comment.invalidate();
+    onDone?.();
+  };
+  const addMutation = trpc.comment.add.useMutation({ onSuccess });
+  const editMutation = trpc.comment.edit.useMutation({ onSuccess });
+  const mutation = editing ? editMutation : addMutation;
+
+  const handleChange = (value: string, caret: number) => {
+    setContent(value);
+    setMention(mentionQueryAt(value, caret));
+  };
+
+  const insertMention = (user: { id: string; name: string | null }) => {
+    if (!mention) return;
+    const caret = mention.start + mention.query.length + 1;
+    const token = `@[${(user.name ?? "Unknown").replace(/[[\]]/g, "")}](${user.id}) `;
+    setContent(content.slice(0, mention.start) + token + content.slice(caret));
+    setMention(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleSubmit = () => {
+    const trimmed = content.trim();
+    if (!trimmed) return;
+    if (editing) {
+      editMutation.mutate({ id: editing.id, content: trimmed });
+    } else {
+      addMutation.mutate({ resourceId, parentId, content: trimmed });
+    }
+  };
+
+  return (
+    <div className="relative space-y-2">
+      <Textarea
+        ref={textareaRef}
+        value={content}
+        maxLength={COMMENT_CONFIG.MAX_LENGTH}
+        onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+        placeholder={parentId ? "Write a reply…" : "Share how you used this resource… (markdown and @mentions supported)"}
+        className="min-h-20 border-white/10 bg-white/5 text-white placeholder:text-slate-500"
+      />
+
+      {mention && !!suggestions?.length && (
+        <ul className="absolute z-10 mt-1 w-64 overflow-hidden rounded-lg border border-white/10 bg-slate-900 shadow-lg">
+          {suggestions.map((user) => (
+            <li key={user.id}>
+              <button
+                onClick={() => insertMention(user)}
+                className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-slate-200 hover:bg-white/10"
+              >
+                {user.avatarUrl && <img src={user.avatarUrl} alt="" className="h-5 w-5 rounded-full" />}
+                {user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {mutation.error && <p className="text-xs text-red-400">{mutation.error.message}</p>}
+
+      <div className="flex justify-end gap-2">
+        {onDone && (
+          <Button variant="ghost" size="sm" onClick={onDone} className="text-slate-400 hover:bg-white/10">
+            Cancel
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={!content.trim() || mutation.isPending}
+          className="bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500"
+        >
+          {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {editing ? "Save" : parentId ? "Reply" : "Comment"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import type { RouterOutputs } from "../lib/trpc";
+import { Checkbox } from "./ui/checkbox";
+import {
+  CATEGORY_LABELS,
+  GRADE_LEVEL_LABELS,
+  RESOURCE_TYPE_LABELS,
+  SUBJECT_LABELS,
+} from "../const";
+
+type Facets = RouterOutputs["resource"]["facets"];
+export type FacetKey = keyof Facets;
+export type FacetSelection = Record<FacetKey, string[]>;
+
+// Facet groups in display order; tags and standards show their raw values
+const FACET_GROUPS: { key: FacetKey; title: string; labels?: Record<string, string> }[] = [
+  { key: "subject", title: "Subject", labels: SUBJECT_LABELS },
+  { key: "gradeLevel", title: "Grade Level", labels: GRADE_LEVEL_LABELS },
+  { key: "category", title: "Category", labels: CATEGORY_LABELS },
+  { key: "resourceType", title: "Format", labels: RESOURCE_TYPE_LABELS },
+  { key: "tags", title: "Tags" },
+  { key: "standards", title: "Standards" },
+];
+
+// Values shown before "Show more"
+const COLLAPSED_COUNT = 6;
+
+export function FacetFilters({
+  facets,
+  selected,
+  onToggle,
+}: {
+  facets: Facets | undefined;
+  selected: FacetSelection;
+  onToggle: (key: FacetKey, value: string) => void;
+}) {
+  return (
+    <div className="space-y-6">
+      {FACET_GROUPS.map((group) => (
+        <FacetGroup
+          key={group.key}
+          title={group.title}
+          labels={group.labels}
+          values={facets?.[group.key] ?? []}
+          selected={selected[group.key]}
+          onToggle={(value) => onToggle(group.key, value)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function FacetGroup({
+  title,
+  labels,
+  values,
+  selected,
+  onToggle,
+}: {
+  title: string;
+  labels?: Record<string, string>;
+  values: { value: string; count: number }[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+
+  // Keep selected values visible even when they no longer match anything
+  const missing = selected
+    .filter((value) => !values.some((v) => v.value === value))
+    .map((value) => ({ value, count: 0 }));
+  const all = [...values, ...missing];
+
+  if (all.length === 0) return null;
+
+  const visible = expanded ? all : all.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div>
+      <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-slate-400">
+        {title}
+      </h4>
+      <ul className="space-y-1.5">
+        {visible.map(({ value, count }) => {
+          const checked = selected.includes(value);
+          return (
+            <li key={value}>
+              <label className="flex cursor-pointer items-center gap-2 text-sm text-slate-300 hover:text-white">
+                <Checkbox
+                  checked={checked}
+                  onCheckedChange={() => onToggle(value)}
+                  className="border-white/20 data-[state=checked]:border-cyan-500 data-[state=checked]:bg-cyan-500"
+                />
+                <span className="flex-1 truncate">{labels?.[value] ?? value}</span>
+                <span className="text-xs text-slate-500">{count}</span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      {all.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="mt-2 text-xs text-cyan-400 hover:text-cyan-300 transition-colors"
+        >
+          {expanded ? "Show less" : `Show ${all.length - COLLAPSED_COUNT} more`}
+        </button>
+      )}
+    </div>
+  );
+}
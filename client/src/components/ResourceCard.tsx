@@ -1,24 +1,26 @@
 import { Link } from "wouter";
 import type { RouterOutputs } from "../lib/trpc";
+import { CATEGORY_LABELS, GRADE_LEVEL_LABELS, RESOURCE_TYPE_LABELS } from "../const";
 
 // Infer the type from the router directly for perfect type safety
-type Resource = RouterOutputs["resources"]["getAll"]["items"][number];
+type Resource = RouterOutputs["resource"]["browse"]["items"][number];
 
-// Resource type icons mapping
-const resourceTypeIcons: Record<string, string> = {
-  "Lesson Plan": "📝",
-  "Worksheet": "📋",
-  "Video": "🎬",
-  "Interactive": "🎮",
-  "Assessment": "✅",
-  "Presentation": "📊",
-  "Article": "📰",
-  "Other": "📚",
+// Category icons mapping
+const categoryIcons: Record<string, string> = {
+  lesson_plan: "📝",
+  worksheet: "📋",
+  video: "🎬",
+  interactive: "🎮",
+  assessment: "✅",
+  presentation: "📊",
+  reference: "📰",
+  template: "🗂️",
+  other: "📚",
 };
 
 export function ResourceCard({ resource }: { resource: Resource }) {
-  const upvotes = parseInt(resource.upvotes || "0", 10);
-  const views = parseInt(resource.views || "0", 10);
+  const upvotes = resource.upvoteCount;
+  const views = resource.viewCount;
 
   return (
     <Link
@@ -36,7 +38,7 @@ export function ResourceCard({ resource }: { resource: Resource }) {
         ) : (
           <div className="flex h-full w-full items-center justify-center bg-gradient-to-br from-slate-800 to-slate-900">
             <span className="text-5xl opacity-50">
-              {resourceTypeIcons[resource.resourceType] || "📚"}
+              {categoryIcons[resource.category] || "📚"}
             </span>
           </div>
         )}
@@ -44,21 +46,21 @@ export function ResourceCard({ resource }: { resource: Resource }) {
         {/* Overlay Badges */}
         <div className="absolute top-2 right-2 flex gap-1">
           <span className="rounded bg-black/60 px-2 py-0.5 text-xs font-medium text-cyan-400 backdrop-blur">
-            {resource.category}
+            {CATEGORY_LABELS[resource.category] ?? resource.category}
           </span>
         </div>
 
         {/* Grade Level Badge */}
         <div className="absolute top-2 left-2">
           <span className="rounded bg-black/60 px-2 py-0.5 text-xs font-medium text-slate-300 backdrop-blur">
-            {resource.gradeLevel}
+            {GRADE_LEVEL_LABELS[resource.gradeLevel] ?? resource.gradeLevel}
           </span>
         </div>
 
         {/* Resource Type Badge */}
         <div className="absolute bottom-2 left-2">
           <span className="rounded bg-cyan-500/20 px-2 py-0.5 text-xs font-medium text-cyan-300 backdrop-blur border border-cyan-500/30">
-            {resource.resourceType}
+            {RESOURCE_TYPE_LABELS[resource.resourceType] ?? resource.resourceType}
           </span>
         </div>
       </div>
@@ -68,25 +70,23 @@ export function ResourceCard({ resource }: { resource: Resource }) {
         <h3 className="line-clamp-2 text-lg font-bold text-white transition-colors group-hover:text-cyan-400">
           {resource.title}
         </h3>
-        <p className="mt-2 line-clamp-2 text-sm text-slate-400">
-          {resource.description}
-        </p>
+        {resource.snippet ? (
+          // Search snippet is HTML-escaped on the server; only <mark> tags remain
+          <p
+            className="mt-2 line-clamp-3 text-sm text-slate-400 [&_mark]:bg-cyan-500/20 [&_mark]:text-cyan-300"
+            dangerouslySetInnerHTML={{ __html: resource.snippet }}
+          />
+        ) : (
+          <p className="mt-2 line-clamp-2 text-sm text-slate-400">
+            {resource.summary}
+          </p>
+        )}
 
         {/* Footer Metadata */}
         <div className="mt-auto flex items-center justify-between pt-4 text-xs text-slate-500">
           <div className="flex items-center gap-2">
-            <div
-              className={`h-2 w-2 rounded-full ${
-                resource.contributor.level === "platinum"
-                  ? "bg-purple-400 shadow-[0_0_6px_rgba(192,132,252,0.5)]"
-                  : resource.contributor.level === "gold"
-                  ? "bg-yellow-400 shadow-[0_0_6px_rgba(250,204,21,0.5)]"
-                  : resource.contributor.level === "silver"
-                  ? "bg-slate-300"
-                  : "bg-amber-600"
-              }`}
-            />
-            <span className="truncate max-w-[120px]">{resource.contributor.name}</span>
+            <div className="h-2 w-2 rounded-full bg-cyan-400" />
+            <span className="truncate max-w-[120px]">{resource.contributorName ?? "Anonymous"}</span>
           </div>
           <div className="flex gap-3">
             <span className="flex items-center gap-1" title="Upvotes">
@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, File, Folder, Loader2 } from "lucide-react";
+import { trpc, type RouterOutputs } from "../lib/trpc";
+import { Dialog, DialogContent, DialogTitle } from "./ui/dialog";
+
+type Preview = RouterOutputs["resource"]["getPreview"];
+
+// Preview pane for ResourceDetail, chosen by resourceType
+export function ResourcePreview({ resourceId, title }: { resourceId: string; title: string }) {
+  const { data, isLoading } = trpc.resource.getPreview.useQuery({ id: resourceId });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center rounded-xl border border-white/10 bg-white/5 py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-cyan-400" />
+      </div>
+    );
+  }
+  if (!data) return null;
+
+  const content = renderPreview(data, title);
+  if (!content) return null;
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur">
+      <h2 className="text-lg font-semibold text-white mb-4">Preview</h2>
+      {content}
+    </div>
+  );
+}
+
+function renderPreview(data: Preview, title: string) {
+  const { resourceType, mediaUrl, preview } = data;
+
+  // Rendered pages cover PDFs as well as documents and slides converted on upload
+  if (preview?.pages?.length) {
+    return <PagedPreview pages={preview.pages} pageCount={preview.pageCount ?? preview.pages.length} />;
+  }
+
+  switch (resourceType) {
+    case "pdf":
+      return mediaUrl ? (
+        <iframe src={mediaUrl} title={title} className="h-[70vh] w-full rounded-lg bg-white" />
+      ) : null;
+    case "image":
+      return mediaUrl ? <ImageLightbox src={mediaUrl} previewSrc={preview?.posterUrl} alt={title} /> : null;
+    case "video":
+      return mediaUrl ? (
+        <video
+          src={mediaUrl}
+          poster={preview?.posterUrl}
+          controls
+          preload="metadata"
+          className="w-full rounded-lg bg-black"
+        />
+      ) : null;
+    case "html":
+      // No allow-same-origin: the page runs in an opaque origin and cannot reach the app
+      return mediaUrl ? (
+        <iframe
+          src={mediaUrl}
+          title={title}
+          sandbox="allow-scripts"
+          referrerPolicy="no-referrer"
+          className="h-[70vh] w-full rounded-lg border border-white/10 bg-white"
+        />
+      ) : null;
+    case "zip":
+      return preview?.entries ? (
+        <ZipListing entries={preview.entries} entryCount={preview.entryCount ?? preview.entries.length} />
+      ) : null;
+    default:
+      return null;
+  }
+}
+
+function PagedPreview({
+  pages,
+  pageCount,
+}: {
+  pages: { url: string; thumbnailUrl: string }[];
+  pageCount: number;
+}) {
+  const [page, setPage] = useState(0);
+
+  return (
+    <div className="space-y-4">
+      <div className="relative rounded-lg bg-white">
+        <img src={pages[page].url} alt={`Page ${page + 1}`} className="mx-auto max-h-[75vh] w-auto" />
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-slate-400">
+        <button
+          onClick={() => setPage(page - 1)}
+          disabled={page === 0}
+          className="flex items-center gap-1 hover:text-cyan-400 disabled:opacity-40 disabled:hover:text-slate-400"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Previous
+        </button>
+        <span>
+          Page {page + 1} of {pageCount}
+        </span>
+        <button
+          onClick={() => setPage(page + 1)}
+          disabled={page === pages.length - 1}
+          className="flex items-center gap-1 hover:text-cyan-400 disabled:opacity-40 disabled:hover:text-slate-400"
+        >
+          Next
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      {pages.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-2">
+          {pages.map((p, i) => (
+            <button
+              key={p.thumbnailUrl}
+              onClick={() => setPage(i)}
+              className={`flex-shrink-0 rounded border-2 bg-white ${
+                i === page ? "border-cyan-400" : "border-transparent opacity-70 hover:opacity-100"
+              }`}
+            >
+              <img src={p.thumbnailUrl} alt={`Page ${i + 1}`} className="h-24 w-auto" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {pageCount > pages.length && (
+        <p className="text-xs text-slate-500">
+          Showing the first {pages.length} pages. Download the resource to see all {pageCount}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ImageLightbox({ src, previewSrc, alt }: { src: string; previewSrc?: string; alt: string }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <button onClick={() => setOpen(true)} className="block w-full cursor-zoom-in">
+        <img src={previewSrc ?? src} alt={alt} className="mx-auto max-h-[60vh] rounded-lg" />
+      </button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-[95vw] border-white/10 bg-slate-950 p-2 sm:max-w-[95vw]">
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <img src={src} alt={alt} className="mx-auto max-h-[90vh] w-auto" />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+function ZipListing({
+  entries,
+  entryCount,
+}: {
+  entries: { path: string; size: number; isDirectory: boolean }[];
+  entryCount: number;
+}) {
+  return (
+    <div>
+      <ul className="max-h-96 divide-y divide-white/5 overflow-y-auto rounded-lg border border-white/10">
+        {entries.map((entry) => (
+          <li key={entry.path} className="flex items-center gap-3 px-3 py-2 text-sm">
+            {entry.isDirectory ? (
+              <Folder className="h-4 w-4 flex-shrink-0 text-cyan-400" />
+            ) : (
+              <File className="h-4 w-4 flex-shrink-0 text-slate-400" />
+            )}
+            <span className="flex-1 truncate text-slate-300">{entry.path}</span>
+            {!entry.isDirectory && <span className="text-xs text-slate-500">{formatSize(entry.size)}</span>}
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-slate-500">
+        {entryCount > entries.length
+          ? `Showing ${entries.length} of ${entryCount} files`
+          : `${entryCount} ${entryCount === 1 ? "file" : "files"}`}
+      </p>
+    </div>
+  );
+}
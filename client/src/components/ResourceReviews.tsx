@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { GraduationCap, Loader2, Star } from "lucide-react";
+import { trpc, type RouterOutputs } from "../lib/trpc";
+import { useAuth } from "../_core/hooks/useAuth";
+import { REVIEW_CONFIG } from "../const";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Textarea } from "./ui/textarea";
+
+type Review = NonNullable<RouterOutputs["review"]["getMine"]>;
+
+const CRITERIA = [
+  { key: "alignmentScore", summaryKey: "alignment", label: "Standards alignment" },
+  { key: "clarityScore", summaryKey: "clarity", label: "Clarity" },
+  { key: "classroomReadinessScore", summaryKey: "classroomReadiness", label: "Classroom-readiness" },
+] as const;
+
+type CriterionKey = (typeof CRITERIA)[number]["key"];
+
+const SCORES = Array.from(
+  { length: REVIEW_CONFIG.MAX_SCORE - REVIEW_CONFIG.MIN_SCORE + 1 },
+  (_, i) => REVIEW_CONFIG.MIN_SCORE + i
+);
+
+function Stars({ value, size = "h-4 w-4" }: { value: number; size?: string }) {
+  return (
+    <span className="inline-flex">
+      {SCORES.map((score) => (
+        <Star
+          key={score}
+          className={`${size} ${score <= Math.round(value) ? "fill-yellow-400 text-yellow-400" : "text-slate-600"}`}
+        />
+      ))}
+    </span>
+  );
+}
+
+function StarInput({ value, onChange, label }: { value: number | null; onChange: (v: number | null) => void; label: string }) {
+  return (
+    <div className="flex items-center gap-1" role="radiogroup" aria-label={label}>
+      {SCORES.map((score) => (
+        <button
+          key={score}
+          type="button"
+          role="radio"
+          aria-checked={value === score}
+          aria-label={`${score} of ${REVIEW_CONFIG.MAX_SCORE}`}
+          // Clicking the selected star again clears an optional score
+          onClick={() => onChange(value === score ? null : score)}
+        >
+          <Star
+            className={`h-5 w-5 ${value !== null && score <= value ? "fill-yellow-400 text-yellow-400" : "text-slate-600 hover:text-yellow-400"}`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Ratings summary, the user's own review and the list of reviews for ResourceDetail
+export function ResourceReviews({ resourceId, canReview }: { resourceId: string; canReview: boolean }) {
+  const { isAuthenticated } = useAuth();
+  const { data: summary } = trpc.review.summary.useQuery({ resourceId });
+  const { data: myReview, isLoading: myReviewLoading } = trpc.review.getMine.useQuery(
+    { resourceId },
+    { enabled: isAuthenticated }
+  );
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = trpc.review.list.useInfiniteQuery(
+    { resourceId },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+  const [editing, setEditing] = useState(false);
+
+  const reviews = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur">
+      <h2 className="text-lg font-semibold text-white mb-4">Reviews</h2>
+
+      {summary && summary.reviewCount > 0 ? (
+        <div className="grid gap-6 md:grid-cols-3">
+          <div>
+            <p className="text-4xl font-bold text-white">{summary.averageRating?.toFixed(1)}</p>
+            <Stars value={summary.averageRating ?? 0} />
+            <p className="mt-1 text-sm text-slate-400">
+              {summary.reviewCount} {summary.reviewCount === 1 ? "review" : "reviews"}
+            </p>
+            {summary.usedInClassCount > 0 && (
+              <p className="mt-2 flex items-center gap-1 text-sm text-cyan-400">
+                <GraduationCap className="h-4 w-4" />
+                Used in class by {summary.usedInClassCount} {summary.usedInClassCount === 1 ? "teacher" : "teachers"}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            {[...SCORES].reverse().map((score) => {
+              const count = summary.distribution[score] ?? 0;
+              return (
+                <div key={score} className="flex items-center gap-2 text-xs text-slate-400">
+                  <span className="w-3">{score}</span>
+                  <div className="h-2 flex-1 overflow-hidden rounded-full bg-white/10">
+                    <div
+                      className="h-full bg-yellow-400"
+                      style={{ width: `${(count / summary.reviewCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-6 text-right">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            {CRITERIA.map(({ summaryKey, label }) => {
+              const criterion = summary.criteria[summaryKey];
+              return (
+                <div key={summaryKey} className="flex items-center justify-between text-sm">
+                  <span className="text-slate-400">{label}</span>
+                  {criterion.average !== null ? (
+                    <span className="text-white">{criterion.average.toFixed(1)}</span>
+                  ) : (
+                    <span className="text-slate-600">—</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">No reviews yet</p>
+      )}
+
+      {canReview && isAuthenticated && !myReviewLoading && (
+        <div className="mt-6 border-t border-white/10 pt-6">
+          {myReview && !editing ? (
+            <div className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2 text-slate-400">
+                Your rating <Stars value={myReview.rating} />
+              </span>
+              <button onClick={() => setEditing(true)} className="text-cyan-400 hover:text-cyan-300">
+                Edit your review
+              </button>
+            </div>
+          ) : (
+            <ReviewForm
+              resourceId={resourceId}
+              existing={myReview ?? undefined}
+              onDone={() => setEditing(false)}
+            />
+          )}
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="mt-6 space-y-5 border-t border-white/10 pt-6">
+          {reviews.map((review) => (
+            <li key={review.id} className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                <Stars value={review.rating} />
+                <span className="font-medium text-slate-300">{review.userName ?? "Unknown"}</span>
+                <span>{formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}</span>
+                {review.editedAt && <span>(edited)</span>}
+                {review.usedInClass && (
+                  <span className="flex items-center gap-1 rounded-full bg-cyan-500/10 px-2 py-0.5 text-cyan-400">
+                    <GraduationCap className="h-3 w-3" />
+                    Used in class
+                  </span>
+                )}
+              </div>
+              {CRITERIA.some(({ key }) => review[key] !== null) && (
+                <p className="text-xs text-slate-500">
+                  {CRITERIA.filter(({ key }) => review[key] !== null)
+                    .map(({ key, label }) => `${label} ${review[key]}/${REVIEW_CONFIG.MAX_SCORE}`)
+                    .join(" · ")}
+                </p>
+              )}
+              {review.notes && <p className="whitespace-pre-wrap text-sm text-slate-200">{review.notes}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasNextPage && (
+        <button
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+          className="mt-6 text-sm text-cyan-400 hover:text-cyan-300 disabled:opacity-50"
+        >
+          {isFetchingNextPage ? "Loading…" : "Load more reviews"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ReviewForm({ resourceId, existing, onDone }: { resourceId: string; existing?: Review; onDone: () => void }) {
+  const utils = trpc.useUtils();
+  const [rating, setRating] = useState<number | null>(existing?.rating ?? null);
+  const [scores, setScores] = useState<Record<CriterionKey, number | null>>({
+    alignmentScore: existing?.alignmentScore ?? null,
+    clarityScore: existing?.clarityScore ?? null,
+    classroomReadinessScore: existing?.classroomReadinessScore ?? null,
+  });
+  const [notes, setNotes] = useState(existing?.notes ?? "");
+  const [usedInClass, setUsedInClass] = useState(existing?.usedInClass ?? false);
+
+  const onSuccess = () => {
+    utils.review.invalidate();
+    utils.resource.getById.invalidate({ id: resourceId });
+    onDone();
+  };
+  const createMutation = trpc.review.create.useMutation({ onSuccess });
+  const updateMutation = trpc.review.update.useMutation({ onSuccess });
+  const deleteMutation = trpc.review.delete.useMutation({ onSuccess });
+  const mutation = existing ? updateMutation : createMutation;
+
+  const handleSubmit = () => {
+    if (rating === null) return;
+    const fields = { rating, ...scores, notes: notes.trim(), usedInClass };
+    if (existing) {
+      updateMutation.mutate({ id: existing.id, ...fields });
+    } else {
+      createMutation.mutate({ resourceId, ...fields });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="mb-1 text-sm font-medium text-white">{existing ? "Edit your review" : "Rate this resource"}</p>
+        <StarInput value={rating} onChange={setRating} label="Overall rating" />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        {CRITERIA.map(({ key, label }) => (
+          <div key={key}>
+            <p className="mb-1 text-xs text-slate-400">{label} (optional)</p>
+            <StarInput value={scores[key]} onChange={(v) => setScores({ ...scores, [key]: v })} label={label} />
+          </div>
+        ))}
+      </div>
+
+      <Textarea
+        value={notes}
+        maxLength={REVIEW_CONFIG.MAX_NOTES_LENGTH}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="What worked, what you changed, how students responded…"
+        className="min-h-20 border-white/10 bg-white/5 text-white placeholder:text-slate-500"
+      />
+
+      <label className="flex items-center gap-2 text-sm text-slate-300">
+        <Checkbox checked={usedInClass} onCheckedChange={(checked) => setUsedInClass(checked === true)} />
+        I used this in class
+      </label>
+
+      {mutation.error && <p className="text-xs text-red-400">{mutation.error.message}</p>}
+
+      <div className="flex justify-end gap-2">
+        {existing && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate({ id: existing.id })}
+              disabled={deleteMutation.isPending}
+              className="mr-auto text-red-400 hover:bg-red-500/10"
+            >
+              Delete review
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onDone} className="text-slate-400 hover:bg-white/10">
+              Cancel
+            </Button>
+          </>
+        )}
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={rating === null || mutation.isPending}
+          className="bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500"
+        >
+          {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {existing ? "Save review" : "Submit review"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-export { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+export { COOKIE_NAME, ONE_YEAR_MS, COMMENT_CONFIG, REVIEW_CONFIG } from "@shared/const";
 
 export const APP_TITLE = import.meta.env.VITE_APP_TITLE || "App";
 
@@ -26,4 +26,66 @@ export const getLoginUrl = () => {
   url.searchParams.set("type", "signIn");
 
   return url.toString();
-};
\ No newline at end of file
+};
+
+// Display labels for resource enums (values match drizzle/schema.ts)
+export const SUBJECT_LABELS: Record<string, string> = {
+  math: "Mathematics",
+  science: "Science",
+  english: "English",
+  history: "History",
+  geography: "Geography",
+  art: "Art",
+  music: "Music",
+  pe: "Physical Education",
+  computer_science: "Computer Science",
+  foreign_language: "Foreign Language",
+  social_studies: "Social Studies",
+  stem: "STEM",
+  special_education: "Special Education",
+  other: "Other",
+};
+
+export const GRADE_LEVEL_LABELS: Record<string, string> = {
+  pre_k: "Pre-K",
+  kindergarten: "Kindergarten",
+  "1st": "1st Grade",
+  "2nd": "2nd Grade",
+  "3rd": "3rd Grade",
+  "4th": "4th Grade",
+  "5th": "5th Grade",
+  "6th": "6th Grade",
+  "7th": "7th Grade",
+  "8th": "8th Grade",
+  "9th": "9th Grade",
+  "10th": "10th Grade",
+  "11th": "11th Grade",
+  "12th": "12th Grade",
+  higher_ed: "Higher Ed",
+  professional: "Professional",
+  all: "All Grades",
+};
+
+export const CATEGORY_LABELS: Record<string, string> = {
+  lesson_plan: "Lesson Plan",
+  worksheet: "Worksheet",
+  assessment: "Assessment",
+  presentation: "Presentation",
+  video: "Video",
+  interactive: "Interactive",
+  reference: "Reference",
+  template: "Template",
+  other: "Other",
+};
+
+export const RESOURCE_TYPE_LABELS: Record<string, string> = {
+  pdf: "PDF",
+  doc: "Document",
+  ppt: "Slides",
+  video: "Video",
+  image: "Image",
+  link: "Link",
+  html: "HTML",
+  zip: "ZIP",
+  other: "Other",
+};
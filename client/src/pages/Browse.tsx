@@ -2,62 +2,49 @@ import { useState, useEffect, Fragment } from "react";
 import { Link } from "wouter";
 import { Menu, X, Search, SlidersHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { trpc } from "@/lib/trpc";
+import { trpc, type RouterInputs } from "@/lib/trpc";
 import { useDebounce } from "@/hooks/useDebounce";
 import { useSearchParams } from "@/hooks/useSearchParams";
 import { ResourceCard, ResourceCardSkeleton } from "@/components/ResourceCard";
 import { Starfield } from "@/components/Starfield";
+import { FacetFilters, type FacetKey, type FacetSelection } from "@/components/FacetFilters";
 
-// Filter categories
-const CATEGORIES = [
-  "All",
-  "Mathematics",
-  "Science",
-  "History",
-  "Computer Science",
-  "Language Arts",
-  "Social Studies",
-  "Arts",
-  "Physical Education",
-];
-
-const GRADE_LEVELS = [
-  "All",
-  "Elementary",
-  "Middle School",
-  "High School",
-  "University",
-  "Professional",
-];
+type BrowseFilters = RouterInputs["resource"]["facets"];
 
-const RESOURCE_TYPES = [
-  "All",
-  "Lesson Plan",
-  "Worksheet",
-  "Video",
-  "Interactive",
-  "Assessment",
-  "Presentation",
-  "Article",
-];
+type SortOption = "relevance" | "newest" | "popular" | "highest_rated";
 
-const SORT_OPTIONS = [
+const SORT_OPTIONS: { value: SortOption; label: string; requiresSearch?: boolean }[] = [
+  { value: "relevance", label: "Relevance", requiresSearch: true },
   { value: "newest", label: "Newest" },
   { value: "popular", label: "Most Popular" },
   { value: "highest_rated", label: "Highest Rated" },
-] as const;
+];
 
 export default function Browse() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [filtersOpen, setFiltersOpen] = useState(false);
   const [searchParams, setSearchParams] = useSearchParams();
 
-  // Extract Filters from URL or Default
+  // Extract Filters from URL or Default (facet values repeat, e.g. ?subject=math&subject=science)
   const search = searchParams.get("q") || "";
-  const category = searchParams.get("category") || "All";
-  const gradeLevel = searchParams.get("grade") || "All";
-  const resourceType = searchParams.get("type") || "All";
-  const sortBy = (searchParams.get("sort") as "newest" | "popular" | "highest_rated") || "newest";
+  const selected: FacetSelection = {
+    subject: searchParams.getAll("subject"),
+    gradeLevel: searchParams.getAll("gradeLevel"),
+    category: searchParams.getAll("category"),
+    resourceType: searchParams.getAll("resourceType"),
+    tags: searchParams.getAll("tags"),
+    standards: searchParams.getAll("standards"),
+  };
+
+  // Without an explicit choice, rank by relevance while searching
+  const requestedSort = searchParams.get("sort") as SortOption | null;
+  const sortBy =
+    requestedSort && (requestedSort !== "relevance" || search)
+      ? requestedSort
+      : search
+        ? "relevance"
+        : "newest";
+  const sortOptions = SORT_OPTIONS.filter((option) => !option.requiresSearch || search);
 
   // Local state for search input to allow debouncing
   const [localSearch, setLocalSearch] = useState(search);
@@ -74,6 +61,18 @@ export default function Browse() {
     setSearchParams(params, { replace: true });
   }, [debouncedSearch]);
 
+  // Shared filter input for results and facet counts
+  const filters: BrowseFilters = {
+    search: debouncedSearch || undefined,
+    // Unknown enum values in a hand-edited URL are rejected by the server
+    subject: selected.subject as BrowseFilters["subject"],
+    gradeLevel: selected.gradeLevel as BrowseFilters["gradeLevel"],
+    category: selected.category as BrowseFilters["category"],
+    resourceType: selected.resourceType as BrowseFilters["resourceType"],
+    tags: selected.tags,
+    standards: selected.standards,
+  };
+
   // tRPC Infinite Query
   const {
     data,
@@ -81,29 +80,32 @@ export default function Browse() {
     fetchNextPage,
     hasNextPage,
     isFetchingNextPage,
-  } = trpc.resources.getAll.useInfiniteQuery(
-    {
-      limit: 12,
-      search: debouncedSearch || undefined,
-      category: category !== "All" ? category : undefined,
-      gradeLevel: gradeLevel !== "All" ? gradeLevel : undefined,
-      resourceType: resourceType !== "All" ? resourceType : undefined,
-      sortBy,
-    },
+  } = trpc.resource.browse.useInfiniteQuery(
+    { ...filters, limit: 12, sort: sortBy },
     {
       getNextPageParam: (lastPage) => lastPage.nextCursor,
       refetchOnWindowFocus: false,
     }
   );
 
+  const { data: facets } = trpc.resource.facets.useQuery(filters, {
+    placeholderData: (previous) => previous,
+    refetchOnWindowFocus: false,
+  });
+
   // Filter Handlers
-  const updateFilter = (key: string, value: string) => {
+  const updateSort = (value: string) => {
     const params = new URLSearchParams(searchParams);
-    if (value === "All") {
-      params.delete(key);
-    } else {
-      params.set(key, value);
-    }
+    params.set("sort", value);
+    setSearchParams(params);
+  };
+
+  const toggleFacet = (key: FacetKey, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    const values = params.getAll(key);
+    params.delete(key);
+    const next = values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+    next.forEach((v) => params.append(key, v));
     setSearchParams(params);
   };
 
@@ -114,8 +116,7 @@ export default function Browse() {
   };
 
   // Check if any filters are active
-  const hasActiveFilters =
-    search || category !== "All" || gradeLevel !== "All" || resourceType !== "All";
+  const hasActiveFilters = !!search || Object.values(selected).some((values) => values.length > 0);
 
   // Flatten pages into items
   const items = data?.pages.flatMap((page) => page.items) || [];
@@ -261,239 +262,150 @@ export default function Browse() {
           </div>
 
           {/* Filter Toolbar */}
-          <div className="mb-8 rounded-xl border border-white/5 bg-white/5 p-4 backdrop-blur">
-            {/* Desktop Filters */}
-            <div className="hidden md:flex flex-wrap items-center justify-between gap-4">
-              <div className="flex flex-wrap gap-4">
-                {/* Category Filter */}
-                <select
-                  value={category}
-                  onChange={(e) => updateFilter("category", e.target.value)}
-                  className="rounded-lg border border-white/10 bg-black/40 px-4 py-2 text-sm text-white focus:border-cyan-500 focus:outline-none cursor-pointer"
-                >
-                  {CATEGORIES.map((cat) => (
-                    <option key={cat} value={cat}>
-                      {cat === "All" ? "All Categories" : cat}
-                    </option>
-                  ))}
-                </select>
+          <div className="mb-8 flex items-center justify-between gap-4 rounded-xl border border-white/5 bg-white/5 p-4 backdrop-blur">
+            {/* Mobile Filter Toggle */}
+            <button
+              onClick={() => setFiltersOpen(!filtersOpen)}
+              className="flex items-center gap-2 text-sm text-slate-300 lg:hidden"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Filters
+              {hasActiveFilters && (
+                <span className="ml-1 h-2 w-2 rounded-full bg-cyan-400" />
+              )}
+            </button>
 
-                {/* Grade Level Filter */}
-                <select
-                  value={gradeLevel}
-                  onChange={(e) => updateFilter("grade", e.target.value)}
-                  className="rounded-lg border border-white/10 bg-black/40 px-4 py-2 text-sm text-white focus:border-cyan-500 focus:outline-none cursor-pointer"
-                >
-                  {GRADE_LEVELS.map((level) => (
-                    <option key={level} value={level}>
-                      {level === "All" ? "All Levels" : level}
-                    </option>
-                  ))}
-                </select>
+            {/* Clear Filters */}
+            {hasActiveFilters ? (
+              <button
+                onClick={clearFilters}
+                className="hidden text-sm text-slate-400 hover:text-cyan-400 transition-colors lg:block"
+              >
+                Clear filters
+              </button>
+            ) : (
+              <span className="hidden lg:block" />
+            )}
 
-                {/* Resource Type Filter */}
-                <select
-                  value={resourceType}
-                  onChange={(e) => updateFilter("type", e.target.value)}
-                  className="rounded-lg border border-white/10 bg-black/40 px-4 py-2 text-sm text-white focus:border-cyan-500 focus:outline-none cursor-pointer"
-                >
-                  {RESOURCE_TYPES.map((type) => (
-                    <option key={type} value={type}>
-                      {type === "All" ? "All Types" : type}
-                    </option>
-                  ))}
-                </select>
+            {/* Sort */}
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-slate-400">Sort by:</span>
+              <select
+                value={sortBy}
+                onChange={(e) => updateSort(e.target.value)}
+                className="rounded-lg border-none bg-transparent py-2 text-sm font-medium text-cyan-400 focus:ring-0 cursor-pointer"
+              >
+                {sortOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
 
-                {/* Clear Filters */}
+          <div className="grid gap-8 lg:grid-cols-[240px_1fr]">
+            {/* Facets */}
+            <aside className={`${filtersOpen ? "block" : "hidden"} lg:block`}>
+              <div className="rounded-xl border border-white/5 bg-white/5 p-4 backdrop-blur">
+                <FacetFilters facets={facets} selected={selected} onToggle={toggleFacet} />
                 {hasActiveFilters && (
                   <button
                     onClick={clearFilters}
-                    className="text-sm text-slate-400 hover:text-cyan-400 transition-colors"
+                    className="mt-6 text-sm text-slate-400 hover:text-cyan-400 transition-colors lg:hidden"
                   >
-                    Clear filters
+                    Clear all
                   </button>
                 )}
               </div>
+            </aside>
+
+            <div>
+              {/* Results Count */}
+              {!isLoading && (
+                <p className="mb-6 text-sm text-slate-400">
+                  {items.length === 0
+                    ? "No resources found"
+                    : `Showing ${items.length} resource${items.length !== 1 ? "s" : ""}`}
+                  {hasNextPage && " (more available)"}
+                </p>
+              )}
 
-              {/* Sort */}
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-slate-400">Sort by:</span>
-                <select
-                  value={sortBy}
-                  onChange={(e) => updateFilter("sort", e.target.value)}
-                  className="rounded-lg border-none bg-transparent py-2 text-sm font-medium text-cyan-400 focus:ring-0 cursor-pointer"
-                >
-                  {SORT_OPTIONS.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
-
-            {/* Mobile Filter Toggle */}
-            <div className="md:hidden">
-              <button
-                onClick={() => setFiltersOpen(!filtersOpen)}
-                className="flex items-center gap-2 text-sm text-slate-300"
-              >
-                <SlidersHorizontal className="h-4 w-4" />
-                Filters
-                {hasActiveFilters && (
-                  <span className="ml-1 h-2 w-2 rounded-full bg-cyan-400" />
-                )}
-              </button>
-
-              {/* Mobile Filters Expanded */}
-              {filtersOpen && (
-                <div className="mt-4 space-y-4">
-                  <select
-                    value={category}
-                    onChange={(e) => updateFilter("category", e.target.value)}
-                    className="w-full rounded-lg border border-white/10 bg-black/40 px-4 py-2 text-sm text-white"
-                  >
-                    {CATEGORIES.map((cat) => (
-                      <option key={cat} value={cat}>
-                        {cat === "All" ? "All Categories" : cat}
-                      </option>
-                    ))}
-                  </select>
-
-                  <select
-                    value={gradeLevel}
-                    onChange={(e) => updateFilter("grade", e.target.value)}
-                    className="w-full rounded-lg border border-white/10 bg-black/40 px-4 py-2 text-sm text-white"
-                  >
-                    {GRADE_LEVELS.map((level) => (
-                      <option key={level} value={level}>
-                        {level === "All" ? "All Levels" : level}
-                      </option>
-                    ))}
-                  </select>
-
-                  <select
-                    value={resourceType}
-                    onChange={(e) => updateFilter("type", e.target.value)}
-                    className="w-full rounded-lg border border-white/10 bg-black/40 px-4 py-2 text-sm text-white"
-                  >
-                    {RESOURCE_TYPES.map((type) => (
-                      <option key={type} value={type}>
-                        {type === "All" ? "All Types" : type}
-                      </option>
-                    ))}
-                  </select>
-
-                  <div className="flex items-center justify-between">
-                    <select
-                      value={sortBy}
-                      onChange={(e) => updateFilter("sort", e.target.value)}
-                      className="rounded-lg border border-white/10 bg-black/40 px-4 py-2 text-sm text-white"
-                    >
-                      {SORT_OPTIONS.map((option) => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
-
+              {/* Resource Grid */}
+              <div className="grid gap-6 sm:grid-cols-2 xl:grid-cols-3">
+                {isLoading ? (
+                  // Skeleton Loading State
+                  [...Array(8)].map((_, i) => <ResourceCardSkeleton key={i} />)
+                ) : items.length === 0 ? (
+                  // Empty State
+                  <div className="col-span-full py-20 text-center">
+                    <div className="mb-4 text-6xl opacity-50">
+                      <Search className="mx-auto h-16 w-16 text-slate-600" />
+                    </div>
+                    <h3 className="text-xl font-bold text-white">No resources found</h3>
+                    <p className="text-slate-400 mt-2">
+                      Try adjusting your filters or search query.
+                    </p>
                     {hasActiveFilters && (
                       <button
                         onClick={clearFilters}
-                        className="text-sm text-slate-400 hover:text-cyan-400"
+                        className="mt-4 text-cyan-400 hover:text-cyan-300 transition-colors"
                       >
-                        Clear all
+                        Clear all filters
                       </button>
                     )}
                   </div>
-                </div>
-              )}
-            </div>
-          </div>
-
-          {/* Results Count */}
-          {!isLoading && (
-            <p className="mb-6 text-sm text-slate-400">
-              {items.length === 0
-                ? "No resources found"
-                : `Showing ${items.length} resource${items.length !== 1 ? "s" : ""}`}
-              {hasNextPage && " (more available)"}
-            </p>
-          )}
+                ) : (
+                  // Data Render
+                  data?.pages.map((page, pageIndex) => (
+                    <Fragment key={pageIndex}>
+                      {page.items.map((resource) => (
+                        <ResourceCard key={resource.id} resource={resource} />
+                      ))}
+                    </Fragment>
+                  ))
+                )}
+              </div>
 
-          {/* Resource Grid */}
-          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-            {isLoading ? (
-              // Skeleton Loading State
-              [...Array(8)].map((_, i) => <ResourceCardSkeleton key={i} />)
-            ) : items.length === 0 ? (
-              // Empty State
-              <div className="col-span-full py-20 text-center">
-                <div className="mb-4 text-6xl opacity-50">
-                  <Search className="mx-auto h-16 w-16 text-slate-600" />
-                </div>
-                <h3 className="text-xl font-bold text-white">No resources found</h3>
-                <p className="text-slate-400 mt-2">
-                  Try adjusting your filters or search query.
-                </p>
-                {hasActiveFilters && (
+              {/* Load More Trigger */}
+              {hasNextPage && (
+                <div className="mt-12 text-center">
                   <button
-                    onClick={clearFilters}
-                    className="mt-4 text-cyan-400 hover:text-cyan-300 transition-colors"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="rounded-full bg-gradient-to-r from-cyan-500 to-blue-600 px-8 py-3 font-bold text-white transition-all hover:scale-105 hover:shadow-[0_0_30px_rgba(6,182,212,0.3)] disabled:opacity-50 disabled:hover:scale-100"
                   >
-                    Clear all filters
+                    {isFetchingNextPage ? (
+                      <span className="flex items-center gap-2">
+                        <svg
+                          className="animate-spin h-5 w-5"
+                          viewBox="0 0 24 24"
+                          fill="none"
+                        >
+                          <circle
+                            className="opacity-25"
+                            cx="12"
+                            cy="12"
+                            r="10"
+                            stroke="currentColor"
+                            strokeWidth="4"
+                          />
+                          <path
+                            className="opacity-75"
+                            fill="currentColor"
+                            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                          />
+                        </svg>
+                        Loading...
+                      </span>
+                    ) : (
+                      "Load More Resources"
+                    )}
                   </button>
-                )}
-              </div>
-            ) : (
-              // Data Render
-              data?.pages.map((page, pageIndex) => (
-                <Fragment key={pageIndex}>
-                  {page.items.map((resource) => (
-                    <ResourceCard key={resource.id} resource={resource} />
-                  ))}
-                </Fragment>
-              ))
-            )}
-          </div>
-
-          {/* Load More Trigger */}
-          {hasNextPage && (
-            <div className="mt-12 text-center">
-              <button
-                onClick={() => fetchNextPage()}
-                disabled={isFetchingNextPage}
-                className="rounded-full bg-gradient-to-r from-cyan-500 to-blue-600 px-8 py-3 font-bold text-white transition-all hover:scale-105 hover:shadow-[0_0_30px_rgba(6,182,212,0.3)] disabled:opacity-50 disabled:hover:scale-100"
-              >
-                {isFetchingNextPage ? (
-                  <span className="flex items-center gap-2">
-                    <svg
-                      className="animate-spin h-5 w-5"
-                      viewBox="0 0 24 24"
-                      fill="none"
-                    >
-                      <circle
-                        className="opacity-25"
-                        cx="12"
-                        cy="12"
-                        r="10"
-                        stroke="currentColor"
-                        strokeWidth="4"
-                      />
-                      <path
-                        className="opacity-75"
-                        fill="currentColor"
-                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                      />
-                    </svg>
-                    Loading...
-                  </span>
-                ) : (
-                  "Load More Resources"
-                )}
-              </button>
+                </div>
+              )}
             </div>
-          )}
+          </div>
         </div>
       </main>
 
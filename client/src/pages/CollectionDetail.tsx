@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { Link, useParams, useLocation } from "wouter";
+import { Menu, X, ArrowLeft, Clock, Copy, Download, Loader2, AlertCircle, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Starfield } from "@/components/Starfield";
+import { CATEGORY_LABELS, GRADE_LEVEL_LABELS } from "@/const";
+
+// Format a duration in minutes as "1 h 30 min"
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+const EXPORT_FORMATS = [
+  { format: "common_cartridge", label: "Common Cartridge (.imscc)", hint: "For Canvas, Moodle and Schoology" },
+  { format: "zip", label: "ZIP bundle", hint: "Files with an index page and metadata" },
+] as const;
+
+// Request an export and poll its status until the package is ready
+function ExportPanel({ collectionId }: { collectionId: string }) {
+  const [exportId, setExportId] = useState<string | null>(null);
+  const requestExport = trpc.collection.requestExport.useMutation({
+    onSuccess: ({ id }) => setExportId(id),
+  });
+  const { data: job } = trpc.collection.getExport.useQuery(
+    { id: exportId ?? "" },
+    {
+      enabled: !!exportId,
+      refetchInterval: (query) =>
+        query.state.data && ["completed", "failed"].includes(query.state.data.status) ? false : 2000,
+    }
+  );
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur">
+      <h2 className="text-lg font-semibold text-white mb-4">Export</h2>
+      <div className="flex flex-wrap gap-3">
+        {EXPORT_FORMATS.map(({ format, label, hint }) => (
+          <Button
+            key={format}
+            variant="outline"
+            title={hint}
+            onClick={() => requestExport.mutate({ collectionId, format })}
+            disabled={requestExport.isPending || (!!job && ["pending", "running"].includes(job.status))}
+            className="border-white/20 text-white hover:bg-white/10"
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {requestExport.error && <p className="mt-3 text-sm text-red-400">{requestExport.error.message}</p>}
+
+      {job && (
+        <div className="mt-4 text-sm">
+          {(job.status === "pending" || job.status === "running") && (
+            <p className="flex items-center gap-2 text-slate-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {job.status === "pending" && job.queuePosition
+                ? `Waiting for ${job.queuePosition} other ${job.queuePosition === 1 ? "export" : "exports"}…`
+                : "Building your package…"}
+            </p>
+          )}
+          {job.status === "completed" && job.downloadUrl && (
+            <div className="space-y-1">
+              <a href={job.downloadUrl} className="inline-flex items-center gap-2 text-cyan-400 hover:text-cyan-300">
+                <Download className="h-4 w-4" />
+                {job.fileName}
+              </a>
+              {!!job.filesLinked && (
+                <p className="text-xs text-slate-500">
+                  {job.filesLinked} large {job.filesLinked === 1 ? "file is" : "files are"} included as links
+                </p>
+              )}
+            </div>
+          )}
+          {job.status === "failed" && <p className="text-red-400">Export failed: {job.error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CollectionDetail() {
+  const params = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+
+  const collectionId = params.id || "";
+
+  const {
+    data: collection,
+    isLoading,
+    error,
+  } = trpc.collection.getById.useQuery({ id: collectionId }, { enabled: !!collectionId });
+  const { data: plan } = trpc.collection.getPlan.useQuery({ collectionId }, { enabled: !!collection });
+
+  const cloneMutation = trpc.collection.clone.useMutation({
+    onSuccess: ({ id }) => navigate(`/collection/${id}`),
+  });
+
+  // Items are numbered across the whole unit, not per section
+  let itemNumber = 0;
+
+  return (
+    <div className="min-h-screen flex flex-col relative bg-slate-950">
+      <Starfield />
+
+      {/* Navigation */}
+      <nav className="border-b border-white/10 backdrop-blur-md sticky top-0 z-50 bg-slate-950/80">
+        <div className="container flex h-16 items-center justify-between">
+          <Link href="/" className="flex items-center gap-2 sm:gap-3">
+            <img
+              src="/astro-ai-logo.png"
+              alt="Apex Commons"
+              className="h-6 w-6 sm:h-8 sm:w-8 flex-shrink-0"
+            />
+            <div className="text-lg sm:text-2xl font-bold bg-gradient-to-r from-cyan-400 to-blue-600 bg-clip-text text-transparent whitespace-nowrap">
+              Apex Commons
+            </div>
+          </Link>
+
+          {/* Desktop Navigation */}
+          <div className="desktop-nav items-center gap-6">
+            <Link
+              href="/browse"
+              className="text-sm font-medium text-slate-300 hover:text-cyan-400 transition-colors"
+            >
+              Browse
+            </Link>
+            <Link
+              href="/contribute"
+              className="text-sm font-medium text-slate-300 hover:text-cyan-400 transition-colors"
+            >
+              Contribute
+            </Link>
+            <Link
+              href="/about"
+              className="text-sm font-medium text-slate-300 hover:text-cyan-400 transition-colors"
+            >
+              Mission
+            </Link>
+          </div>
+
+          {/* Mobile Menu Button */}
+          <button
+            className="mobile-menu-btn p-2 hover:bg-white/10 rounded-md transition-colors"
+            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            aria-label="Toggle menu"
+            type="button"
+          >
+            {mobileMenuOpen ? (
+              <X className="w-6 h-6 text-cyan-400" />
+            ) : (
+              <Menu className="w-6 h-6 text-cyan-400" />
+            )}
+          </button>
+        </div>
+
+        {/* Mobile Navigation */}
+        {mobileMenuOpen && (
+          <div className="mobile-nav border-t border-white/10 bg-slate-950/95 backdrop-blur-md w-full">
+            <div className="container py-4 flex flex-col gap-4">
+              <Link
+                href="/browse"
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400 py-2"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Browse
+              </Link>
+              <Link
+                href="/contribute"
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400 py-2"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Contribute
+              </Link>
+              <Link
+                href="/about"
+                className="text-sm font-medium text-slate-300 hover:text-cyan-400 py-2"
+                onClick={() => setMobileMenuOpen(false)}
+              >
+                Mission
+              </Link>
+            </div>
+          </div>
+        )}
+      </nav>
+
+      {/* Main Content */}
+      <main className="flex-1 py-8">
+        <div className="container mx-auto px-4 max-w-4xl">
+          {/* Back Button */}
+          <button
+            onClick={() => navigate("/browse")}
+            className="mb-6 flex items-center gap-2 text-slate-400 hover:text-cyan-400 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Library
+          </button>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex items-center justify-center py-20">
+              <Loader2 className="h-8 w-8 animate-spin text-cyan-400" />
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <div className="rounded-xl border border-red-500/30 bg-red-500/10 p-8 text-center">
+              <AlertCircle className="mx-auto h-12 w-12 text-red-400 mb-4" />
+              <h2 className="text-xl font-bold text-white mb-2">Collection Not Found</h2>
+              <p className="text-slate-400 mb-4">
+                This collection may be private, removed or doesn't exist.
+              </p>
+              <Link href="/browse">
+                <Button className="bg-gradient-to-r from-cyan-500 to-blue-600">Browse Library</Button>
+              </Link>
+            </div>
+          )}
+
+          {collection && (
+            <div className="space-y-8">
+              {/* Header Section */}
+              <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur">
+                <h1 className="text-3xl font-bold text-white mb-2">{collection.title}</h1>
+                <p className="text-sm text-slate-400 mb-4">
+                  By {collection.owner.name ?? "Unknown"}
+                  {collection.myRole && collection.myRole !== "owner" && (
+                    <span className="ml-2 inline-flex items-center gap-1 rounded-full bg-cyan-500/10 px-2 py-0.5 text-xs text-cyan-400">
+                      <Users className="h-3 w-3" />
+                      You are a {collection.myRole}
+                    </span>
+                  )}
+                </p>
+                {collection.description && (
+                  <p className="text-slate-400 text-lg leading-relaxed mb-6">{collection.description}</p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-4">
+                  <span className="text-sm text-slate-300">
+                    {collection.resourceCount} {collection.resourceCount === 1 ? "resource" : "resources"}
+                  </span>
+                  {plan && plan.totalMinutes > 0 && (
+                    <span className="flex items-center gap-1 text-sm text-slate-300">
+                      <Clock className="h-4 w-4" />
+                      {formatMinutes(plan.totalMinutes)} total
+                    </span>
+                  )}
+                  {isAuthenticated && (
+                    <Button
+                      variant="outline"
+                      onClick={() => cloneMutation.mutate({ id: collection.id })}
+                      disabled={cloneMutation.isPending}
+                      className="ml-auto border-white/20 text-white hover:bg-white/10"
+                    >
+                      {cloneMutation.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Copy className="mr-2 h-4 w-4" />
+                      )}
+                      Copy to my collections
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {isAuthenticated && <ExportPanel collectionId={collection.id} />}
+
+              {/* Unit Plan */}
+              {plan && plan.sections.length === 0 && (
+                <p className="text-center text-slate-500">This collection is empty</p>
+              )}
+
+              {plan?.sections.map((section) => (
+                <section
+                  key={section.id ?? "unsectioned"}
+                  className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur"
+                >
+                  {section.title && (
+                    <div className="mb-4 flex items-baseline justify-between gap-4">
+                      <div>
+                        <h2 className="text-lg font-semibold text-white">{section.title}</h2>
+                        {section.description && <p className="text-sm text-slate-400">{section.description}</p>}
+                      </div>
+                      {section.totalMinutes > 0 && (
+                        <span className="flex shrink-0 items-center gap-1 text-sm text-slate-400">
+                          <Clock className="h-4 w-4" />
+                          {formatMinutes(section.totalMinutes)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  {section.items.length === 0 ? (
+                    <p className="text-sm text-slate-500">No resources in this section yet</p>
+                  ) : (
+                    <ol className="space-y-4">
+                      {section.items.map((item) => {
+                        itemNumber++;
+                        return (
+                          <li key={item.id} className="flex gap-4">
+                            <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-cyan-500/20 text-sm font-semibold text-cyan-400">
+                              {itemNumber}
+                            </span>
+                            <div className="min-w-0 flex-1">
+                              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                                <Link
+                                  href={`/resource/${item.id}`}
+                                  className="font-medium text-white hover:text-cyan-400"
+                                >
+                                  {item.title}
+                                </Link>
+                                {item.durationMinutes !== null && (
+                                  <span className="flex items-center gap-1 text-xs text-slate-400">
+                                    <Clock className="h-3 w-3" />
+                                    {formatMinutes(item.durationMinutes)}
+                                  </span>
+                                )}
+                              </div>
+                              <p className="text-xs text-slate-500">
+                                {[
+                                  CATEGORY_LABELS[item.category] ?? item.category,
+                                  GRADE_LEVEL_LABELS[item.gradeLevel] ?? item.gradeLevel,
+                                  item.addedByName && `added by ${item.addedByName}`,
+                                ]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </p>
+                              {item.note && (
+                                <p className="mt-1 whitespace-pre-wrap text-sm text-slate-300">{item.note}</p>
+                              )}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  )}
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Footer */}
+      <footer className="border-t border-white/10 py-8 mt-auto bg-slate-950/80 backdrop-blur">
+        <div className="container text-center text-sm text-slate-400">
+          <p>&copy; 2025 Apex Commons. All rights reserved.</p>
+        </div>
+      </footer>
+    </div>
+  );
+}
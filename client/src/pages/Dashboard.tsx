@@ -5,10 +5,17 @@ import { formatDistanceToNow } from 'date-fns';
 
 export function Dashboard() {
   const { user, loading: authLoading, isAuthenticated } = useAuth({ redirectOnUnauthenticated: true });
-  const { data: myResources, isLoading: loadingResources } = trpc.resource.getMyResources.useQuery(
-    undefined,
-    { enabled: isAuthenticated }
+  const {
+    data: myResourcePages,
+    isLoading: loadingResources,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.resource.getMyResources.useInfiniteQuery(
+    { limit: 50 },
+    { enabled: isAuthenticated, getNextPageParam: (lastPage) => lastPage.nextCursor }
   );
+  const myResources = myResourcePages?.pages.flatMap((page) => page.items);
   const { data: history, isLoading: loadingHistory } = trpc.reputation.getHistory.useQuery(
     { limit: 5 },
     { enabled: isAuthenticated }
@@ -145,6 +152,17 @@ export function Dashboard() {
                     ))}
                   </tbody>
                 </table>
+                {hasNextPage && (
+                  <div className="mt-4 text-center">
+                    <button
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                      className="text-sm text-cyan-400 hover:underline disabled:opacity-50"
+                    >
+                      {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
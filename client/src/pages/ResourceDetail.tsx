@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link, useParams, useLocation } from "wouter";
 import {
   Menu,
@@ -18,6 +18,10 @@ import { Button } from "@/components/ui/button";
 import { trpc } from "@/lib/trpc";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Starfield } from "@/components/Starfield";
+import { ResourcePreview } from "@/components/ResourcePreview";
+import { CommentThread } from "@/components/CommentThread";
+import { ResourceReviews } from "@/components/ResourceReviews";
+import { CATEGORY_LABELS, GRADE_LEVEL_LABELS, RESOURCE_TYPE_LABELS } from "@/const";
 import { formatDistanceToNow } from "date-fns";
 
 // Resource type icons mapping
@@ -35,7 +39,7 @@ const resourceTypeIcons: Record<string, string> = {
 export default function ResourceDetail() {
   const params = useParams<{ id: string }>();
   const [, navigate] = useLocation();
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [voteState, setVoteState] = useState<"up" | "down" | null>(null);
 
@@ -46,21 +50,25 @@ export default function ResourceDetail() {
     data: resource,
     isLoading,
     error,
-  } = trpc.resources.getById.useQuery(
+  } = trpc.resource.getById.useQuery(
     { id: resourceId },
     { enabled: !!resourceId }
   );
 
+  // Count the view once the resource has loaded (the server dedupes repeat visits)
+  const trackView = trpc.resource.trackView.useMutation();
+  const loadedId = resource?.id;
+  useEffect(() => {
+    if (loadedId) trackView.mutate({ id: loadedId });
+  }, [loadedId]);
+
   // Vote mutation
-  const voteMutation = trpc.resources.vote.useMutation({
+  const voteMutation = trpc.resource.vote.useMutation({
     onSuccess: () => {
       // Refetch resource to get updated counts
     },
   });
 
-  // Download tracking mutation
-  const trackDownload = trpc.resources.trackDownload.useMutation();
-
   // Handle vote
   const handleVote = (type: "up" | "down") => {
     if (!isAuthenticated) {
@@ -70,14 +78,13 @@ export default function ResourceDetail() {
     if (voteState === type) return; // Already voted this way
 
     setVoteState(type);
-    voteMutation.mutate({ resourceId, voteType: type });
+    voteMutation.mutate({ resourceId, value: type });
   };
 
-  // Handle download
+  // Handle download (the server checks access, counts it and redirects to the file)
   const handleDownload = () => {
-    if (resource?.fileUrl) {
-      trackDownload.mutate({ resourceId });
-      window.open(resource.fileUrl, "_blank");
+    if (resource?.downloadUrl) {
+      window.open(resource.downloadUrl, "_blank");
     }
   };
 
@@ -109,6 +116,12 @@ export default function ResourceDetail() {
     return n.toString();
   };
 
+  const formatBytes = (bytes: number): string => {
+    if (bytes >= 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+    if (bytes >= 1024) return (bytes / 1024).toFixed(1) + " KB";
+    return bytes + " B";
+  };
+
   return (
     <div className="min-h-screen flex flex-col relative bg-slate-950">
       <Starfield />
@@ -237,13 +250,13 @@ export default function ResourceDetail() {
                 {/* Badges */}
                 <div className="flex flex-wrap gap-2 mb-4">
                   <span className="rounded-full bg-cyan-500/20 px-3 py-1 text-sm font-medium text-cyan-400 border border-cyan-500/30">
-                    {resource.category}
+                    {CATEGORY_LABELS[resource.category] ?? resource.category}
                   </span>
                   <span className="rounded-full bg-white/10 px-3 py-1 text-sm font-medium text-slate-300">
-                    {resource.gradeLevel}
+                    {GRADE_LEVEL_LABELS[resource.gradeLevel] ?? resource.gradeLevel}
                   </span>
                   <span className="rounded-full bg-white/10 px-3 py-1 text-sm font-medium text-slate-300">
-                    {resource.resourceType}
+                    {RESOURCE_TYPE_LABELS[resource.resourceType] ?? resource.resourceType}
                   </span>
                 </div>
 
@@ -256,14 +269,14 @@ export default function ResourceDetail() {
                 </p>
 
                 {/* Tags */}
-                {resource.tags && (
+                {resource.tags && resource.tags.length > 0 && (
                   <div className="flex flex-wrap gap-2 mb-6">
-                    {resource.tags.split(",").map((tag, i) => (
+                    {resource.tags.map((tag) => (
                       <span
-                        key={i}
+                        key={tag}
                         className="rounded bg-white/5 px-2 py-1 text-xs text-slate-400"
                       >
-                        #{tag.trim()}
+                        #{tag}
                       </span>
                     ))}
                   </div>
@@ -271,7 +284,7 @@ export default function ResourceDetail() {
 
                 {/* Action Buttons */}
                 <div className="flex flex-wrap gap-4">
-                  {resource.fileUrl && (
+                  {resource.downloadUrl && (
                     <Button
                       onClick={handleDownload}
                       className="bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500"
@@ -291,6 +304,9 @@ export default function ResourceDetail() {
                 </div>
               </div>
 
+              {/* Preview Section */}
+              <ResourcePreview resourceId={resource.id} title={resource.title} />
+
               {/* Stats & Voting Section */}
               <div className="grid gap-6 md:grid-cols-2">
                 {/* Engagement Stats */}
@@ -303,7 +319,7 @@ export default function ResourceDetail() {
                       </div>
                       <div>
                         <p className="text-2xl font-bold text-white">
-                          {formatNumber(resource.views)}
+                          {formatNumber(resource.viewCount)}
                         </p>
                         <p className="text-sm text-slate-400">Views</p>
                       </div>
@@ -314,7 +330,7 @@ export default function ResourceDetail() {
                       </div>
                       <div>
                         <p className="text-2xl font-bold text-white">
-                          {formatNumber(resource.downloads)}
+                          {formatNumber(resource.downloadCount)}
                         </p>
                         <p className="text-sm text-slate-400">Downloads</p>
                       </div>
@@ -325,7 +341,7 @@ export default function ResourceDetail() {
                       </div>
                       <div>
                         <p className="text-2xl font-bold text-white">
-                          {formatNumber(resource.upvotes)}
+                          {formatNumber(resource.upvoteCount)}
                         </p>
                         <p className="text-sm text-slate-400">Upvotes</p>
                       </div>
@@ -388,17 +404,23 @@ export default function ResourceDetail() {
                 </div>
               </div>
 
+              {/* Reviews Section */}
+              <ResourceReviews
+                resourceId={resource.id}
+                canReview={resource.status === "approved" && resource.contributorId !== user?.id}
+              />
+
               {/* Contributor Section */}
               <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur">
                 <h2 className="text-lg font-semibold text-white mb-4">Contributor</h2>
                 <div className="flex items-center gap-4">
                   <div
                     className={`h-12 w-12 rounded-full flex items-center justify-center text-2xl ${
-                      resource.contributor.level === "platinum"
+                      resource.contributor.level === "master"
                         ? "bg-purple-500/20 ring-2 ring-purple-400"
-                        : resource.contributor.level === "gold"
+                        : resource.contributor.level === "expert"
                         ? "bg-yellow-500/20 ring-2 ring-yellow-400"
-                        : resource.contributor.level === "silver"
+                        : resource.contributor.level === "trusted"
                         ? "bg-slate-400/20 ring-2 ring-slate-400"
                         : "bg-amber-600/20 ring-2 ring-amber-600"
                     }`}
@@ -410,11 +432,11 @@ export default function ResourceDetail() {
                     <div className="flex items-center gap-2">
                       <span
                         className={`text-xs font-medium capitalize ${
-                          resource.contributor.level === "platinum"
+                          resource.contributor.level === "master"
                             ? "text-purple-400"
-                            : resource.contributor.level === "gold"
+                            : resource.contributor.level === "expert"
                             ? "text-yellow-400"
-                            : resource.contributor.level === "silver"
+                            : resource.contributor.level === "trusted"
                             ? "text-slate-300"
                             : "text-amber-600"
                         }`}
@@ -427,7 +449,7 @@ export default function ResourceDetail() {
               </div>
 
               {/* File Info Section */}
-              {(resource.fileSize || resource.mimeType) && (
+              {(resource.fileSize || resource.fileMimeType) && (
                 <div className="rounded-xl border border-white/10 bg-white/5 p-6 backdrop-blur">
                   <h2 className="text-lg font-semibold text-white mb-4">File Information</h2>
                   <div className="flex items-center gap-4">
@@ -435,16 +457,21 @@ export default function ResourceDetail() {
                       <FileText className="h-6 w-6 text-slate-400" />
                     </div>
                     <div>
-                      {resource.fileSize && (
-                        <p className="text-white font-medium">{resource.fileSize}</p>
-                      )}
-                      {resource.mimeType && (
-                        <p className="text-sm text-slate-400">{resource.mimeType}</p>
+                      {resource.fileName && (
+                        <p className="text-white font-medium">{resource.fileName}</p>
                       )}
+                      <p className="text-sm text-slate-400">
+                        {[resource.fileMimeType, resource.fileSize ? formatBytes(resource.fileSize) : null]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
                     </div>
                   </div>
                 </div>
               )}
+
+              {/* Discussion Section */}
+              <CommentThread resourceId={resource.id} />
             </div>
           )}
         </div>
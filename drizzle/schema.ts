@@ -5,13 +5,27 @@ import {
   timestamp,
   varchar,
   integer,
+  bigserial,
+  doublePrecision,
   boolean,
   json,
   index,
   uniqueIndex,
+  customType,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
+// ============================================================================
+// CUSTOM TYPES
+// ============================================================================
+
+// Postgres full-text search document (see server/search.ts)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
 // ============================================================================
 // ENUMS
 // ============================================================================
@@ -87,8 +101,49 @@ export const subjectEnum = pgEnum("subject", [
   "other",
 ]);
 
+export const resourceVersionStatusEnum = pgEnum("resource_version_status", [
+  "applied", // content is (or was) live on the resource
+  "pending", // waiting for moderator review; the live content is unchanged
+  "rejected",
+  "superseded", // replaced by a newer pending edit before review
+]);
+
+export const uploadStatusEnum = pgEnum("upload_status", [
+  "uploading", // receiving chunks
+  "processing", // claimed by upload.complete, being validated and stored
+  "complete", // validated and stored
+  "attached", // linked to a resource
+  "failed",
+]);
+
+export const resourceImportFormatEnum = pgEnum("resource_import_format", [
+  "common_cartridge", // IMS Common Cartridge package
+  "zip_csv", // ZIP of files with a CSV manifest
+  "csv_links", // CSV of external links
+]);
+
+export const resourceImportStatusEnum = pgEnum("resource_import_status", [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+]);
+
 export const visibilityEnum = pgEnum("visibility", ["public", "private", "unlisted"]);
 
+export const collectionRoleEnum = pgEnum("collection_role", ["viewer", "editor", "owner"]);
+
+export const collectionExportFormatEnum = pgEnum("collection_export_format", ["common_cartridge", "zip"]);
+
+export const collectionExportStatusEnum = pgEnum("collection_export_status", [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+]);
+
+export const trendingPeriodEnum = pgEnum("trending_period", ["day", "week", "month"]);
+
 export const proposalStatusEnum = pgEnum("proposal_status", [
   "draft",
   "active",
@@ -99,6 +154,36 @@ export const proposalStatusEnum = pgEnum("proposal_status", [
 
 export const proposalChoiceEnum = pgEnum("proposal_choice", ["for", "against", "abstain"]);
 
+export const proposalThresholdEnum = pgEnum("proposal_threshold", ["simple_majority", "two_thirds"]);
+
+export const proposalTallyModeEnum = pgEnum("proposal_tally_mode", [
+  "one_person_one_vote",
+  "linear_rc",
+  "quadratic_rc",
+  "capped_rc",
+]);
+
+export const proposalEventTypeEnum = pgEnum("proposal_event_type", [
+  "created",
+  "activated",
+  "closed",
+  "settled",
+  "withdrawn",
+]);
+
+export const scheduledJobTypeEnum = pgEnum("scheduled_job_type", [
+  "proposal_activate",
+  "proposal_close",
+  "proposal_settle",
+]);
+
+export const scheduledJobStatusEnum = pgEnum("scheduled_job_status", [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+]);
+
 export const rcReasonEnum = pgEnum("rc_reason", [
   "resource_submitted",
   "resource_approved",
@@ -116,6 +201,7 @@ export const rcReasonEnum = pgEnum("rc_reason", [
   "daily_login",
   "referral_bonus",
   "manual_adjustment",
+  "vote_reversed",
 ]);
 
 export const flagStatusEnum = pgEnum("flag_status", [
@@ -136,6 +222,9 @@ export const flagReasonEnum = pgEnum("flag_reason", [
   "other",
 ]);
 
+export const gamingCaseStatusEnum = pgEnum("gaming_case_status", ["open", "confirmed", "dismissed"]);
+
+
 export const contributorLevelEnum = pgEnum("contributor_level", [
   "newcomer",
   "contributor",
@@ -231,9 +320,16 @@ export const resources = pgTable(
     fileUrl: text("file_url"),
     fileName: text("file_name"),
     fileSize: integer("file_size"), // in bytes
+    fileKey: text("file_key"), // storage key for uploaded files
+    fileMimeType: varchar("file_mime_type", { length: 128 }), // sniffed from the content
+    fileSha256: varchar("file_sha256", { length: 64 }),
     thumbnailUrl: text("thumbnail_url"),
     externalUrl: text("external_url"), // for link-type resources
 
+    // Automatic thumbnail generation (see server/thumbnails.ts)
+    thumbnailAttempts: integer("thumbnail_attempts").default(0).notNull(),
+    thumbnailAttemptedAt: timestamp("thumbnail_attempted_at"),
+
     // Authorship
     contributorId: varchar("contributor_id", { length: 64 })
       .notNull()
@@ -251,12 +347,21 @@ export const resources = pgTable(
     upvoteCount: integer("upvote_count").default(0).notNull(),
     downvoteCount: integer("downvote_count").default(0).notNull(),
     netVotes: integer("net_votes").default(0).notNull(), // upvotes - downvotes
+    ratingScore: doublePrecision("rating_score").default(0).notNull(), // Wilson lower bound of the upvote share (server/ranking.ts)
     commentCount: integer("comment_count").default(0).notNull(),
+    reviewCount: integer("review_count").default(0).notNull(),
+    ratingTotal: integer("rating_total").default(0).notNull(), // sum of review ratings; average = total / count
 
     // Flags
     isFeatured: boolean("is_featured").default(false).notNull(),
     isEditorPick: boolean("is_editor_pick").default(false).notNull(),
 
+    // Full-text search (maintained by server/search.ts)
+    searchVector: tsvector("search_vector"),
+
+    // Versioning: edit awaiting moderation while the current content stays live
+    pendingVersionId: varchar("pending_version_id", { length: 64 }),
+
     // Timestamps
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -269,15 +374,179 @@ export const resources = pgTable(
     index("resources_grade_level_idx").on(table.gradeLevel),
     index("resources_contributor_idx").on(table.contributorId),
     index("resources_net_votes_idx").on(table.netVotes),
+    index("resources_rating_score_idx").on(table.ratingScore),
     index("resources_view_count_idx").on(table.viewCount),
     index("resources_created_at_idx").on(table.createdAt),
     index("resources_published_at_idx").on(table.publishedAt),
+    index("resources_search_idx").using("gin", table.searchVector),
   ]
 );
 
 export type Resource = typeof resources.$inferSelect;
 export type InsertResource = typeof resources.$inferInsert;
 
+// ============================================================================
+// RESOURCE VERSIONS
+// ============================================================================
+
+// Editable content captured with every version (see server/versioning.ts)
+export type ResourceSnapshot = {
+  title: string;
+  description: string | null;
+  summary: string | null;
+  category: Resource["category"];
+  resourceType: Resource["resourceType"];
+  subject: Resource["subject"];
+  gradeLevel: Resource["gradeLevel"];
+  tags: string[];
+  standards: string[];
+  fileUrl: string | null;
+  fileName: string | null;
+  fileSize: number | null;
+  // Absent from snapshots taken before direct uploads existed
+  fileKey?: string | null;
+  fileMimeType?: string | null;
+  fileSha256?: string | null;
+  thumbnailUrl: string | null;
+  externalUrl: string | null;
+};
+
+export const resourceVersions = pgTable(
+  "resource_versions",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    resourceId: varchar("resource_id", { length: 64 })
+      .notNull()
+      .references(() => resources.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(), // 1 = initial submission
+    snapshot: json("snapshot").$type<ResourceSnapshot>().notNull(),
+    editorId: varchar("editor_id", { length: 64 })
+      .notNull()
+      .references(() => users.id),
+    changeNote: text("change_note"),
+    restoredFromId: varchar("restored_from_id", { length: 64 }),
+    status: resourceVersionStatusEnum("status").notNull(),
+    reviewedBy: varchar("reviewed_by", { length: 64 }).references(() => users.id),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewNotes: text("review_notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("resource_versions_number_idx").on(table.resourceId, table.version),
+    index("resource_versions_status_idx").on(table.status),
+  ]
+);
+
+export type ResourceVersion = typeof resourceVersions.$inferSelect;
+export type InsertResourceVersion = typeof resourceVersions.$inferInsert;
+
+// ============================================================================
+// UPLOADS
+// ============================================================================
+
+// What the resource detail page can show without downloading the file
+export type FilePreview = {
+  // Rendered pages for PDFs and office documents
+  pages?: { url: string; thumbnailUrl: string }[];
+  pageCount?: number;
+  // Still frame for videos, scaled-down copy for images
+  posterUrl?: string;
+  // Contents of ZIP archives
+  entries?: { path: string; size: number; isDirectory: boolean }[];
+  entryCount?: number;
+};
+
+export const uploads = pgTable(
+  "uploads",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    fileName: text("file_name").notNull(),
+    resourceType: resourceTypeEnum("resource_type").notNull(), // what the file must be
+    declaredSize: integer("declared_size").notNull(), // in bytes
+    receivedBytes: integer("received_bytes").default(0).notNull(),
+    nextChunk: integer("next_chunk").default(0).notNull(),
+    status: uploadStatusEnum("status").default("uploading").notNull(),
+
+    // Set once the upload is complete
+    storageKey: text("storage_key"),
+    url: text("url"),
+    mimeType: varchar("mime_type", { length: 128 }),
+    sha256: varchar("sha256", { length: 64 }),
+    resourceId: varchar("resource_id", { length: 64 }).references(() => resources.id, { onDelete: "set null" }),
+    error: text("error"),
+
+    // Preview artifacts generated on completion (see server/previews.ts)
+    preview: json("preview").$type<FilePreview>(),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    index("uploads_user_idx").on(table.userId),
+    index("uploads_status_idx").on(table.status),
+    index("uploads_sha256_idx").on(table.sha256),
+    index("uploads_storage_key_idx").on(table.storageKey),
+  ]
+);
+
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = typeof uploads.$inferInsert;
+
+// ============================================================================
+// RESOURCE IMPORTS
+// ============================================================================
+
+// Outcome of one row (CSV line or cartridge item) of a bulk import
+export type ResourceImportRow = {
+  row: number; // 1-based; CSV rows count from the first line after the header
+  title: string | null;
+  source: string | null; // file path in the package or link URL
+  resourceId: string | null; // the draft created, when the row was valid
+  errors: string[];
+};
+
+// Bulk imports of resources as drafts, processed by server/resourceImport.ts
+export const resourceImports = pgTable(
+  "resource_imports",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    format: resourceImportFormatEnum("format").notNull(),
+    status: resourceImportStatusEnum("status").default("pending").notNull(),
+
+    // Source: a completed upload, or CSV text pasted directly
+    uploadId: varchar("upload_id", { length: 64 }).references(() => uploads.id, { onDelete: "set null" }),
+    csv: text("csv"),
+    // Field values for rows that leave them blank (e.g. subject for a whole cartridge)
+    defaults: json("defaults").$type<Record<string, string>>().default({}).notNull(),
+
+    // Result
+    totalRows: integer("total_rows").default(0).notNull(),
+    createdCount: integer("created_count").default(0).notNull(),
+    errorCount: integer("error_count").default(0).notNull(),
+    report: json("report").$type<ResourceImportRow[]>().default([]).notNull(),
+    reportKey: text("report_key"), // CSV copy of the report in storage
+    error: text("error"), // why the whole import failed
+
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("resource_imports_user_idx").on(table.userId, table.createdAt),
+    index("resource_imports_status_idx").on(table.status, table.createdAt),
+  ]
+);
+
+export type ResourceImport = typeof resourceImports.$inferSelect;
+export type InsertResourceImport = typeof resourceImports.$inferInsert;
+
 // ============================================================================
 // RESOURCE VOTES
 // ============================================================================
@@ -293,6 +562,7 @@ export const resourceVotes = pgTable(
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
     value: integer("value").notNull(), // +1 or -1
+    ipHash: varchar("ip_hash", { length: 64 }), // hashed IP of the voter, for anti-gaming checks
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -300,12 +570,48 @@ export const resourceVotes = pgTable(
     uniqueIndex("resource_votes_unique_idx").on(table.resourceId, table.userId),
     index("resource_votes_resource_idx").on(table.resourceId),
     index("resource_votes_user_idx").on(table.userId),
+    index("resource_votes_created_at_idx").on(table.createdAt),
   ]
 );
 
 export type ResourceVote = typeof resourceVotes.$inferSelect;
 export type InsertResourceVote = typeof resourceVotes.$inferInsert;
 
+// ============================================================================
+// RESOURCE REVIEWS
+// ============================================================================
+
+// Star ratings with optional criterion scores (all 1-5). Separate from votes: no RC effect.
+export const resourceReviews = pgTable(
+  "resource_reviews",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    resourceId: varchar("resource_id", { length: 64 })
+      .notNull()
+      .references(() => resources.id, { onDelete: "cascade" }),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    rating: integer("rating").notNull(),
+    alignmentScore: integer("alignment_score"), // fit with the stated standards and grade level
+    clarityScore: integer("clarity_score"),
+    classroomReadinessScore: integer("classroom_readiness_score"), // usable without rework
+    notes: text("notes"),
+    usedInClass: boolean("used_in_class").default(false).notNull(),
+    editedAt: timestamp("edited_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("resource_reviews_unique_idx").on(table.resourceId, table.userId),
+    index("resource_reviews_resource_idx").on(table.resourceId),
+    index("resource_reviews_user_idx").on(table.userId),
+  ]
+);
+
+export type ResourceReview = typeof resourceReviews.$inferSelect;
+export type InsertResourceReview = typeof resourceReviews.$inferInsert;
+
 // ============================================================================
 // RESOURCE COMMENTS
 // ============================================================================
@@ -321,8 +627,17 @@ export const resourceComments = pgTable(
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
     parentId: varchar("parent_id", { length: 64 }), // for threaded comments
-    content: text("content").notNull(),
+    depth: integer("depth").default(0).notNull(), // 0 for top-level comments
+    content: text("content").notNull(), // markdown source
+    contentHtml: text("content_html"), // sanitized render of content (see server/markdown.ts)
     isEdited: boolean("is_edited").default(false).notNull(),
+    editedAt: timestamp("edited_at"),
+
+    // Soft delete: the row stays so replies keep their place in the thread
+    deletedAt: timestamp("deleted_at"),
+    deletedBy: varchar("deleted_by", { length: 64 }).references(() => users.id),
+    deletionReason: text("deletion_reason"), // set when a moderator removes the comment
+
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -336,6 +651,48 @@ export const resourceComments = pgTable(
 export type ResourceComment = typeof resourceComments.$inferSelect;
 export type InsertResourceComment = typeof resourceComments.$inferInsert;
 
+// Previous content of a comment, one row per edit
+export const resourceCommentEdits = pgTable(
+  "resource_comment_edits",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    commentId: varchar("comment_id", { length: 64 })
+      .notNull()
+      .references(() => resourceComments.id, { onDelete: "cascade" }),
+    previousContent: text("previous_content").notNull(),
+    editedBy: varchar("edited_by", { length: 64 })
+      .notNull()
+      .references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("resource_comment_edits_comment_idx").on(table.commentId)]
+);
+
+export type ResourceCommentEdit = typeof resourceCommentEdits.$inferSelect;
+export type InsertResourceCommentEdit = typeof resourceCommentEdits.$inferInsert;
+
+// Users @mentioned in a comment's current content
+export const commentMentions = pgTable(
+  "comment_mentions",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    commentId: varchar("comment_id", { length: 64 })
+      .notNull()
+      .references(() => resourceComments.id, { onDelete: "cascade" }),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("comment_mentions_comment_user_idx").on(table.commentId, table.userId),
+    index("comment_mentions_user_idx").on(table.userId),
+  ]
+);
+
+export type CommentMention = typeof commentMentions.$inferSelect;
+export type InsertCommentMention = typeof commentMentions.$inferInsert;
+
 // ============================================================================
 // COLLECTIONS
 // ============================================================================
@@ -369,6 +726,30 @@ export const collections = pgTable(
 export type Collection = typeof collections.$inferSelect;
 export type InsertCollection = typeof collections.$inferInsert;
 
+// ============================================================================
+// COLLECTION SECTIONS
+// ============================================================================
+
+// Named, ordered groups of items within a collection (e.g. "Week 1", "Assessment")
+export const collectionSections = pgTable(
+  "collection_sections",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    collectionId: varchar("collection_id", { length: 64 })
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    title: text("title").notNull(),
+    description: text("description"),
+    orderIndex: integer("order_index").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("collection_sections_collection_idx").on(table.collectionId, table.orderIndex)]
+);
+
+export type CollectionSection = typeof collectionSections.$inferSelect;
+export type InsertCollectionSection = typeof collectionSections.$inferInsert;
+
 // ============================================================================
 // COLLECTION RESOURCES (JOIN TABLE)
 // ============================================================================
@@ -383,7 +764,14 @@ export const collectionResources = pgTable(
     resourceId: varchar("resource_id", { length: 64 })
       .notNull()
       .references(() => resources.id, { onDelete: "cascade" }),
+    // Items without a section come before the first section; orderIndex is within the section
+    sectionId: varchar("section_id", { length: 64 }).references(() => collectionSections.id, {
+      onDelete: "set null",
+    }),
     orderIndex: integer("order_index").default(0).notNull(),
+    note: text("note"), // e.g. how to use the resource in this unit
+    durationMinutes: integer("duration_minutes"), // estimated class time
+    addedBy: varchar("added_by", { length: 64 }).references(() => users.id, { onDelete: "set null" }),
     addedAt: timestamp("added_at").defaultNow().notNull(),
   },
   (table) => [
@@ -396,10 +784,121 @@ export const collectionResources = pgTable(
 export type CollectionResource = typeof collectionResources.$inferSelect;
 export type InsertCollectionResource = typeof collectionResources.$inferInsert;
 
+// ============================================================================
+// COLLECTION COLLABORATORS
+// ============================================================================
+
+/**
+ * People the owner has shared a collection with. `collections.ownerId` stays
+ * the collection's creator; a row here grants another user a role, and takes
+ * effect once the invitee accepts (`acceptedAt` set).
+ */
+export const collectionCollaborators = pgTable(
+  "collection_collaborators",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    collectionId: varchar("collection_id", { length: 64 })
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    userId: varchar("user_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: collectionRoleEnum("role").default("editor").notNull(),
+    invitedBy: varchar("invited_by", { length: 64 }).references(() => users.id, { onDelete: "set null" }),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("collection_collaborators_unique_idx").on(table.collectionId, table.userId),
+    index("collection_collaborators_user_idx").on(table.userId),
+  ]
+);
+
+export type CollectionCollaborator = typeof collectionCollaborators.$inferSelect;
+export type InsertCollectionCollaborator = typeof collectionCollaborators.$inferInsert;
+
+// ============================================================================
+// COLLECTION EXPORTS
+// ============================================================================
+
+// Packages built from a collection by the export job (server/collectionExport.ts)
+export const collectionExports = pgTable(
+  "collection_exports",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    collectionId: varchar("collection_id", { length: 64 })
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    requestedBy: varchar("requested_by", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    format: collectionExportFormatEnum("format").notNull(),
+    status: collectionExportStatusEnum("status").default("pending").notNull(),
+    siteUrl: text("site_url").notNull(), // links back to resources are built from this
+
+    // Result
+    storageKey: text("storage_key"),
+    fileName: text("file_name"),
+    fileSize: integer("file_size"),
+    resourceCount: integer("resource_count"),
+    filesIncluded: integer("files_included"),
+    filesLinked: integer("files_linked"), // files over the size limits, exported as links instead
+    error: text("error"),
+
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("collection_exports_collection_idx").on(table.collectionId, table.requestedBy),
+    index("collection_exports_status_idx").on(table.status, table.createdAt),
+  ]
+);
+
+export type CollectionExport = typeof collectionExports.$inferSelect;
+export type InsertCollectionExport = typeof collectionExports.$inferInsert;
+
 // ============================================================================
 // PROPOSALS (GOVERNANCE)
 // ============================================================================
 
+type ChoiceTotals = { for: number; against: number; abstain: number };
+
+/**
+ * Outcome of a proposal, computed by server/proposalResults.ts and stored when
+ * voting closes. Shares are fractions (0.25 = 25%); margins are the measured
+ * value minus the required one, so a negative margin means the rule was missed.
+ */
+export type ProposalResults = {
+  tallyMode: (typeof proposalTallyModeEnum.enumValues)[number];
+  votes: ChoiceTotals; // voters per choice
+  rc: ChoiceTotals; // RC weight per choice
+  tally: ChoiceTotals; // counted weight per choice under tallyMode
+  delegatedVotes: number; // votes cast through a delegation
+  quorum: {
+    met: boolean;
+    abstainCounts: boolean;
+    eligibleRc: number;
+    participatingRc: number;
+    rcShare: number;
+    requiredRcShare: number;
+    rcMargin: number;
+    voters: number;
+    requiredVoters: number;
+    voterMargin: number;
+  };
+  threshold: {
+    rule: (typeof proposalThresholdEnum.enumValues)[number];
+    met: boolean;
+    support: number; // tallied for / (for + against)
+    requiredSupport: number;
+    margin: number;
+  };
+  passed: boolean;
+};
+
 export const proposals = pgTable(
   "proposals",
   {
@@ -421,11 +920,21 @@ export const proposals = pgTable(
     minRcToVote: integer("min_rc_to_vote").default(10).notNull(),
     snapshotRc: integer("snapshot_rc").notNull(), // Author's RC when created
 
+    // Pass rules
+    quorumRcPercent: integer("quorum_rc_percent").default(10).notNull(), // share of eligible RC that must vote
+    quorumMinVoters: integer("quorum_min_voters").default(5).notNull(),
+    abstainCountsTowardQuorum: boolean("abstain_counts_toward_quorum").default(true).notNull(),
+    passThreshold: proposalThresholdEnum("pass_threshold").default("simple_majority").notNull(),
+    tallyMode: proposalTallyModeEnum("tally_mode").default("one_person_one_vote").notNull(),
+    tallyCapRc: integer("tally_cap_rc"), // most RC one vote can count for, in capped_rc mode
+    eligibleRc: integer("eligible_rc"), // RC of all users allowed to vote, when voting opened
+
     // Voting results
     votesFor: integer("votes_for").default(0).notNull(),
     votesAgainst: integer("votes_against").default(0).notNull(),
     votesAbstain: integer("votes_abstain").default(0).notNull(),
     totalRcWeight: integer("total_rc_weight").default(0).notNull(), // Total RC weight of all votes
+    results: json("results").$type<ProposalResults>(), // set when voting closes
 
     // Tags
     tags: json("tags").$type<string[]>().default([]),
@@ -433,9 +942,11 @@ export const proposals = pgTable(
     // Timestamps
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    votingStartsAt: timestamp("voting_starts_at"), // drafts are activated at this time
     activatedAt: timestamp("activated_at"),
     closedAt: timestamp("closed_at"),
     votingEndsAt: timestamp("voting_ends_at"),
+    settledAt: timestamp("settled_at"), // RC rewards for the outcome paid
   },
   (table) => [
     index("proposals_status_idx").on(table.status),
@@ -464,7 +975,13 @@ export const proposalVotes = pgTable(
       .references(() => users.id, { onDelete: "cascade" }),
     choice: proposalChoiceEnum("choice").notNull(),
     weightRc: integer("weight_rc").notNull(), // RC weight at vote time
+    // Delegated votes, added when voting closes: the delegate whose direct vote was
+    // followed, and the chain of users from the voter to them
+    castById: varchar("cast_by_id", { length: 64 }).references(() => users.id, { onDelete: "set null" }),
+    delegationPath: json("delegation_path").$type<string[]>(),
+    receiptHash: varchar("receipt_hash", { length: 64 }), // of the current choice, see server/voteReceipts.ts
     createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(), // when the current choice was cast
   },
   (table) => [
     uniqueIndex("proposal_votes_unique_idx").on(table.proposalId, table.voterId),
@@ -476,6 +993,135 @@ export const proposalVotes = pgTable(
 export type ProposalVote = typeof proposalVotes.$inferSelect;
 export type InsertProposalVote = typeof proposalVotes.$inferInsert;
 
+// Every choice cast on a proposal, including the ones later changed, with its receipt
+export const proposalVoteHistory = pgTable(
+  "proposal_vote_history",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    voteId: varchar("vote_id", { length: 64 })
+      .notNull()
+      .references(() => proposalVotes.id, { onDelete: "cascade" }),
+    proposalId: varchar("proposal_id", { length: 64 })
+      .notNull()
+      .references(() => proposals.id, { onDelete: "cascade" }),
+    voterId: varchar("voter_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    choice: proposalChoiceEnum("choice").notNull(),
+    weightRc: integer("weight_rc").notNull(),
+    previousChoice: proposalChoiceEnum("previous_choice"), // null for the first vote
+    previousWeightRc: integer("previous_weight_rc"),
+    castById: varchar("cast_by_id", { length: 64 }), // delegated votes
+    receiptHash: varchar("receipt_hash", { length: 64 }).notNull(),
+    castAt: timestamp("cast_at").notNull(),
+  },
+  (table) => [
+    uniqueIndex("proposal_vote_history_receipt_idx").on(table.receiptHash),
+    index("proposal_vote_history_vote_idx").on(table.voteId, table.castAt),
+    index("proposal_vote_history_voter_idx").on(table.voterId, table.proposalId),
+  ]
+);
+
+export type ProposalVoteHistory = typeof proposalVoteHistory.$inferSelect;
+export type InsertProposalVoteHistory = typeof proposalVoteHistory.$inferInsert;
+
+// ============================================================================
+// VOTE DELEGATIONS (LIQUID DEMOCRACY)
+// ============================================================================
+
+// A user's standing instruction to vote like another user, on every proposal or on one tag
+export const voteDelegations = pgTable(
+  "vote_delegations",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    delegatorId: varchar("delegator_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    delegateId: varchar("delegate_id", { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tag: varchar("tag", { length: 64 }).default("").notNull(), // lowercased; "" = all proposals
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("vote_delegations_unique_idx").on(table.delegatorId, table.tag),
+    index("vote_delegations_delegate_idx").on(table.delegateId),
+  ]
+);
+
+export type VoteDelegation = typeof voteDelegations.$inferSelect;
+export type InsertVoteDelegation = typeof voteDelegations.$inferInsert;
+
+// ============================================================================
+// PROPOSAL EVENTS (LIFECYCLE AUDIT LOG)
+// ============================================================================
+
+// One row per state transition of a proposal, written in the same transaction
+export const proposalEvents = pgTable(
+  "proposal_events",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    proposalId: varchar("proposal_id", { length: 64 })
+      .notNull()
+      .references(() => proposals.id, { onDelete: "cascade" }),
+    type: proposalEventTypeEnum("type").notNull(),
+    fromStatus: proposalStatusEnum("from_status"), // null when created
+    toStatus: proposalStatusEnum("to_status").notNull(),
+    actorId: varchar("actor_id", { length: 64 }).references(() => users.id), // null = the scheduler
+    jobId: varchar("job_id", { length: 64 }), // scheduled job that made the transition
+    data: json("data").$type<Record<string, unknown>>().default({}).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("proposal_events_proposal_idx").on(table.proposalId, table.createdAt),
+    index("proposal_events_created_at_idx").on(table.createdAt),
+  ]
+);
+
+export type ProposalEvent = typeof proposalEvents.$inferSelect;
+export type InsertProposalEvent = typeof proposalEvents.$inferInsert;
+
+// ============================================================================
+// SCHEDULED JOBS
+// ============================================================================
+
+// Durable work for the in-process scheduler (server/proposalLifecycle.ts), one row per job and target
+export const scheduledJobs = pgTable(
+  "scheduled_jobs",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    type: scheduledJobTypeEnum("type").notNull(),
+    referenceId: varchar("reference_id", { length: 64 }).notNull(), // e.g. the proposal
+    runAt: timestamp("run_at").notNull(),
+    status: scheduledJobStatusEnum("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    lastError: text("last_error"),
+    lockedBy: varchar("locked_by", { length: 128 }), // worker running it
+    lockedAt: timestamp("locked_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("scheduled_jobs_unique_idx").on(table.type, table.referenceId),
+    index("scheduled_jobs_due_idx").on(table.status, table.runAt),
+  ]
+);
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = typeof scheduledJobs.$inferInsert;
+
+// Leases that elect a single server process to run a job (e.g. the scheduler)
+export const schedulerLocks = pgTable("scheduler_locks", {
+  name: varchar("name", { length: 64 }).primaryKey(),
+  holderId: varchar("holder_id", { length: 128 }).notNull(),
+  acquiredAt: timestamp("acquired_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export type SchedulerLock = typeof schedulerLocks.$inferSelect;
+
 // ============================================================================
 // RC TRANSACTIONS (REPUTATION CREDITS LEDGER)
 // ============================================================================
@@ -500,13 +1146,18 @@ export const rcTransactions = pgTable(
     // Running balance after this transaction
     balanceAfter: integer("balance_after").notNull(),
 
+    // Insertion order; createdAt is the transaction start, shared by every posting in it
+    seq: bigserial("seq", { mode: "number" }).notNull(),
+
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
   (table) => [
-    index("rc_transactions_user_idx").on(table.userId),
+    index("rc_transactions_user_idx").on(table.userId, table.seq),
     index("rc_transactions_reason_idx").on(table.reason),
     index("rc_transactions_created_at_idx").on(table.createdAt),
     index("rc_transactions_reference_idx").on(table.referenceType, table.referenceId),
+    // Idempotency key for ledger postings (NULL references are never deduplicated)
+    uniqueIndex("rc_transactions_posting_key_idx").on(table.reason, table.referenceType, table.referenceId),
   ]
 );
 
@@ -554,6 +1205,87 @@ export const moderationFlags = pgTable(
 export type ModerationFlag = typeof moderationFlags.$inferSelect;
 export type InsertModerationFlag = typeof moderationFlags.$inferInsert;
 
+// ============================================================================
+// GAMING CASES (ANTI-GAMING DETECTION)
+// ============================================================================
+
+export type GamingSignal = "reciprocal_voting" | "new_account_burst" | "shared_ip";
+
+/**
+ * Evidence gathered by server/antiGaming.ts for a suspected user, keyed by signal.
+ * User ids refer to the voters involved; IP hashes are shortened for display.
+ */
+export type GamingEvidence = {
+  reciprocal_voting?: {
+    cluster: string[]; // users connected to the suspect by mutual upvoting
+    partners: { userId: string; votesGiven: number; votesReceived: number }[];
+  };
+  new_account_burst?: {
+    voters: { userId: string; accountCreatedAt: string; votedAt: string }[];
+  };
+  shared_ip?: {
+    groups: { ipHash: string; voterIds: string[]; includesSuspect: boolean }[];
+  };
+};
+
+// A suspected vote-farming user awaiting moderator review
+export const gamingCases = pgTable(
+  "gaming_cases",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    userId: varchar("user_id", { length: 64 }) // the contributor who received the votes
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    status: gamingCaseStatusEnum("status").default("open").notNull(),
+    signals: json("signals").$type<GamingSignal[]>().default([]).notNull(),
+    evidence: json("evidence").$type<GamingEvidence>().default({}).notNull(),
+    flaggedVoteCount: integer("flagged_vote_count").default(0).notNull(),
+    detectedAt: timestamp("detected_at").defaultNow().notNull(), // last detection run that added votes
+
+    // Review
+    reviewedBy: varchar("reviewed_by", { length: 64 }).references(() => users.id),
+    reviewedAt: timestamp("reviewed_at"),
+    resolutionNotes: text("resolution_notes"),
+    rcReversed: integer("rc_reversed").default(0).notNull(),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("gaming_cases_user_idx").on(table.userId),
+    index("gaming_cases_status_idx").on(table.status),
+    index("gaming_cases_detected_at_idx").on(table.detectedAt),
+  ]
+);
+
+export type GamingCase = typeof gamingCases.$inferSelect;
+export type InsertGamingCase = typeof gamingCases.$inferInsert;
+
+// Votes a case is about. No foreign key: vote rows are replaced when a vote changes,
+// while the ledger keeps referencing the original id.
+export const gamingCaseVotes = pgTable(
+  "gaming_case_votes",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    caseId: varchar("case_id", { length: 64 })
+      .notNull()
+      .references(() => gamingCases.id, { onDelete: "cascade" }),
+    voteId: varchar("vote_id", { length: 64 }).notNull(),
+    voterId: varchar("voter_id", { length: 64 }).notNull(),
+    resourceId: varchar("resource_id", { length: 64 }).notNull(),
+    signals: json("signals").$type<GamingSignal[]>().default([]).notNull(),
+    votedAt: timestamp("voted_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("gaming_case_votes_unique_idx").on(table.caseId, table.voteId),
+    index("gaming_case_votes_vote_idx").on(table.voteId),
+  ]
+);
+
+export type GamingCaseVote = typeof gamingCaseVotes.$inferSelect;
+export type InsertGamingCaseVote = typeof gamingCaseVotes.$inferInsert;
+
 // ============================================================================
 // RESOURCE DOWNLOADS (TRACKING)
 // ============================================================================
@@ -572,6 +1304,7 @@ export const resourceDownloads = pgTable(
   (table) => [
     index("resource_downloads_resource_idx").on(table.resourceId),
     index("resource_downloads_user_idx").on(table.userId),
+    index("resource_downloads_created_at_idx").on(table.createdAt),
   ]
 );
 
@@ -596,12 +1329,60 @@ export const resourceViews = pgTable(
   (table) => [
     index("resource_views_resource_idx").on(table.resourceId),
     index("resource_views_user_idx").on(table.userId),
+    index("resource_views_created_at_idx").on(table.createdAt),
   ]
 );
 
 export type ResourceView = typeof resourceViews.$inferSelect;
 export type InsertResourceView = typeof resourceViews.$inferInsert;
 
+// ============================================================================
+// RATE LIMITS
+// ============================================================================
+
+// Fixed-window request counters per client, shared by every server instance (server/tracking.ts)
+export const rateLimits = pgTable(
+  "rate_limits",
+  {
+    key: varchar("key", { length: 160 }).primaryKey(), // "<kind>:u:<userId>" or "<kind>:ip:<ipHash>"
+    count: integer("count").notNull(),
+    resetAt: timestamp("reset_at").notNull(),
+  },
+  (table) => [index("rate_limits_reset_at_idx").on(table.resetAt)]
+);
+
+export type RateLimit = typeof rateLimits.$inferSelect;
+
+// ============================================================================
+// RESOURCE TRENDING SCORES
+// ============================================================================
+
+// Time-decayed activity per resource and period, rebuilt by the job in server/trending.ts
+export const resourceTrendingScores = pgTable(
+  "resource_trending_scores",
+  {
+    id: varchar("id", { length: 64 }).primaryKey(),
+    resourceId: varchar("resource_id", { length: 64 })
+      .notNull()
+      .references(() => resources.id, { onDelete: "cascade" }),
+    period: trendingPeriodEnum("period").notNull(),
+    score: doublePrecision("score").notNull(),
+    // Raw activity within the period's window, for display
+    uniqueViewers: integer("unique_viewers").default(0).notNull(),
+    downloads: integer("downloads").default(0).notNull(),
+    netVotes: integer("net_votes").default(0).notNull(),
+    collectionAdds: integer("collection_adds").default(0).notNull(),
+    computedAt: timestamp("computed_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("resource_trending_scores_unique_idx").on(table.resourceId, table.period),
+    index("resource_trending_scores_period_score_idx").on(table.period, table.score),
+  ]
+);
+
+export type ResourceTrendingScore = typeof resourceTrendingScores.$inferSelect;
+export type InsertResourceTrendingScore = typeof resourceTrendingScores.$inferInsert;
+
 // ============================================================================
 // COLLECTION FOLLOWERS
 // ============================================================================
@@ -635,6 +1416,7 @@ export type InsertCollectionFollower = typeof collectionFollowers.$inferInsert;
 export const usersRelations = relations(users, ({ many }) => ({
   resources: many(resources),
   resourceVotes: many(resourceVotes),
+  resourceReviews: many(resourceReviews),
   resourceComments: many(resourceComments),
   collections: many(collections),
   proposals: many(proposals),
@@ -653,10 +1435,45 @@ export const resourcesRelations = relations(resources, ({ one, many }) => ({
     references: [users.id],
   }),
   votes: many(resourceVotes),
+  reviews: many(resourceReviews),
   comments: many(resourceComments),
   collectionResources: many(collectionResources),
   downloads: many(resourceDownloads),
   views: many(resourceViews),
+  versions: many(resourceVersions),
+}));
+
+export const uploadsRelations = relations(uploads, ({ one }) => ({
+  user: one(users, {
+    fields: [uploads.userId],
+    references: [users.id],
+  }),
+  resource: one(resources, {
+    fields: [uploads.resourceId],
+    references: [resources.id],
+  }),
+}));
+
+export const resourceImportsRelations = relations(resourceImports, ({ one }) => ({
+  user: one(users, {
+    fields: [resourceImports.userId],
+    references: [users.id],
+  }),
+  upload: one(uploads, {
+    fields: [resourceImports.uploadId],
+    references: [uploads.id],
+  }),
+}));
+
+export const resourceVersionsRelations = relations(resourceVersions, ({ one }) => ({
+  resource: one(resources, {
+    fields: [resourceVersions.resourceId],
+    references: [resources.id],
+  }),
+  editor: one(users, {
+    fields: [resourceVersions.editorId],
+    references: [users.id],
+  }),
 }));
 
 export const resourceVotesRelations = relations(resourceVotes, ({ one }) => ({
@@ -670,6 +1487,17 @@ export const resourceVotesRelations = relations(resourceVotes, ({ one }) => ({
   }),
 }));
 
+export const resourceReviewsRelations = relations(resourceReviews, ({ one }) => ({
+  resource: one(resources, {
+    fields: [resourceReviews.resourceId],
+    references: [resources.id],
+  }),
+  user: one(users, {
+    fields: [resourceReviews.userId],
+    references: [users.id],
+  }),
+}));
+
 export const resourceCommentsRelations = relations(resourceComments, ({ one, many }) => ({
   resource: one(resources, {
     fields: [resourceComments.resourceId],
@@ -684,6 +1512,30 @@ export const resourceCommentsRelations = relations(resourceComments, ({ one, man
     references: [resourceComments.id],
   }),
   replies: many(resourceComments),
+  edits: many(resourceCommentEdits),
+  mentions: many(commentMentions),
+}));
+
+export const resourceCommentEditsRelations = relations(resourceCommentEdits, ({ one }) => ({
+  comment: one(resourceComments, {
+    fields: [resourceCommentEdits.commentId],
+    references: [resourceComments.id],
+  }),
+  editor: one(users, {
+    fields: [resourceCommentEdits.editedBy],
+    references: [users.id],
+  }),
+}));
+
+export const commentMentionsRelations = relations(commentMentions, ({ one }) => ({
+  comment: one(resourceComments, {
+    fields: [commentMentions.commentId],
+    references: [resourceComments.id],
+  }),
+  user: one(users, {
+    fields: [commentMentions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const collectionsRelations = relations(collections, ({ one, many }) => ({
@@ -693,6 +1545,28 @@ export const collectionsRelations = relations(collections, ({ one, many }) => ({
   }),
   collectionResources: many(collectionResources),
   followers: many(collectionFollowers),
+  collaborators: many(collectionCollaborators),
+  sections: many(collectionSections),
+  exports: many(collectionExports),
+}));
+
+export const collectionExportsRelations = relations(collectionExports, ({ one }) => ({
+  collection: one(collections, {
+    fields: [collectionExports.collectionId],
+    references: [collections.id],
+  }),
+  requester: one(users, {
+    fields: [collectionExports.requestedBy],
+    references: [users.id],
+  }),
+}));
+
+export const collectionSectionsRelations = relations(collectionSections, ({ one, many }) => ({
+  collection: one(collections, {
+    fields: [collectionSections.collectionId],
+    references: [collections.id],
+  }),
+  items: many(collectionResources),
 }));
 
 export const collectionResourcesRelations = relations(collectionResources, ({ one }) => ({
@@ -704,6 +1578,29 @@ export const collectionResourcesRelations = relations(collectionResources, ({ on
     fields: [collectionResources.resourceId],
     references: [resources.id],
   }),
+  section: one(collectionSections, {
+    fields: [collectionResources.sectionId],
+    references: [collectionSections.id],
+  }),
+  addedByUser: one(users, {
+    fields: [collectionResources.addedBy],
+    references: [users.id],
+  }),
+}));
+
+export const collectionCollaboratorsRelations = relations(collectionCollaborators, ({ one }) => ({
+  collection: one(collections, {
+    fields: [collectionCollaborators.collectionId],
+    references: [collections.id],
+  }),
+  user: one(users, {
+    fields: [collectionCollaborators.userId],
+    references: [users.id],
+  }),
+  inviter: one(users, {
+    fields: [collectionCollaborators.invitedBy],
+    references: [users.id],
+  }),
 }));
 
 export const proposalsRelations = relations(proposals, ({ one, many }) => ({
@@ -712,6 +1609,18 @@ export const proposalsRelations = relations(proposals, ({ one, many }) => ({
     references: [users.id],
   }),
   votes: many(proposalVotes),
+  events: many(proposalEvents),
+}));
+
+export const proposalEventsRelations = relations(proposalEvents, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [proposalEvents.proposalId],
+    references: [proposals.id],
+  }),
+  actor: one(users, {
+    fields: [proposalEvents.actorId],
+    references: [users.id],
+  }),
 }));
 
 export const proposalVotesRelations = relations(proposalVotes, ({ one }) => ({
@@ -723,6 +1632,36 @@ export const proposalVotesRelations = relations(proposalVotes, ({ one }) => ({
     fields: [proposalVotes.voterId],
     references: [users.id],
   }),
+  castBy: one(users, {
+    fields: [proposalVotes.castById],
+    references: [users.id],
+  }),
+}));
+
+export const proposalVoteHistoryRelations = relations(proposalVoteHistory, ({ one }) => ({
+  vote: one(proposalVotes, {
+    fields: [proposalVoteHistory.voteId],
+    references: [proposalVotes.id],
+  }),
+  proposal: one(proposals, {
+    fields: [proposalVoteHistory.proposalId],
+    references: [proposals.id],
+  }),
+  voter: one(users, {
+    fields: [proposalVoteHistory.voterId],
+    references: [users.id],
+  }),
+}));
+
+export const voteDelegationsRelations = relations(voteDelegations, ({ one }) => ({
+  delegator: one(users, {
+    fields: [voteDelegations.delegatorId],
+    references: [users.id],
+  }),
+  delegate: one(users, {
+    fields: [voteDelegations.delegateId],
+    references: [users.id],
+  }),
 }));
 
 export const rcTransactionsRelations = relations(rcTransactions, ({ one }) => ({
@@ -743,6 +1682,25 @@ export const moderationFlagsRelations = relations(moderationFlags, ({ one }) =>
   }),
 }));
 
+export const gamingCasesRelations = relations(gamingCases, ({ one, many }) => ({
+  user: one(users, {
+    fields: [gamingCases.userId],
+    references: [users.id],
+  }),
+  reviewer: one(users, {
+    fields: [gamingCases.reviewedBy],
+    references: [users.id],
+  }),
+  votes: many(gamingCaseVotes),
+}));
+
+export const gamingCaseVotesRelations = relations(gamingCaseVotes, ({ one }) => ({
+  case: one(gamingCases, {
+    fields: [gamingCaseVotes.caseId],
+    references: [gamingCases.id],
+  }),
+}));
+
 export const resourceDownloadsRelations = relations(resourceDownloads, ({ one }) => ({
   resource: one(resources, {
     fields: [resourceDownloads.resourceId],
@@ -765,6 +1723,13 @@ export const resourceViewsRelations = relations(resourceViews, ({ one }) => ({
   }),
 }));
 
+export const resourceTrendingScoresRelations = relations(resourceTrendingScores, ({ one }) => ({
+  resource: one(resources, {
+    fields: [resourceTrendingScores.resourceId],
+    references: [resources.id],
+  }),
+}));
+
 export const collectionFollowersRelations = relations(collectionFollowers, ({ one }) => ({
   collection: one(collections, {
     fields: [collectionFollowers.collectionId],
@@ -5,6 +5,18 @@ export const ENV = {
   oAuthServerUrl: process.env.OAUTH_SERVER_URL ?? "",
   ownerId: process.env.OWNER_OPEN_ID ?? "",
   isProduction: process.env.NODE_ENV === "production",
+  // Express "trust proxy": hops (e.g. "1"), "true" or a subnet list, so req.ip is the client
+  // rather than the proxy. Vercel puts exactly one proxy in front of the function.
+  trustProxy: process.env.TRUST_PROXY ?? (process.env.VERCEL ? "1" : ""),
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // File storage: "forge", "local" or "s3" (defaults to forge when its credentials are set, else local)
+  storageBackend: process.env.STORAGE_BACKEND ?? "",
+  localStorageDir: process.env.LOCAL_STORAGE_DIR ?? "./storage",
+  s3Bucket: process.env.S3_BUCKET ?? "",
+  s3Region: process.env.S3_REGION ?? "us-east-1",
+  s3Endpoint: process.env.S3_ENDPOINT ?? "", // for MinIO, R2 and other S3-compatible services
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID ?? "",
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "",
+  s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
 };
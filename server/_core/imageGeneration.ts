@@ -25,6 +25,8 @@ export type GenerateImageOptions = {
     b64Json?: string;
     mimeType?: string;
   }>;
+  // Storage key for the result (defaults to generated/<timestamp>.png)
+  storageKey?: string;
 };
 
 export type GenerateImageResponse = {
@@ -82,7 +84,7 @@ export async function generateImage(
 
   // Save to S3
   const { url } = await storagePut(
-    `generated/${Date.now()}.png`,
+    options.storageKey ?? `generated/${Date.now()}.png`,
     buffer,
     result.image.mimeType
   );
@@ -4,8 +4,19 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerUploadRoutes } from "../uploads";
+import { registerStorageRoutes } from "../storage";
+import { registerDownloadRoutes } from "../downloads";
+import { startThumbnailJob } from "../thumbnails";
+import { startTrendingJob } from "../trending";
+import { startEngagementReconcileJob } from "../tracking";
+import { startGamingDetectionJob } from "../antiGaming";
+import { startCollectionExportJob } from "../collectionExport";
+import { startResourceImportJob } from "../resourceImport";
+import { startProposalScheduler } from "../proposalLifecycle";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
+import { ENV } from "./env";
 import { serveStatic, setupVite } from "./vite";
 
 function isPortAvailable(port: number): Promise<boolean> {
@@ -30,11 +41,21 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   const app = express();
   const server = createServer(app);
+  // Behind a proxy, take the client IP from X-Forwarded-For (IP hashes, rate limits)
+  if (ENV.trustProxy) {
+    const hops = Number(ENV.trustProxy);
+    app.set("trust proxy", Number.isInteger(hops) ? hops : ENV.trustProxy === "true" || ENV.trustProxy);
+  }
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Chunked file uploads and locally stored files
+  registerUploadRoutes(app);
+  registerStorageRoutes(app);
+  // Access-checked resource downloads
+  registerDownloadRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +81,15 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Background jobs
+  startThumbnailJob();
+  startTrendingJob();
+  startEngagementReconcileJob();
+  startGamingDetectionJob();
+  startCollectionExportJob();
+  startResourceImportJob();
+  startProposalScheduler();
 }
 
 startServer().catch(console.error);
@@ -0,0 +1,476 @@
+import { eq, and, inArray, ne, sql, type SQL } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { TRPCError } from "@trpc/server";
+import { getDb, type DbExecutor } from "./db";
+import { postRc } from "./ledger";
+import {
+  gamingCases,
+  gamingCaseVotes,
+  rcTransactions,
+  type GamingEvidence,
+  type GamingSignal,
+} from "../drizzle/schema";
+import { ANTI_GAMING_CONFIG } from "@shared/const";
+
+/**
+ * Vote-farming detection.
+ *
+ * Scans recent upvotes (`ANTI_GAMING_CONFIG.LOOKBACK_MS`) for three signals:
+ *   - reciprocal voting: two users who keep upvoting each other, grouped
+ *     into clusters of users linked that way
+ *   - new-account bursts: many upvotes for one user from freshly created
+ *     accounts within a short window
+ *   - shared IPs: upvotes cast from the recipient's own IP hash, or several
+ *     voters on one IP hash upvoting the same user
+ *
+ * Each suspected recipient gets one open case in `gaming_cases` with the
+ * flagged votes and the evidence; moderators review the queue in
+ * `moderation.listGamingCases`. Confirming a case can reverse the RC those
+ * votes paid out with compensating `vote_reversed` ledger entries, keyed by
+ * vote id so a vote is never reversed twice.
+ */
+
+type FlaggedVote = {
+  voteId: string;
+  voterId: string;
+  recipientId: string;
+  resourceId: string;
+  votedAt: Date;
+  signals: Set<GamingSignal>;
+};
+
+type UpvoteRow = {
+  vote_id: string;
+  voter_id: string;
+  recipient_id: string;
+  resource_id: string;
+  voted_at_ms: number;
+};
+
+const interval = (ms: number) => sql.raw(`interval '${ms} milliseconds'`);
+
+// Upvotes inside the lookback window, with the contributor who received them
+function recentUpvotes(since: string) {
+  return sql`
+    SELECT v.id AS vote_id, v.user_id AS voter_id, r.contributor_id AS recipient_id,
+      v.resource_id, v.ip_hash, v.created_at
+    FROM resource_votes v
+    JOIN resources r ON r.id = v.resource_id
+    WHERE v.value = 1 AND v.created_at >= ${since}::timestamp AND v.user_id <> r.contributor_id
+  `;
+}
+
+// Timestamps are read back as epoch milliseconds (stored values are UTC)
+const VOTE_COLUMNS = sql`
+  upvotes.vote_id, upvotes.voter_id, upvotes.recipient_id, upvotes.resource_id,
+  (extract(epoch FROM upvotes.created_at) * 1000)::float8 AS voted_at_ms
+`;
+
+async function query<T>(db: DbExecutor, statement: SQL) {
+  const result = await db.execute(statement);
+  return result.rows as T[];
+}
+
+// ============================================================================
+// SIGNALS
+// ============================================================================
+
+async function findReciprocalVotes(db: DbExecutor, since: string) {
+  return query<UpvoteRow & { given: number; received: number }>(
+    db,
+    sql`
+      WITH upvotes AS (${recentUpvotes(since)}),
+      pairs AS (
+        SELECT voter_id, recipient_id, count(*)::int AS n FROM upvotes GROUP BY voter_id, recipient_id
+      )
+      SELECT ${VOTE_COLUMNS}, back.n AS given, forth.n AS received
+      FROM upvotes
+      JOIN pairs forth ON forth.voter_id = upvotes.voter_id AND forth.recipient_id = upvotes.recipient_id
+      JOIN pairs back ON back.voter_id = upvotes.recipient_id AND back.recipient_id = upvotes.voter_id
+      WHERE forth.n >= ${ANTI_GAMING_CONFIG.RECIPROCAL_MIN_VOTES}
+        AND back.n >= ${ANTI_GAMING_CONFIG.RECIPROCAL_MIN_VOTES}
+    `
+  );
+}
+
+async function findNewAccountBursts(db: DbExecutor, since: string) {
+  const window = interval(ANTI_GAMING_CONFIG.BURST_WINDOW_MS);
+  return query<UpvoteRow & { account_created_at_ms: number }>(
+    db,
+    sql`
+      WITH upvotes AS (
+        SELECT up.*, u.created_at AS account_created_at
+        FROM (${recentUpvotes(since)}) up
+        JOIN users u ON u.id = up.voter_id
+        WHERE up.created_at - u.created_at < ${interval(ANTI_GAMING_CONFIG.NEW_ACCOUNT_AGE_MS)}
+      ),
+      windowed AS (
+        SELECT recipient_id, created_at,
+          count(*) OVER (PARTITION BY recipient_id ORDER BY created_at RANGE BETWEEN ${window} PRECEDING AND CURRENT ROW) AS n
+        FROM upvotes
+      ),
+      bursts AS (
+        SELECT DISTINCT recipient_id, created_at AS burst_end
+        FROM windowed
+        WHERE n >= ${ANTI_GAMING_CONFIG.BURST_MIN_VOTES}
+      )
+      SELECT DISTINCT ${VOTE_COLUMNS},
+        (extract(epoch FROM upvotes.account_created_at) * 1000)::float8 AS account_created_at_ms
+      FROM upvotes
+      JOIN bursts ON bursts.recipient_id = upvotes.recipient_id
+        AND upvotes.created_at BETWEEN bursts.burst_end - ${window} AND bursts.burst_end
+    `
+  );
+}
+
+async function findSharedIpVotes(db: DbExecutor, since: string) {
+  return query<UpvoteRow & { ip_hash: string; includes_suspect: boolean }>(
+    db,
+    sql`
+      WITH upvotes AS (
+        SELECT * FROM (${recentUpvotes(since)}) up WHERE up.ip_hash IS NOT NULL
+      ),
+      known_ips AS (
+        SELECT user_id, ip_hash FROM resource_votes
+        WHERE ip_hash IS NOT NULL AND created_at >= ${since}::timestamp
+        UNION
+        SELECT user_id, ip_hash FROM resource_views
+        WHERE user_id IS NOT NULL AND ip_hash IS NOT NULL AND created_at >= ${since}::timestamp
+        UNION
+        SELECT user_id, ip_hash FROM resource_downloads
+        WHERE user_id IS NOT NULL AND ip_hash IS NOT NULL AND created_at >= ${since}::timestamp
+      ),
+      shared AS (
+        SELECT recipient_id, ip_hash FROM upvotes
+        GROUP BY recipient_id, ip_hash
+        HAVING count(DISTINCT voter_id) >= ${ANTI_GAMING_CONFIG.SHARED_IP_MIN_VOTERS}
+      )
+      SELECT * FROM (
+        SELECT ${VOTE_COLUMNS}, upvotes.ip_hash,
+          EXISTS (
+            SELECT 1 FROM known_ips
+            WHERE known_ips.user_id = upvotes.recipient_id AND known_ips.ip_hash = upvotes.ip_hash
+          ) AS includes_suspect,
+          EXISTS (
+            SELECT 1 FROM shared
+            WHERE shared.recipient_id = upvotes.recipient_id AND shared.ip_hash = upvotes.ip_hash
+          ) AS is_shared
+        FROM upvotes
+      ) candidates
+      WHERE includes_suspect OR is_shared
+    `
+  );
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+// Users linked by mutual upvoting, as connected groups
+function reciprocalClusters(pairs: [string, string][]) {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  for (const [a, b] of pairs) {
+    parent.set(find(a), find(b));
+  }
+
+  const clusters = new Map<string, string[]>();
+  parent.forEach((_, id) => {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) ?? []), id]);
+  });
+  return (id: string) => clusters.get(find(id)) ?? [id];
+}
+
+/**
+ * Run all signals and open or extend a case for every suspected recipient.
+ * Votes already attached to one of the user's cases (open or resolved) are
+ * not reported again, so a dismissed case stays dismissed until new votes show up.
+ */
+export async function detectVoteGaming(db: DbExecutor, now = new Date()) {
+  const since = new Date(now.getTime() - ANTI_GAMING_CONFIG.LOOKBACK_MS).toISOString();
+
+  const [reciprocal, bursts, sharedIp] = await Promise.all([
+    findReciprocalVotes(db, since),
+    findNewAccountBursts(db, since),
+    findSharedIpVotes(db, since),
+  ]);
+
+  const flagged = new Map<string, FlaggedVote>();
+  const evidence = new Map<string, GamingEvidence>();
+
+  const flag = (row: UpvoteRow, signal: GamingSignal) => {
+    const vote = flagged.get(row.vote_id) ?? {
+      voteId: row.vote_id,
+      voterId: row.voter_id,
+      recipientId: row.recipient_id,
+      resourceId: row.resource_id,
+      votedAt: new Date(Number(row.voted_at_ms)),
+      signals: new Set<GamingSignal>(),
+    };
+    vote.signals.add(signal);
+    flagged.set(row.vote_id, vote);
+  };
+  const evidenceFor = (userId: string) => {
+    const entry = evidence.get(userId) ?? {};
+    evidence.set(userId, entry);
+    return entry;
+  };
+
+  // Reciprocal voting
+  const clusterOf = reciprocalClusters(reciprocal.map((row) => [row.voter_id, row.recipient_id]));
+  for (const row of reciprocal) {
+    flag(row, "reciprocal_voting");
+    const entry = (evidenceFor(row.recipient_id).reciprocal_voting ??= {
+      cluster: clusterOf(row.recipient_id).filter((id) => id !== row.recipient_id),
+      partners: [],
+    });
+    if (!entry.partners.some((p) => p.userId === row.voter_id)) {
+      entry.partners.push({ userId: row.voter_id, votesGiven: row.given, votesReceived: row.received });
+    }
+  }
+
+  // New-account bursts
+  for (const row of bursts) {
+    flag(row, "new_account_burst");
+    const entry = (evidenceFor(row.recipient_id).new_account_burst ??= { voters: [] });
+    entry.voters.push({
+      userId: row.voter_id,
+      accountCreatedAt: new Date(Number(row.account_created_at_ms)).toISOString(),
+      votedAt: new Date(Number(row.voted_at_ms)).toISOString(),
+    });
+  }
+
+  // Shared IP hashes (shortened; the prefix is enough to tell groups apart)
+  for (const row of sharedIp) {
+    flag(row, "shared_ip");
+    const entry = (evidenceFor(row.recipient_id).shared_ip ??= { groups: [] });
+    const ipHash = row.ip_hash.slice(0, 12);
+    let group = entry.groups.find((g) => g.ipHash === ipHash);
+    if (!group) {
+      group = { ipHash, voterIds: [], includesSuspect: false };
+      entry.groups.push(group);
+    }
+    if (!group.voterIds.includes(row.voter_id)) group.voterIds.push(row.voter_id);
+    group.includesSuspect ||= row.includes_suspect;
+  }
+
+  const byRecipient = new Map<string, FlaggedVote[]>();
+  flagged.forEach((vote) => {
+    byRecipient.set(vote.recipientId, [...(byRecipient.get(vote.recipientId) ?? []), vote]);
+  });
+
+  let casesOpened = 0;
+  let casesUpdated = 0;
+  let votesFlagged = 0;
+  for (const [userId, votes] of Array.from(byRecipient)) {
+    const result = await saveCase(db, userId, votes, evidence.get(userId) ?? {}, now);
+    if (!result) continue;
+    votesFlagged += result.added;
+    if (result.opened) casesOpened++;
+    else casesUpdated++;
+  }
+
+  return { suspects: byRecipient.size, casesOpened, casesUpdated, votesFlagged };
+}
+
+async function saveCase(db: DbExecutor, userId: string, votes: FlaggedVote[], evidence: GamingEvidence, now: Date) {
+  return db.transaction(async (tx) => {
+    const [openCase] = await tx
+      .select()
+      .from(gamingCases)
+      .where(and(eq(gamingCases.userId, userId), eq(gamingCases.status, "open")))
+      .for("update");
+
+    const known = await tx
+      .select({ voteId: gamingCaseVotes.voteId })
+      .from(gamingCaseVotes)
+      .innerJoin(gamingCases, eq(gamingCaseVotes.caseId, gamingCases.id))
+      .where(
+        and(
+          eq(gamingCases.userId, userId),
+          inArray(
+            gamingCaseVotes.voteId,
+            votes.map((v) => v.voteId)
+          )
+        )
+      );
+    const knownIds = new Set(known.map((k) => k.voteId));
+    const fresh = votes.filter((v) => !knownIds.has(v.voteId));
+    if (fresh.length === 0) return null;
+
+    const signals = new Set<GamingSignal>(openCase?.signals ?? []);
+    fresh.forEach((v) => v.signals.forEach((s) => signals.add(s)));
+
+    let caseId: string;
+    if (openCase) {
+      caseId = openCase.id;
+      await tx
+        .update(gamingCases)
+        .set({
+          signals: Array.from(signals),
+          // Newer evidence replaces older evidence for the same signal
+          evidence: { ...openCase.evidence, ...evidence },
+          flaggedVoteCount: sql`${gamingCases.flaggedVoteCount} + ${fresh.length}`,
+          detectedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(gamingCases.id, caseId));
+    } else {
+      caseId = nanoid();
+      await tx.insert(gamingCases).values({
+        id: caseId,
+        userId,
+        signals: Array.from(signals),
+        evidence,
+        flaggedVoteCount: fresh.length,
+        detectedAt: now,
+      });
+    }
+
+    await tx
+      .insert(gamingCaseVotes)
+      .values(
+        fresh.map((v) => ({
+          id: nanoid(),
+          caseId,
+          voteId: v.voteId,
+          voterId: v.voterId,
+          resourceId: v.resourceId,
+          signals: Array.from(v.signals),
+          votedAt: v.votedAt,
+        }))
+      )
+      .onConflictDoNothing();
+
+    return { caseId, opened: !openCase, added: fresh.length };
+  });
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+/**
+ * Close a case. Confirming with `reverseRc` posts a `vote_reversed` entry for
+ * each flagged vote that still has net RC credited to the suspect, cancelling it.
+ * The vote row stays; if the voter later changes or removes it, `resource.vote`
+ * counts the reversed RC so the suspect is not debited for it twice.
+ */
+export async function resolveGamingCase(
+  db: DbExecutor,
+  input: {
+    caseId: string;
+    resolution: "confirmed" | "dismissed";
+    reverseRc: boolean;
+    reviewerId: string;
+    notes?: string;
+  }
+) {
+  return db.transaction(async (tx) => {
+    const [gamingCase] = await tx.select().from(gamingCases).where(eq(gamingCases.id, input.caseId)).for("update");
+    if (!gamingCase) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Case not found" });
+    }
+    if (gamingCase.status !== "open") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Case is already resolved" });
+    }
+
+    let rcReversed = 0;
+    if (input.resolution === "confirmed" && input.reverseRc) {
+      const votes = await tx
+        .select({ voteId: gamingCaseVotes.voteId, voterId: gamingCaseVotes.voterId })
+        .from(gamingCaseVotes)
+        .where(eq(gamingCaseVotes.caseId, gamingCase.id));
+
+      // Net RC each vote paid the suspect: the original posting plus any change or removal
+      const credited =
+        votes.length > 0
+          ? await tx
+              .select({
+                voteId: rcTransactions.referenceId,
+                amount: sql<number>`sum(${rcTransactions.amount})::int`,
+              })
+              .from(rcTransactions)
+              .where(
+                and(
+                  eq(rcTransactions.userId, gamingCase.userId),
+                  eq(rcTransactions.referenceType, "resource_vote"),
+                  ne(rcTransactions.reason, "vote_reversed"),
+                  inArray(
+                    rcTransactions.referenceId,
+                    votes.map((v) => v.voteId)
+                  )
+                )
+              )
+              .groupBy(rcTransactions.referenceId)
+          : [];
+
+      for (const { voteId, amount } of credited) {
+        if (!voteId || amount <= 0) continue;
+        const posting = await postRc(tx, {
+          userId: gamingCase.userId,
+          amount: -amount,
+          reason: "vote_reversed",
+          referenceType: "resource_vote",
+          referenceId: voteId,
+          meta: {
+            caseId: gamingCase.id,
+            voterId: votes.find((v) => v.voteId === voteId)?.voterId,
+            reversedBy: input.reviewerId,
+          },
+        });
+        if (posting.applied) rcReversed += amount;
+      }
+    }
+
+    const now = new Date();
+    await tx
+      .update(gamingCases)
+      .set({
+        status: input.resolution,
+        reviewedBy: input.reviewerId,
+        reviewedAt: now,
+        resolutionNotes: input.notes,
+        rcReversed,
+        updatedAt: now,
+      })
+      .where(eq(gamingCases.id, gamingCase.id));
+
+    return { status: input.resolution, rcReversed };
+  });
+}
+
+let running = false;
+
+// Run detection on an interval inside the server process
+export function startGamingDetectionJob() {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const db = await getDb();
+      if (!db) return;
+      const { casesOpened, casesUpdated, votesFlagged } = await detectVoteGaming(db);
+      if (votesFlagged > 0) {
+        console.log(
+          `[AntiGaming] Flagged ${votesFlagged} votes (${casesOpened} new cases, ${casesUpdated} updated)`
+        );
+      }
+    } catch (error) {
+      console.error("[AntiGaming] Detection failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, ANTI_GAMING_CONFIG.INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,524 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { eq, and, asc, inArray, lt, sql } from "drizzle-orm";
+import { getDb, type DbExecutor } from "./db";
+import { canAccessResource } from "./downloads";
+import { loadCollectionPlan, type CollectionPlan } from "./collections";
+import { storageDownload, storagePut } from "./storage";
+import { createZip, type ZipEntry } from "./zip";
+import {
+  collectionExports,
+  collections,
+  resources,
+  users,
+  type Collection,
+  type CollectionExport,
+  type Resource,
+} from "../drizzle/schema";
+import { COLLECTION_EXPORT_CONFIG } from "@shared/const";
+
+/**
+ * Collection export packages, built by a background job from rows in
+ * `collection_exports`:
+ *
+ *   - common_cartridge: an IMS Common Cartridge 1.3 package (.imscc) with
+ *     `imsmanifest.xml` (LOM metadata and one organization mirroring the
+ *     unit plan's sections), uploaded files as webcontent and links as
+ *     `imswl_xmlv1p3` web links. LMSs such as Canvas, Moodle and Schoology
+ *     import these as modules.
+ *   - zip: a plain archive with an `index.html` unit plan, `metadata.json`
+ *     and the files.
+ *
+ * Both include the same `index.html` overview. Only resources the requester
+ * can open are exported. Files over `MAX_FILE_BYTES`, or once the package
+ * reaches `MAX_TOTAL_BYTES`, become links back to the resource page.
+ */
+
+type ExportResource = Pick<
+  Resource,
+  | "id"
+  | "title"
+  | "description"
+  | "summary"
+  | "category"
+  | "resourceType"
+  | "subject"
+  | "gradeLevel"
+  | "tags"
+  | "standards"
+  | "fileName"
+  | "fileSize"
+  | "fileKey"
+  | "fileUrl"
+  | "fileMimeType"
+  | "externalUrl"
+  | "status"
+  | "contributorId"
+>;
+
+// One exported item: a packaged file, or a link (external, legacy file URL or the resource page)
+type PackagedItem = {
+  resource: ExportResource;
+  note: string | null;
+  durationMinutes: number | null;
+  identifier: string;
+  filePath: string | null; // path inside the package
+  fileData: Buffer | null;
+  linkUrl: string;
+};
+
+const FILE_EXTENSIONS: Record<CollectionExport["format"], string> = {
+  common_cartridge: "imscc",
+  zip: "zip",
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// File names inside the package: ASCII, no separators, unique per package
+function safeFileName(name: string, used: Set<string>) {
+  const cleaned =
+    name
+      .normalize("NFKD")
+      .replace(/[^\w.\- ]+/g, "")
+      .replace(/\s+/g, "_")
+      .slice(-100) || "file";
+  let candidate = cleaned;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    const ext = path.extname(cleaned);
+    candidate = `${path.basename(cleaned, ext)}_${n}${ext}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function readStoredFile(key: string) {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "apex-export-"));
+  const filePath = path.join(workDir, "file");
+  try {
+    await storageDownload(key, filePath);
+    return await fs.promises.readFile(filePath);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// ============================================================================
+// PACKAGE CONTENTS
+// ============================================================================
+
+async function collectItems(db: DbExecutor, job: CollectionExport, plan: CollectionPlan) {
+  const [requester] = await db.select().from(users).where(eq(users.id, job.requestedBy));
+  const ids = plan.sections.flatMap((section) => section.items.map((item) => item.id));
+  const rows: ExportResource[] =
+    ids.length > 0
+      ? await db
+          .select({
+            id: resources.id,
+            title: resources.title,
+            description: resources.description,
+            summary: resources.summary,
+            category: resources.category,
+            resourceType: resources.resourceType,
+            subject: resources.subject,
+            gradeLevel: resources.gradeLevel,
+            tags: resources.tags,
+            standards: resources.standards,
+            fileName: resources.fileName,
+            fileSize: resources.fileSize,
+            fileKey: resources.fileKey,
+            fileUrl: resources.fileUrl,
+            fileMimeType: resources.fileMimeType,
+            externalUrl: resources.externalUrl,
+            status: resources.status,
+            contributorId: resources.contributorId,
+          })
+          .from(resources)
+          .where(inArray(resources.id, ids))
+      : [];
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  const usedNames = new Set<string>();
+  let totalBytes = 0;
+  let filesIncluded = 0;
+  let filesLinked = 0;
+
+  const sections: { title: string | null; description: string | null; items: PackagedItem[] }[] = [];
+  for (const section of plan.sections) {
+    const items: PackagedItem[] = [];
+    for (const item of section.items) {
+      const resource = byId.get(item.id);
+      if (!resource || !canAccessResource(resource, requester ?? null)) continue;
+
+      const pageUrl = `${job.siteUrl}/resource/${resource.id}`;
+      let fileData: Buffer | null = null;
+      if (resource.fileKey) {
+        const size = resource.fileSize ?? 0;
+        if (size <= COLLECTION_EXPORT_CONFIG.MAX_FILE_BYTES && totalBytes + size <= COLLECTION_EXPORT_CONFIG.MAX_TOTAL_BYTES) {
+          fileData = await readStoredFile(resource.fileKey);
+          totalBytes += fileData.length;
+          filesIncluded++;
+        } else {
+          filesLinked++;
+        }
+      }
+
+      items.push({
+        resource,
+        note: item.note,
+        durationMinutes: item.durationMinutes,
+        identifier: `I_${resource.id.replace(/[^\w-]/g, "_")}`,
+        filePath: fileData ? `files/${safeFileName(resource.fileName ?? resource.title, usedNames)}` : null,
+        fileData,
+        // Stored files are never linked directly; their URLs are unsigned
+        linkUrl: resource.externalUrl ?? (resource.fileKey ? pageUrl : (resource.fileUrl ?? pageUrl)),
+      });
+    }
+    sections.push({ title: section.title, description: section.description, items });
+  }
+
+  return { sections, filesIncluded, filesLinked };
+}
+
+type PackageContents = Awaited<ReturnType<typeof collectItems>>;
+
+function formatMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+// The unit plan as a standalone page; file links are relative to the package root
+function renderIndexHtml(collection: Collection, contents: PackageContents, linkPrefix: string) {
+  const sectionHtml = contents.sections
+    .map((section) => {
+      const items = section.items
+        .map((item) => {
+          const href = item.filePath ? `${linkPrefix}${item.filePath}` : item.linkUrl;
+          const details = [
+            item.resource.summary,
+            item.durationMinutes ? formatMinutes(item.durationMinutes) : null,
+          ].filter(Boolean);
+          return [
+            "      <li>",
+            `        <a href="${escapeXml(href)}">${escapeXml(item.resource.title)}</a>`,
+            details.length > 0 ? `        <p class="details">${escapeXml(details.join(" · "))}</p>` : "",
+            item.note ? `        <p class="note">${escapeXml(item.note)}</p>` : "",
+            "      </li>",
+          ]
+            .filter(Boolean)
+            .join("\n");
+        })
+        .join("\n");
+      return [
+        "  <section>",
+        section.title ? `    <h2>${escapeXml(section.title)}</h2>` : "",
+        section.description ? `    <p>${escapeXml(section.description)}</p>` : "",
+        `    <ol>\n${items}\n    </ol>`,
+        "  </section>",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeXml(collection.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+    .details { color: #555; margin: 0; }
+    .note { white-space: pre-wrap; margin: 0.25rem 0 0; }
+    li { margin-bottom: 1rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeXml(collection.title)}</h1>
+${collection.description ? `  <p>${escapeXml(collection.description)}</p>\n` : ""}${sectionHtml}
+</body>
+</html>
+`;
+}
+
+function buildZipPackage(collection: Collection, contents: PackageContents, plan: CollectionPlan): ZipEntry[] {
+  const metadata = {
+    collection: {
+      id: collection.id,
+      title: collection.title,
+      description: collection.description,
+      tags: collection.tags ?? [],
+      exportedAt: new Date().toISOString(),
+      totalMinutes: plan.totalMinutes,
+    },
+    sections: contents.sections.map((section) => ({
+      title: section.title,
+      description: section.description,
+      items: section.items.map(({ resource, note, durationMinutes, filePath, linkUrl }) => ({
+        id: resource.id,
+        title: resource.title,
+        description: resource.description,
+        category: resource.category,
+        resourceType: resource.resourceType,
+        subject: resource.subject,
+        gradeLevel: resource.gradeLevel,
+        tags: resource.tags ?? [],
+        standards: resource.standards ?? [],
+        note,
+        durationMinutes,
+        file: filePath ? { path: filePath, name: resource.fileName, mimeType: resource.fileMimeType } : null,
+        url: filePath ? null : linkUrl,
+      })),
+    })),
+  };
+
+  return [
+    { name: "index.html", data: renderIndexHtml(collection, contents, "") },
+    { name: "metadata.json", data: JSON.stringify(metadata, null, 2) },
+    ...contents.sections.flatMap((section) =>
+      section.items
+        .filter((item) => item.filePath && item.fileData)
+        .map((item) => ({ name: item.filePath!, data: item.fileData! }))
+    ),
+  ];
+}
+
+function buildCommonCartridge(collection: Collection, contents: PackageContents): ZipEntry[] {
+  const entries: ZipEntry[] = [
+    // The overview sits in its own folder, so file links climb one level
+    { name: "overview/index.html", data: renderIndexHtml(collection, contents, "../") },
+  ];
+  const resourceXml: string[] = [
+    `    <resource identifier="R_overview" type="webcontent" href="overview/index.html">
+      <file href="overview/index.html"/>
+    </resource>`,
+  ];
+
+  const itemXml = (item: PackagedItem, indent: string) =>
+    `${indent}<item identifier="${item.identifier}" identifierref="R_${item.identifier}">
+${indent}  <title>${escapeXml(item.resource.title)}</title>
+${indent}</item>`;
+
+  for (const section of contents.sections) {
+    for (const item of section.items) {
+      if (item.filePath && item.fileData) {
+        entries.push({ name: item.filePath, data: item.fileData });
+        resourceXml.push(`    <resource identifier="R_${item.identifier}" type="webcontent" href="${escapeXml(item.filePath)}">
+      <file href="${escapeXml(item.filePath)}"/>
+    </resource>`);
+      } else {
+        const linkPath = `links/${item.identifier}.xml`;
+        entries.push({
+          name: linkPath,
+          data: `<?xml version="1.0" encoding="UTF-8"?>
+<webLink xmlns="http://www.imsglobal.org/xsd/imsccv1p3/imswl_v1p3" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsccv1p3/imswl_v1p3 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_imswl_v1p3.xsd">
+  <title>${escapeXml(item.resource.title)}</title>
+  <url href="${escapeXml(item.linkUrl)}" target="_blank"/>
+</webLink>
+`,
+        });
+        resourceXml.push(`    <resource identifier="R_${item.identifier}" type="imswl_xmlv1p3">
+      <file href="${linkPath}"/>
+    </resource>`);
+      }
+    }
+  }
+
+  // Sections become folders (modules); unsectioned items sit at the top level
+  const organizationXml = contents.sections
+    .map((section, index) => {
+      if (!section.title) return section.items.map((item) => itemXml(item, "        ")).join("\n");
+      return `        <item identifier="S_${index}">
+          <title>${escapeXml(section.title)}</title>
+${section.items.map((item) => itemXml(item, "          ")).join("\n")}
+        </item>`;
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  const keywords = (collection.tags ?? [])
+    .map((tag) => `          <lomimscc:keyword><lomimscc:string>${escapeXml(tag)}</lomimscc:string></lomimscc:keyword>`)
+    .join("\n");
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="M_${collection.id.replace(/[^\w-]/g, "_")}"
+  xmlns="http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1"
+  xmlns:lomimscc="http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_imscp_v1p2_v1p0.xsd http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest http://www.imsglobal.org/profile/cc/ccv1p3/LOM/ccv1p3_lommanifest_v1p0.xsd">
+  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>1.3.0</schemaversion>
+    <lomimscc:lom>
+      <lomimscc:general>
+        <lomimscc:title>
+          <lomimscc:string>${escapeXml(collection.title)}</lomimscc:string>
+        </lomimscc:title>
+${
+  collection.description
+    ? `        <lomimscc:description>
+          <lomimscc:string>${escapeXml(collection.description)}</lomimscc:string>
+        </lomimscc:description>
+`
+    : ""
+}${keywords ? `${keywords}\n` : ""}      </lomimscc:general>
+    </lomimscc:lom>
+  </metadata>
+  <organizations>
+    <organization identifier="O_1" structure="rooted-hierarchy">
+      <item identifier="root">
+        <item identifier="I_overview" identifierref="R_overview">
+          <title>Overview</title>
+        </item>
+${organizationXml}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+${resourceXml.join("\n")}
+  </resources>
+</manifest>
+`;
+
+  return [{ name: "imsmanifest.xml", data: manifest }, ...entries];
+}
+
+// ============================================================================
+// JOB
+// ============================================================================
+
+/**
+ * Build one export. The row is claimed by moving it from pending to running,
+ * so concurrent workers never build the same package twice.
+ */
+export async function runCollectionExport(db: DbExecutor, exportId: string) {
+  const now = new Date();
+  const [job] = await db
+    .update(collectionExports)
+    .set({ status: "running", startedAt: now, updatedAt: now })
+    .where(and(eq(collectionExports.id, exportId), eq(collectionExports.status, "pending")))
+    .returning();
+  if (!job) return null;
+
+  try {
+    const [collection] = await db.select().from(collections).where(eq(collections.id, job.collectionId));
+    if (!collection) throw new Error("Collection not found");
+
+    const plan = await loadCollectionPlan(db, collection.id);
+    const contents = await collectItems(db, job, plan);
+    const entries =
+      job.format === "common_cartridge"
+        ? buildCommonCartridge(collection, contents)
+        : buildZipPackage(collection, contents, plan);
+    const archive = createZip(entries);
+
+    const baseName = collection.title.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "_") || "collection";
+    const fileName = `${baseName.slice(0, 80)}.${FILE_EXTENSIONS[job.format]}`;
+    const { key } = await storagePut(`exports/${collection.id}/${job.id}-${fileName}`, archive, "application/zip");
+
+    const completedAt = new Date();
+    await db
+      .update(collectionExports)
+      .set({
+        status: "completed",
+        storageKey: key,
+        fileName,
+        fileSize: archive.length,
+        resourceCount: contents.sections.reduce((sum, section) => sum + section.items.length, 0),
+        filesIncluded: contents.filesIncluded,
+        filesLinked: contents.filesLinked,
+        completedAt,
+        updatedAt: completedAt,
+      })
+      .where(eq(collectionExports.id, job.id));
+    return job.id;
+  } catch (error) {
+    const failedAt = new Date();
+    await db
+      .update(collectionExports)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: failedAt,
+        updatedAt: failedAt,
+      })
+      .where(eq(collectionExports.id, job.id));
+    throw error;
+  }
+}
+
+// Exports left running by a crashed or restarted server
+async function failStaleExports(db: DbExecutor) {
+  const cutoff = new Date(Date.now() - COLLECTION_EXPORT_CONFIG.STALE_AFTER_MS);
+  await db
+    .update(collectionExports)
+    .set({ status: "failed", error: "Export timed out", updatedAt: new Date() })
+    .where(and(eq(collectionExports.status, "running"), lt(collectionExports.startedAt, cutoff)));
+}
+
+// Build pending exports, oldest first. Returns how many were processed.
+export async function processPendingExports(db: DbExecutor) {
+  await failStaleExports(db);
+
+  const pending = await db
+    .select({ id: collectionExports.id })
+    .from(collectionExports)
+    .where(eq(collectionExports.status, "pending"))
+    .orderBy(asc(collectionExports.createdAt));
+
+  let processed = 0;
+  for (const { id } of pending) {
+    try {
+      if (await runCollectionExport(db, id)) processed++;
+    } catch (error) {
+      console.error(`[Export] Export ${id} failed:`, error);
+    }
+  }
+  return processed;
+}
+
+// Count pending exports (for the status endpoint's queue position)
+export async function pendingExportsBefore(db: DbExecutor, job: CollectionExport) {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(collectionExports)
+    .where(and(eq(collectionExports.status, "pending"), lt(collectionExports.createdAt, job.createdAt)));
+  return row?.count ?? 0;
+}
+
+let running = false;
+
+async function tick() {
+  if (running) return;
+  running = true;
+  try {
+    const db = await getDb();
+    if (!db) return;
+    await processPendingExports(db);
+  } catch (error) {
+    console.error("[Export] Job failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Start building queued exports now rather than at the next interval
+export function kickExportJob() {
+  setTimeout(tick, 0).unref();
+}
+
+// Run the job on an interval inside the server process
+export function startCollectionExportJob() {
+  kickExportJob();
+  const timer = setInterval(tick, COLLECTION_EXPORT_CONFIG.INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,160 @@
+import { eq, and, asc, isNotNull } from "drizzle-orm";
+import { TRPCError } from "@trpc/server";
+import type { DbExecutor } from "./db";
+import {
+  collections,
+  collectionCollaborators,
+  collectionResources,
+  collectionSections,
+  resources,
+  users,
+  type Collection,
+  type User,
+} from "../drizzle/schema";
+
+/**
+ * Collection permissions. The creator (`collections.ownerId`) always has the
+ * owner role; other users get a role from an accepted row in
+ * `collection_collaborators`:
+ *   - viewer: can see the collection even when it is private
+ *   - editor: can also add, remove and reorder resources and edit the details
+ *   - owner: can also change visibility and manage collaborators
+ * Only the creator can delete the collection.
+ */
+
+export type CollectionRole = "viewer" | "editor" | "owner";
+
+const ROLE_RANK: Record<CollectionRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export function hasCollectionRole(role: CollectionRole | null, required: CollectionRole) {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// The caller's role on a collection, or null when they have none
+export async function getCollectionRole(db: DbExecutor, collection: Collection, userId: string | undefined) {
+  if (!userId) return null;
+  if (collection.ownerId === userId) return "owner" as CollectionRole;
+
+  const [collaborator] = await db
+    .select({ role: collectionCollaborators.role })
+    .from(collectionCollaborators)
+    .where(
+      and(
+        eq(collectionCollaborators.collectionId, collection.id),
+        eq(collectionCollaborators.userId, userId),
+        isNotNull(collectionCollaborators.acceptedAt)
+      )
+    );
+  return collaborator?.role ?? null;
+}
+
+/**
+ * Load a collection the caller can see. Private collections are reported as
+ * forbidden to anyone without a role.
+ */
+export async function loadReadableCollection(db: DbExecutor, collectionId: string, user: User | null) {
+  const [collection] = await db.select().from(collections).where(eq(collections.id, collectionId));
+  if (!collection) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+  }
+
+  const role = await getCollectionRole(db, collection, user?.id);
+  if (collection.visibility === "private" && !role) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "This collection is private" });
+  }
+  return { collection, role };
+}
+
+// Load a collection, requiring at least `required` for the caller
+export async function requireCollectionRole(
+  db: DbExecutor,
+  collectionId: string,
+  userId: string,
+  required: CollectionRole
+) {
+  const [collection] = await db.select().from(collections).where(eq(collections.id, collectionId));
+  if (!collection) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+  }
+
+  const role = await getCollectionRole(db, collection, userId);
+  if (!hasCollectionRole(role, required)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message:
+        required === "owner"
+          ? "Only collection owners can do this"
+          : "You need edit access to modify this collection",
+    });
+  }
+  return { collection, role: role! };
+}
+
+// ============================================================================
+// UNIT PLAN
+// ============================================================================
+
+export async function loadCollectionItems(db: DbExecutor, collectionId: string) {
+  return db
+    .select({
+      id: resources.id,
+      title: resources.title,
+      summary: resources.summary,
+      category: resources.category,
+      subject: resources.subject,
+      gradeLevel: resources.gradeLevel,
+      thumbnailUrl: resources.thumbnailUrl,
+      netVotes: resources.netVotes,
+      sectionId: collectionResources.sectionId,
+      orderIndex: collectionResources.orderIndex,
+      note: collectionResources.note,
+      durationMinutes: collectionResources.durationMinutes,
+      addedAt: collectionResources.addedAt,
+      addedBy: collectionResources.addedBy,
+      addedByName: users.name,
+    })
+    .from(collectionResources)
+    .innerJoin(resources, eq(collectionResources.resourceId, resources.id))
+    .leftJoin(users, eq(collectionResources.addedBy, users.id))
+    .where(eq(collectionResources.collectionId, collectionId))
+    .orderBy(asc(collectionResources.orderIndex), asc(collectionResources.addedAt));
+}
+
+export type CollectionItem = Awaited<ReturnType<typeof loadCollectionItems>>[number];
+
+/**
+ * A collection as an ordered unit plan: items without a section first (as a
+ * section with a null id, only when there are any), then each section in
+ * order. Durations are summed per section and overall.
+ */
+export async function loadCollectionPlan(db: DbExecutor, collectionId: string) {
+  const sections = await db
+    .select()
+    .from(collectionSections)
+    .where(eq(collectionSections.collectionId, collectionId))
+    .orderBy(asc(collectionSections.orderIndex), asc(collectionSections.createdAt));
+  const items = await loadCollectionItems(db, collectionId);
+
+  const totalMinutes = (list: CollectionItem[]) => list.reduce((sum, item) => sum + (item.durationMinutes ?? 0), 0);
+
+  const unsectioned = items.filter((item) => item.sectionId === null);
+  const plan = [
+    ...(unsectioned.length > 0
+      ? [{ id: null, title: null, description: null, items: unsectioned, totalMinutes: totalMinutes(unsectioned) }]
+      : []),
+    ...sections.map((section) => {
+      const sectionItems = items.filter((item) => item.sectionId === section.id);
+      return {
+        id: section.id as string | null,
+        title: section.title as string | null,
+        description: section.description,
+        items: sectionItems,
+        totalMinutes: totalMinutes(sectionItems),
+      };
+    }),
+  ];
+
+  return { sections: plan, totalMinutes: totalMinutes(items) };
+}
+
+export type CollectionPlan = Awaited<ReturnType<typeof loadCollectionPlan>>;
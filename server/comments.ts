@@ -0,0 +1,154 @@
+import { eq, and, inArray, isNull, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { TRPCError } from "@trpc/server";
+import type { DbExecutor } from "./db";
+import { extractMentionIds, renderMarkdown } from "./markdown";
+import { commentMentions, resourceCommentEdits, resourceComments, resources, users } from "../drizzle/schema";
+import { COMMENT_CONFIG } from "@shared/const";
+
+/**
+ * Resource comment writes. Comments are markdown, rendered to sanitized HTML
+ * on every write; `@[Name](userId)` mentions are resolved against users and
+ * recorded in `comment_mentions`. Edits keep the previous content in
+ * `resource_comment_edits`, and deletes are soft so replies stay in place.
+ */
+
+// Render content and resolve its mentions to existing users
+async function renderContent(db: DbExecutor, content: string) {
+  const mentionIds = extractMentionIds(content).slice(0, COMMENT_CONFIG.MAX_MENTIONS);
+  const mentioned =
+    mentionIds.length > 0
+      ? await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, mentionIds))
+      : [];
+
+  const mentions = new Map(mentioned.map((u) => [u.id, u.name ?? "Unknown"]));
+  return { html: renderMarkdown(content, { mentions }), mentionedUserIds: Array.from(mentions.keys()) };
+}
+
+async function replaceMentions(db: DbExecutor, commentId: string, userIds: string[]) {
+  await db.delete(commentMentions).where(eq(commentMentions.commentId, commentId));
+  if (userIds.length === 0) return;
+  await db.insert(commentMentions).values(userIds.map((userId) => ({ id: nanoid(), commentId, userId })));
+}
+
+async function loadComment(db: DbExecutor, commentId: string) {
+  const [comment] = await db
+    .select()
+    .from(resourceComments)
+    .where(eq(resourceComments.id, commentId))
+    .for("update");
+  if (!comment) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+  }
+  return comment;
+}
+
+export async function createComment(
+  db: DbExecutor,
+  input: { resourceId: string; userId: string; content: string; parentId?: string }
+) {
+  return db.transaction(async (tx) => {
+    let parentId: string | null = null;
+    let depth = 0;
+
+    if (input.parentId) {
+      const parent = await loadComment(tx, input.parentId);
+      if (parent.resourceId !== input.resourceId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Parent comment belongs to another resource" });
+      }
+      if (parent.deletedAt) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Cannot reply to a deleted comment" });
+      }
+      // Past the depth limit, reply alongside the parent instead of under it
+      if (parent.depth + 1 >= COMMENT_CONFIG.MAX_DEPTH) {
+        parentId = parent.parentId;
+        depth = parent.depth;
+      } else {
+        parentId = parent.id;
+        depth = parent.depth + 1;
+      }
+    }
+
+    const { html, mentionedUserIds } = await renderContent(tx, input.content);
+    const id = nanoid();
+
+    await tx.insert(resourceComments).values({
+      id,
+      resourceId: input.resourceId,
+      userId: input.userId,
+      parentId,
+      depth,
+      content: input.content,
+      contentHtml: html,
+    });
+    await replaceMentions(tx, id, mentionedUserIds);
+
+    await tx
+      .update(resources)
+      .set({ commentCount: sql`${resources.commentCount} + 1` })
+      .where(eq(resources.id, input.resourceId));
+
+    return { id, parentId, mentionedUserIds };
+  });
+}
+
+// Authors edit their own comments; the previous content goes to the edit history
+export async function editComment(db: DbExecutor, input: { commentId: string; userId: string; content: string }) {
+  return db.transaction(async (tx) => {
+    const comment = await loadComment(tx, input.commentId);
+    if (comment.userId !== input.userId) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "You can only edit your own comments" });
+    }
+    if (comment.deletedAt) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Deleted comments cannot be edited" });
+    }
+    if (comment.content === input.content) {
+      return { id: comment.id, mentionedUserIds: [] as string[] };
+    }
+
+    await tx.insert(resourceCommentEdits).values({
+      id: nanoid(),
+      commentId: comment.id,
+      previousContent: comment.content,
+      editedBy: input.userId,
+    });
+
+    const { html, mentionedUserIds } = await renderContent(tx, input.content);
+    const now = new Date();
+    await tx
+      .update(resourceComments)
+      .set({ content: input.content, contentHtml: html, isEdited: true, editedAt: now, updatedAt: now })
+      .where(eq(resourceComments.id, comment.id));
+    await replaceMentions(tx, comment.id, mentionedUserIds);
+
+    return { id: comment.id, mentionedUserIds };
+  });
+}
+
+/**
+ * Soft-delete a comment. `reason` marks a moderator removal; authors delete
+ * without one. Content and history are kept for moderators.
+ */
+export async function deleteComment(
+  db: DbExecutor,
+  input: { commentId: string; deletedBy: string; reason?: string }
+) {
+  return db.transaction(async (tx) => {
+    const comment = await loadComment(tx, input.commentId);
+    if (comment.deletedAt) return { id: comment.id, alreadyDeleted: true };
+
+    const now = new Date();
+    await tx
+      .update(resourceComments)
+      .set({ deletedAt: now, deletedBy: input.deletedBy, deletionReason: input.reason ?? null, updatedAt: now })
+      .where(and(eq(resourceComments.id, comment.id), isNull(resourceComments.deletedAt)));
+    await tx.delete(commentMentions).where(eq(commentMentions.commentId, comment.id));
+
+    await tx
+      .update(resources)
+      .set({ commentCount: sql`GREATEST(${resources.commentCount} - 1, 0)` })
+      .where(eq(resources.id, comment.resourceId));
+
+    return { id: comment.id, alreadyDeleted: false };
+  });
+}
@@ -4,11 +4,14 @@ import * as schema from "../drizzle/schema";
 import * as relations from "../drizzle/relations";
 import { InsertUser, users } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import { refreshSearchVectors } from "./search";
 
 // Combine schema and relations for full relational query support
 const fullSchema = { ...schema, ...relations };
 
-let _db: ReturnType<typeof drizzle<typeof fullSchema>> | null = null;
+type Database = ReturnType<typeof drizzle<typeof fullSchema>>;
+
+let _db: Database | null = null;
 
 // Lazily create the drizzle instance so local tooling can run without a DB.
 export async function getDb() {
@@ -23,7 +26,10 @@ export async function getDb() {
   return _db;
 }
 
-export type DbInstance = NonNullable<typeof _db>;
+export type DbInstance = Database;
+export type DbTransaction = Parameters<Parameters<DbInstance["transaction"]>[0]>[0];
+// Anything that can run queries: the pool itself or an open transaction
+export type DbExecutor = DbInstance | DbTransaction;
 
 export async function upsertUser(user: InsertUser): Promise<void> {
   if (!user.id) {
@@ -71,10 +77,20 @@ export async function upsertUser(user: InsertUser): Promise<void> {
       updateSet.lastSignedIn = new Date();
     }
 
+    const previous =
+      user.name !== undefined
+        ? await db.select({ name: users.name }).from(users).where(eq(users.id, user.id)).limit(1)
+        : [];
+
     await db.insert(users).values(values).onConflictDoUpdate({
       target: users.id,
       set: updateSet,
     });
+
+    // Contributor names are part of the resource search index
+    if (previous.length > 0 && previous[0].name !== values.name) {
+      await refreshSearchVectors(db, { contributorId: user.id });
+    }
   } catch (error) {
     console.error("[Database] Failed to upsert user:", error);
     throw error;
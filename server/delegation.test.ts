@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { followDelegation, type Delegations } from "./delegation";
+
+// [delegator, delegate, tag] triples; tag "" is a global delegation
+const delegations = (...rows: [string, string, string?][]): Delegations => {
+  const byDelegator: Delegations = new Map();
+  for (const [delegatorId, delegateId, tag = ""] of rows) {
+    const scopes = byDelegator.get(delegatorId) ?? new Map<string, string>();
+    scopes.set(tag, delegateId);
+    byDelegator.set(delegatorId, scopes);
+  }
+  return byDelegator;
+};
+
+const voted = (...voterIds: string[]) => new Map(voterIds.map((id) => [id, "for"]));
+
+describe("followDelegation", () => {
+  it("follows a direct delegation to a voter", () => {
+    expect(followDelegation(delegations(["a", "b"]), voted("b"), "a", [])).toEqual({ castById: "b", path: ["a", "b"] });
+  });
+
+  it("is transitive", () => {
+    const chain = delegations(["a", "b"], ["b", "c"], ["c", "d"]);
+    expect(followDelegation(chain, voted("d"), "a", [])).toEqual({ castById: "d", path: ["a", "b", "c", "d"] });
+  });
+
+  it("stops at the first user down the chain who voted", () => {
+    const chain = delegations(["a", "b"], ["b", "c"]);
+    expect(followDelegation(chain, voted("b", "c"), "a", [])).toEqual({ castById: "b", path: ["a", "b"] });
+  });
+
+  it("casts nothing when nobody down the chain voted", () => {
+    expect(followDelegation(delegations(["a", "b"], ["b", "c"]), voted(), "a", [])).toBeNull();
+  });
+
+  it("casts nothing for a user who does not delegate", () => {
+    expect(followDelegation(delegations(["a", "b"]), voted("b"), "z", [])).toBeNull();
+  });
+
+  it("casts nothing for a loop", () => {
+    const loop = delegations(["a", "b"], ["b", "c"], ["c", "a"]);
+    expect(followDelegation(loop, voted(), "a", [])).toBeNull();
+    // A loop further down the chain, not through the delegator
+    expect(followDelegation(delegations(["a", "b"], ["b", "c"], ["c", "b"]), voted(), "a", [])).toBeNull();
+  });
+
+  it("prefers a tag delegation over the global one", () => {
+    const scoped = delegations(["a", "global"], ["a", "math", "math"]);
+    expect(followDelegation(scoped, voted("global", "math"), "a", ["math"])?.castById).toBe("math");
+    expect(followDelegation(scoped, voted("global", "math"), "a", ["science"])?.castById).toBe("global");
+  });
+
+  it("uses the first of the proposal's tags the user delegated", () => {
+    const scoped = delegations(["a", "x", "art"], ["a", "y", "math"]);
+    expect(followDelegation(scoped, voted("x", "y"), "a", ["math", "art"])?.castById).toBe("y");
+  });
+
+  it("resolves each link of the chain by the proposal's tags", () => {
+    const chain = delegations(["a", "b", "math"], ["b", "c"], ["b", "d", "math"]);
+    expect(followDelegation(chain, voted("c", "d"), "a", ["math"])).toEqual({ castById: "d", path: ["a", "b", "d"] });
+  });
+});
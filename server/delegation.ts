@@ -0,0 +1,184 @@
+import { eq, and, inArray, gte, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { DbExecutor } from "./db";
+import { voteReceiptHash } from "./voteReceipts";
+import {
+  proposals,
+  proposalVotes,
+  proposalVoteHistory,
+  users,
+  voteDelegations,
+  type Proposal,
+} from "../drizzle/schema";
+
+/**
+ * Liquid voting. A user can delegate their proposal votes to another user,
+ * either for every proposal (tag "") or for proposals carrying one tag. For a
+ * given proposal a user follows their delegation for the first of its tags
+ * they delegated, and otherwise their global one.
+ *
+ * Delegations are transitive: if A delegates to B and B to C, A votes like C.
+ * They are resolved when voting closes: every eligible user without a direct
+ * vote follows their chain to the first user who voted directly and gets a
+ * vote row with that choice, weighted by their own RC and marked with who
+ * cast it (`castById`) and the chain (`delegationPath`). A direct vote always
+ * wins over a delegation, and chains that loop or end without a direct vote
+ * cast nothing. Creating a delegation that would close a loop is rejected.
+ */
+
+export const normalizeTag = (tag: string | undefined | null) => (tag ?? "").trim().toLowerCase();
+
+// delegatorId -> (tag -> delegateId)
+export type Delegations = Map<string, Map<string, string>>;
+
+// The delegations that can apply to these tags
+async function loadDelegations(db: DbExecutor, tags: string[]): Promise<Delegations> {
+  const rows = await db
+    .select({ delegatorId: voteDelegations.delegatorId, delegateId: voteDelegations.delegateId, tag: voteDelegations.tag })
+    .from(voteDelegations)
+    .where(inArray(voteDelegations.tag, ["", ...tags]));
+
+  const byDelegator: Delegations = new Map();
+  for (const row of rows) {
+    const scopes = byDelegator.get(row.delegatorId) ?? new Map<string, string>();
+    scopes.set(row.tag, row.delegateId);
+    byDelegator.set(row.delegatorId, scopes);
+  }
+  return byDelegator;
+}
+
+// Who a user follows on a proposal with these (normalized) tags
+function delegateFor(delegations: Delegations, userId: string, tags: string[]) {
+  const scopes = delegations.get(userId);
+  if (!scopes) return undefined;
+  for (const tag of tags) {
+    const delegateId = scopes.get(tag);
+    if (delegateId) return delegateId;
+  }
+  return scopes.get("");
+}
+
+/**
+ * The loop a new delegation would close, as the chain of user ids from the
+ * delegate back to the delegator, or null. A global delegation is checked
+ * against global delegations only; a tag delegation against that tag, with
+ * global delegations filling in.
+ */
+export async function findDelegationCycle(db: DbExecutor, delegatorId: string, delegateId: string, tag: string) {
+  const delegations = await loadDelegations(db, tag ? [tag] : []);
+  const tags = tag ? [tag] : [];
+  const path = [delegatorId];
+  const seen = new Set(path);
+
+  for (let current: string | undefined = delegateId; current; current = delegateFor(delegations, current, tags)) {
+    path.push(current);
+    if (current === delegatorId) return path;
+    if (seen.has(current)) return null; // an existing loop that does not involve the delegator
+    seen.add(current);
+  }
+  return null;
+}
+
+/**
+ * Follow a user's delegation chain to the first user with a direct vote.
+ * Returns that user and the chain from the delegator to them, or null when
+ * the user does not delegate, the chain loops, or nobody down it voted.
+ */
+export function followDelegation(
+  delegations: Delegations,
+  choices: Map<string, unknown>,
+  userId: string,
+  tags: string[]
+): { castById: string; path: string[] } | null {
+  const path = [userId];
+  const seen = new Set(path);
+  let current = delegateFor(delegations, userId, tags);
+  while (current && !choices.has(current) && !seen.has(current)) {
+    path.push(current);
+    seen.add(current);
+    current = delegateFor(delegations, current, tags);
+  }
+  if (!current || !choices.has(current)) return null;
+
+  path.push(current);
+  return { castById: current, path };
+}
+
+/**
+ * Add the delegated votes of a proposal whose voting is closing. Call inside
+ * the closing transaction, before tallying. Returns how many votes were added.
+ */
+export async function resolveDelegatedVotes(db: DbExecutor, proposal: Proposal) {
+  const tags = (proposal.tags ?? []).map(normalizeTag).filter(Boolean);
+  const delegations = await loadDelegations(db, tags);
+  if (delegations.size === 0) return 0;
+
+  const direct = await db
+    .select({ voterId: proposalVotes.voterId, choice: proposalVotes.choice })
+    .from(proposalVotes)
+    .where(eq(proposalVotes.proposalId, proposal.id));
+  const choices = new Map(direct.map((vote) => [vote.voterId, vote.choice]));
+
+  // Delegators who may vote on this proposal, with the RC their vote carries
+  const delegators = await db
+    .select({ id: users.id, rc: users.reputationCredits })
+    .from(users)
+    .where(and(inArray(users.id, Array.from(delegations.keys())), gte(users.reputationCredits, proposal.minRcToVote)));
+
+  const now = new Date();
+  const votes: (typeof proposalVotes.$inferInsert)[] = [];
+  for (const delegator of delegators) {
+    if (choices.has(delegator.id)) continue; // voted directly
+
+    const resolved = followDelegation(delegations, choices, delegator.id, tags);
+    if (!resolved) continue; // loop, or nobody down the chain voted
+
+    const vote = {
+      proposalId: proposal.id,
+      voterId: delegator.id,
+      choice: choices.get(resolved.castById)!,
+      weightRc: delegator.rc ?? 0,
+    };
+    votes.push({
+      ...vote,
+      id: nanoid(),
+      castById: resolved.castById,
+      delegationPath: resolved.path,
+      receiptHash: voteReceiptHash({ ...vote, castAt: now }),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  if (votes.length === 0) return 0;
+
+  const added = await db.insert(proposalVotes).values(votes).onConflictDoNothing().returning();
+  if (added.length === 0) return 0;
+
+  await db.insert(proposalVoteHistory).values(
+    added.map((vote) => ({
+      id: nanoid(),
+      voteId: vote.id,
+      proposalId: vote.proposalId,
+      voterId: vote.voterId,
+      choice: vote.choice,
+      weightRc: vote.weightRc,
+      castById: vote.castById,
+      receiptHash: vote.receiptHash!,
+      castAt: now,
+    }))
+  );
+
+  const count = (choice: string) => added.filter((vote) => vote.choice === choice).length;
+  await db
+    .update(proposals)
+    .set({
+      votesFor: sql`${proposals.votesFor} + ${count("for")}`,
+      votesAgainst: sql`${proposals.votesAgainst} + ${count("against")}`,
+      votesAbstain: sql`${proposals.votesAbstain} + ${count("abstain")}`,
+      totalRcWeight: sql`${proposals.totalRcWeight} + ${added.reduce((sum, vote) => sum + vote.weightRc, 0)}`,
+      updatedAt: now,
+    })
+    .where(eq(proposals.id, proposal.id));
+
+  return added.length;
+}
@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+import type { Express, Request, Response } from "express";
+import { eq, and, gte, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDb, type DbExecutor } from "./db";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+import { postRc } from "./ledger";
+import { storageGet } from "./storage";
+import { isBotUserAgent, takeRateLimit } from "./tracking";
+import { resources, resourceDownloads, users, type Resource, type User } from "../drizzle/schema";
+import { DOWNLOAD_CONFIG, RC_CONFIG } from "@shared/const";
+
+/**
+ * Resource file downloads.
+ *
+ * `GET /api/resources/:id/download` is the only way to get at a resource's
+ * file: it checks that the caller may see the resource, records the download
+ * and redirects to a storage URL that expires after
+ * `DOWNLOAD_CONFIG.URL_TTL_SECONDS`. Stored file URLs are never returned to
+ * clients directly. Bots and rate-limited clients are not counted (see
+ * server/tracking.ts).
+ */
+
+// One-way hash so repeat downloads can be matched without storing IP addresses
+export function hashIp(ip: string | undefined): string | null {
+  if (!ip) return null;
+  return createHash("sha256").update(`${ENV.cookieSecret}:${ip}`).digest("hex");
+}
+
+// Approved resources are public; anything else only to its contributor and moderators
+export function canAccessResource(resource: Pick<Resource, "status" | "contributorId">, user: User | null) {
+  if (resource.status === "approved") return true;
+  if (!user) return false;
+  return resource.contributorId === user.id || ["moderator", "admin"].includes(user.role);
+}
+
+/**
+ * Record a download and credit the contributor. Only downloads of approved
+ * resources by someone other than the contributor count, and only once per
+ * user (or IP hash for anonymous downloads) within the dedup window.
+ * Returns whether the download was counted.
+ */
+export async function recordDownload(
+  db: DbExecutor,
+  download: { resourceId: string; userId: string | null; ipHash: string | null }
+) {
+  return db.transaction(async (tx) => {
+    // Lock the resource so concurrent requests from the same client dedupe correctly
+    const [resource] = await tx
+      .select({ status: resources.status, contributorId: resources.contributorId })
+      .from(resources)
+      .where(eq(resources.id, download.resourceId))
+      .for("update");
+
+    if (!resource || resource.status !== "approved" || resource.contributorId === download.userId) {
+      return false;
+    }
+
+    const downloader = download.userId
+      ? eq(resourceDownloads.userId, download.userId)
+      : download.ipHash
+        ? eq(resourceDownloads.ipHash, download.ipHash)
+        : undefined;
+    if (!downloader) return false;
+
+    const since = new Date(Date.now() - DOWNLOAD_CONFIG.DEDUP_WINDOW_MS);
+    const [recent] = await tx
+      .select({ id: resourceDownloads.id })
+      .from(resourceDownloads)
+      .where(
+        and(eq(resourceDownloads.resourceId, download.resourceId), downloader, gte(resourceDownloads.createdAt, since))
+      )
+      .limit(1);
+    if (recent) return false;
+
+    const downloadId = nanoid();
+    await tx.insert(resourceDownloads).values({
+      id: downloadId,
+      resourceId: download.resourceId,
+      userId: download.userId,
+      ipHash: download.ipHash,
+    });
+
+    await tx
+      .update(resources)
+      .set({ downloadCount: sql`${resources.downloadCount} + 1` })
+      .where(eq(resources.id, download.resourceId));
+
+    await tx
+      .update(users)
+      .set({ totalDownloadsReceived: sql`${users.totalDownloadsReceived} + 1` })
+      .where(eq(users.id, resource.contributorId));
+
+    await postRc(tx, {
+      userId: resource.contributorId,
+      amount: RC_CONFIG.RESOURCE_DOWNLOAD,
+      reason: "resource_upvoted", // Using upvoted as closest match
+      referenceType: "resource_download",
+      referenceId: downloadId,
+    });
+
+    return true;
+  });
+}
+
+// Short-lived URL for the resource's file; legacy resources without a storage key keep their stored URL
+async function fileUrlFor(resource: Pick<Resource, "fileKey" | "fileUrl">) {
+  if (resource.fileKey) {
+    return (await storageGet(resource.fileKey, DOWNLOAD_CONFIG.URL_TTL_SECONDS)).url;
+  }
+  return resource.fileUrl;
+}
+
+async function optionalUser(req: Request): Promise<User | null> {
+  try {
+    return await sdk.authenticateRequest(req);
+  } catch {
+    return null;
+  }
+}
+
+export function registerDownloadRoutes(app: Express) {
+  app.get("/api/resources/:id/download", async (req: Request, res: Response) => {
+    try {
+      const db = await getDb();
+      if (!db) {
+        res.status(500).json({ error: "Database not available" });
+        return;
+      }
+
+      const [resource] = await db
+        .select({
+          id: resources.id,
+          status: resources.status,
+          contributorId: resources.contributorId,
+          fileKey: resources.fileKey,
+          fileUrl: resources.fileUrl,
+        })
+        .from(resources)
+        .where(eq(resources.id, req.params.id));
+
+      const user = await optionalUser(req);
+
+      // Resources the caller may not see are reported as missing
+      if (!resource || !canAccessResource(resource, user)) {
+        res.status(404).json({ error: "Resource not found" });
+        return;
+      }
+
+      const url = await fileUrlFor(resource);
+      if (!url) {
+        res.status(404).json({ error: "This resource has no file" });
+        return;
+      }
+
+      // Crawlers, scripts and clients over the rate limit still get the file, but are not
+      // counted or credited (clients behind one NAT share an IP hash)
+      const client = { userId: user?.id ?? null, ipHash: hashIp(req.ip) };
+      if (!isBotUserAgent(req.get("user-agent")) && (await takeRateLimit(db, "download", client))) {
+        await recordDownload(db, { resourceId: resource.id, ...client });
+      }
+
+      res.set("Cache-Control", "no-store");
+      res.redirect(302, url);
+    } catch (error) {
+      console.error("[Downloads] Download failed", error);
+      res.status(500).json({ error: "Download failed" });
+    }
+  });
+}
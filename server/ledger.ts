@@ -0,0 +1,298 @@
+import { eq, and, asc, gt, inArray } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { TRPCError } from "@trpc/server";
+import type { DbExecutor, DbInstance } from "./db";
+import { users, rcTransactions, type RcTransaction } from "../drizzle/schema";
+import { CONTRIBUTOR_LEVELS } from "@shared/const";
+
+/**
+ * Reputation Credits ledger.
+ *
+ * Every change to `users.reputationCredits` goes through `postRc`, which locks
+ * the user row, applies the amount, recomputes `contributorLevel` and appends
+ * the `rcTransactions` row in a single database transaction. Postings that carry
+ * a reference are idempotent on (reason, referenceType, referenceId): posting
+ * the same key twice returns the original entry instead of paying out again.
+ */
+
+export type RcReason = RcTransaction["reason"];
+export type ContributorLevel = keyof typeof CONTRIBUTOR_LEVELS;
+
+export type RcPosting = {
+  userId: string;
+  amount: number;
+  reason: RcReason;
+  referenceType?: string;
+  referenceId?: string;
+  meta?: Record<string, unknown>;
+};
+
+export type RcPostingResult = {
+  transactionId: string;
+  balanceAfter: number;
+  contributorLevel: ContributorLevel;
+  // false when the posting key already existed and nothing was written
+  applied: boolean;
+};
+
+// Calculate contributor level from RC
+export function getContributorLevel(rc: number): ContributorLevel {
+  for (const [level, range] of Object.entries(CONTRIBUTOR_LEVELS)) {
+    if (rc >= range.min && rc <= range.max) {
+      return level as ContributorLevel;
+    }
+  }
+  return "newcomer";
+}
+
+// Look up an existing posting by its idempotency key
+export async function findPosting(
+  db: DbExecutor,
+  reason: RcReason,
+  referenceType: string,
+  referenceId: string
+) {
+  const [existing] = await db
+    .select()
+    .from(rcTransactions)
+    .where(
+      and(
+        eq(rcTransactions.reason, reason),
+        eq(rcTransactions.referenceType, referenceType),
+        eq(rcTransactions.referenceId, referenceId)
+      )
+    );
+
+  return existing;
+}
+
+// Post a single RC entry atomically. Safe to call inside an outer transaction.
+export async function postRc(db: DbExecutor, posting: RcPosting): Promise<RcPostingResult> {
+  const hasKey = posting.referenceType !== undefined && posting.referenceId !== undefined;
+
+  return db.transaction(async (tx) => {
+    // Lock the user row so concurrent postings serialize and balanceAfter stays continuous
+    const [user] = await tx
+      .select({ rc: users.reputationCredits })
+      .from(users)
+      .where(eq(users.id, posting.userId))
+      .for("update");
+
+    if (!user) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+    }
+
+    if (hasKey) {
+      const existing = await findPosting(tx, posting.reason, posting.referenceType!, posting.referenceId!);
+      if (existing) {
+        return {
+          transactionId: existing.id,
+          balanceAfter: existing.balanceAfter,
+          contributorLevel: getContributorLevel(user.rc),
+          applied: false,
+        };
+      }
+    }
+
+    const balanceAfter = user.rc + posting.amount;
+    const contributorLevel = getContributorLevel(balanceAfter);
+    const transactionId = nanoid();
+
+    await tx
+      .update(users)
+      .set({ reputationCredits: balanceAfter, contributorLevel, updatedAt: new Date() })
+      .where(eq(users.id, posting.userId));
+
+    await tx.insert(rcTransactions).values({
+      id: transactionId,
+      userId: posting.userId,
+      amount: posting.amount,
+      reason: posting.reason,
+      referenceType: posting.referenceType,
+      referenceId: posting.referenceId,
+      meta: posting.meta ?? {},
+      balanceAfter,
+    });
+
+    return { transactionId, balanceAfter, contributorLevel, applied: true };
+  });
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+export type ChainBreak = {
+  transactionId: string;
+  expectedBalanceAfter: number;
+  actualBalanceAfter: number;
+};
+
+export type LedgerDiscrepancy = {
+  userId: string;
+  storedBalance: number;
+  ledgerBalance: number; // sum of rcTransactions.amount
+  drift: number; // storedBalance - ledgerBalance
+  chainBreaks: ChainBreak[];
+  repairTransactionId?: string;
+};
+
+export type ReconcileOptions = {
+  userId?: string;
+  repair?: boolean;
+  repairedBy?: string;
+  batchSize?: number;
+};
+
+type LedgerRow = Pick<RcTransaction, "id" | "amount" | "reason" | "meta" | "balanceAfter">;
+
+// Corrective entries written by a repair restart the balanceAfter chain
+function isReconciliationEntry(row: LedgerRow) {
+  return row.reason === "manual_adjustment" && row.meta?.reconciliation === true;
+}
+
+// Check one user's ledger rows (in posting order) against the stored balance
+function checkLedger(userId: string, storedBalance: number, rows: LedgerRow[]): LedgerDiscrepancy | null {
+  let ledgerBalance = 0;
+  let previous: number | null = null;
+  let chainBreaks: ChainBreak[] = [];
+
+  for (const row of rows) {
+    ledgerBalance += row.amount;
+
+    if (isReconciliationEntry(row)) {
+      // Breaks before a corrective entry are recorded in its meta
+      chainBreaks = [];
+    } else {
+      const expected = (previous ?? 0) + row.amount;
+      if (row.balanceAfter !== expected) {
+        chainBreaks.push({
+          transactionId: row.id,
+          expectedBalanceAfter: expected,
+          actualBalanceAfter: row.balanceAfter,
+        });
+      }
+    }
+
+    previous = row.balanceAfter;
+  }
+
+  const drift = storedBalance - ledgerBalance;
+  const lastBalanceAfter = previous ?? 0;
+  if (drift === 0 && chainBreaks.length === 0 && lastBalanceAfter === storedBalance) {
+    return null;
+  }
+
+  return { userId, storedBalance, ledgerBalance, drift, chainBreaks };
+}
+
+async function loadLedgerRows(db: DbExecutor, userIds: string[]) {
+  const rows = await db
+    .select({
+      id: rcTransactions.id,
+      userId: rcTransactions.userId,
+      amount: rcTransactions.amount,
+      reason: rcTransactions.reason,
+      meta: rcTransactions.meta,
+      balanceAfter: rcTransactions.balanceAfter,
+    })
+    .from(rcTransactions)
+    .where(inArray(rcTransactions.userId, userIds))
+    .orderBy(asc(rcTransactions.seq));
+
+  const byUser = new Map<string, LedgerRow[]>();
+  for (const row of rows) {
+    const list = byUser.get(row.userId) ?? [];
+    list.push(row);
+    byUser.set(row.userId, list);
+  }
+  return byUser;
+}
+
+/**
+ * Re-check a single user under a row lock and append a corrective
+ * `manual_adjustment` entry. The stored balance is kept as the source of truth
+ * (it is what RC-gated procedures and vote weights were computed from); the
+ * entry's amount brings the ledger sum back in line with it.
+ */
+async function repairUser(db: DbInstance, userId: string, repairedBy?: string) {
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .select({ rc: users.reputationCredits })
+      .from(users)
+      .where(eq(users.id, userId))
+      .for("update");
+    if (!user) return null;
+
+    const rows = (await loadLedgerRows(tx, [userId])).get(userId) ?? [];
+    const discrepancy = checkLedger(userId, user.rc, rows);
+    if (!discrepancy) return null;
+
+    const transactionId = nanoid();
+    await tx.insert(rcTransactions).values({
+      id: transactionId,
+      userId,
+      amount: discrepancy.drift,
+      reason: "manual_adjustment",
+      meta: {
+        reconciliation: true,
+        storedBalance: discrepancy.storedBalance,
+        ledgerBalance: discrepancy.ledgerBalance,
+        drift: discrepancy.drift,
+        chainBreaks: discrepancy.chainBreaks,
+        reconciledThrough: rows[rows.length - 1]?.id ?? null,
+        repairedBy: repairedBy ?? null,
+      },
+      balanceAfter: user.rc,
+    });
+
+    return { ...discrepancy, repairTransactionId: transactionId };
+  });
+}
+
+/**
+ * Scan the ledger and report every user whose stored balance differs from the
+ * sum of their postings, or whose balanceAfter chain is not continuous.
+ * With `repair`, each mismatch gets a corrective entry.
+ */
+export async function reconcileLedger(db: DbInstance, options: ReconcileOptions = {}) {
+  const batchSize = options.batchSize ?? 200;
+  const discrepancies: LedgerDiscrepancy[] = [];
+  let usersScanned = 0;
+  let lastUserId: string | undefined;
+
+  while (true) {
+    const conditions = [];
+    if (options.userId) conditions.push(eq(users.id, options.userId));
+    if (lastUserId) conditions.push(gt(users.id, lastUserId));
+
+    const batch = await db
+      .select({ id: users.id, rc: users.reputationCredits })
+      .from(users)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(users.id))
+      .limit(batchSize);
+
+    if (batch.length === 0) break;
+    usersScanned += batch.length;
+    lastUserId = batch[batch.length - 1].id;
+
+    const rowsByUser = await loadLedgerRows(db, batch.map((u) => u.id));
+
+    for (const user of batch) {
+      const discrepancy = checkLedger(user.id, user.rc, rowsByUser.get(user.id) ?? []);
+      if (!discrepancy) continue;
+
+      if (options.repair) {
+        const repaired = await repairUser(db, user.id, options.repairedBy);
+        if (repaired) discrepancies.push(repaired);
+      } else {
+        discrepancies.push(discrepancy);
+      }
+    }
+
+    if (batch.length < batchSize) break;
+  }
+
+  return { usersScanned, repaired: options.repair ?? false, discrepancies };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { extractMentionIds, renderMarkdown } from "./markdown";
+
+const ALLOWED_TAGS = new Set(["p", "br", "pre", "code", "blockquote", "ul", "ol", "li", "strong", "em", "del", "a", "span"]);
+const ALLOWED_ATTRIBUTES = new Set(["href", "target", "rel", "class", "data-user-id"]);
+
+// Every tag in the output must be one the renderer emits, with only its own attributes
+function assertSafe(html: string) {
+  const tagPattern = /<(\/?)([^\s>/]*)([^>]*)>/g;
+  for (let match = tagPattern.exec(html); match; match = tagPattern.exec(html)) {
+    const [, , name, rest] = match;
+    expect(ALLOWED_TAGS, `tag <${name}> in ${html}`).toContain(name.toLowerCase());
+
+    const attributePattern = /\s([^\s=]+)="([^"]*)"/g;
+    let consumed = "";
+    for (let attribute = attributePattern.exec(rest); attribute; attribute = attributePattern.exec(rest)) {
+      expect(ALLOWED_ATTRIBUTES, `attribute ${attribute[1]} in ${html}`).toContain(attribute[1]);
+      if (attribute[1] === "href") expect(attribute[2]).toMatch(/^https?:\/\//);
+      consumed += attribute[0];
+    }
+    // Nothing but well-formed, quoted attributes inside the tag
+    expect(rest.replace(/\s*\/$/, "")).toBe(consumed);
+  }
+  // Outside of tags, no markup characters survive unescaped
+  expect(html.replace(tagPattern, "")).not.toMatch(/[<>]/);
+}
+
+const XSS_CORPUS = [
+  "<script>alert(1)</script>",
+  "<img src=x onerror=alert(1)>",
+  "<svg/onload=alert(1)>",
+  "<a href=\"javascript:alert(1)\">click</a>",
+  "[click](javascript:alert(1))",
+  "[click](JaVaScRiPt:alert(1))",
+  "[click](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)",
+  "[click](https://example.com\"onmouseover=\"alert(1))",
+  "[click](https://example.com'onmouseover='alert(1))",
+  "[x\"><script>alert(1)</script>](https://example.com)",
+  "https://example.com/\"><script>alert(1)</script>",
+  "https://example.com/<img/src=x/onerror=alert(1)>",
+  "`<script>alert(1)</script>`",
+  "```\n<script>alert(1)</script>\n```",
+  "> <iframe src=https://evil.example></iframe>",
+  "- <b onclick=alert(1)>item</b>",
+  "1. <style>body{display:none}</style>",
+  "**<script>alert(1)</script>**",
+  "*<img src=x onerror=alert(1)>*",
+  "_<svg onload=alert(1)>_",
+  "~~<math><mi xlink:href=\"javascript:alert(1)\">x</mi></math>~~",
+  "@[<img src=x onerror=alert(1)>](user-1)",
+  "@[Name](user-1\"onmouseover=\"alert(1))",
+  "\u0001" + "0" + "\u0002<script>alert(1)</script>",
+  "&lt;script&gt;alert(1)&lt;/script&gt;",
+  "<!-- comment --><script>alert(1)</script>",
+  "[**bold link**](https://example.com/a_b_c*d*e)",
+  "see http://a[x](https://b/onmouseover=location=name//)",
+  "http://a@[Name](user-1)onmouseover=alert(1)//",
+  "http://a`code`onmouseover=alert(1)//",
+  "https://a[x](https://b/)[y](https://c/onmouseover=alert(1)//)",
+];
+
+describe("renderMarkdown XSS corpus", () => {
+  const mentions = new Map([["user-1", "<b>Evil</b> Name\" onmouseover=\"alert(1)"]]);
+
+  it.each(XSS_CORPUS)("renders %j safely", (source) => {
+    assertSafe(renderMarkdown(source));
+    assertSafe(renderMarkdown(source, { mentions }));
+  });
+
+  it("keeps raw HTML as visible text", () => {
+    expect(renderMarkdown("<script>alert(1)</script>")).toBe("<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>");
+  });
+
+  it("only links http(s) URLs", () => {
+    expect(renderMarkdown("[click](javascript:alert(1))")).not.toContain("<a");
+    expect(renderMarkdown("[click](https://example.com)")).toBe(
+      '<p><a href="https://example.com" target="_blank" rel="nofollow ugc noopener noreferrer">click</a></p>'
+    );
+  });
+
+  it("escapes resolved mention names", () => {
+    const html = renderMarkdown("hi @[Someone](user-1)", { mentions });
+    expect(html).toContain('data-user-id="user-1"');
+    expect(html).toContain("@&lt;b&gt;Evil&lt;/b&gt; Name&quot; onmouseover=&quot;alert(1)");
+  });
+});
+
+describe("renderMarkdown formatting", () => {
+  it("renders inline styles", () => {
+    expect(renderMarkdown("**bold** *em* _em_ ~~gone~~ `x < y`")).toBe(
+      "<p><strong>bold</strong> <em>em</em> <em>em</em> <del>gone</del> <code>x &lt; y</code></p>"
+    );
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(renderMarkdown("snake_case_name")).toBe("<p>snake_case_name</p>");
+  });
+
+  it("renders blocks", () => {
+    expect(renderMarkdown("para one\nline two\n\n- a\n- b\n\n1. first\n\n> quoted")).toBe(
+      "<p>para one<br>line two</p><ul><li>a</li><li>b</li></ul><ol><li>first</li></ol><blockquote>quoted</blockquote>"
+    );
+  });
+
+  it("does not format inside code", () => {
+    expect(renderMarkdown("```\n**not bold**\n```")).toBe("<pre><code>**not bold**</code></pre>");
+  });
+
+  it("renders unresolved mentions as plain text", () => {
+    expect(renderMarkdown("@[Ghost](missing)")).toBe("<p>@Ghost</p>");
+  });
+});
+
+describe("extractMentionIds", () => {
+  it("returns each mentioned id once", () => {
+    expect(extractMentionIds("@[A](u1) and @[B](u2) and @[A again](u1)")).toEqual(["u1", "u2"]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Small, safe markdown renderer for user-written text (comments).
+ *
+ * All input is HTML-escaped first and only the tags produced here are ever
+ * emitted, so the output can be inserted with dangerouslySetInnerHTML.
+ *
+ * Supported:
+ *   blocks   paragraphs, ``` fenced code ```, > quotes, - / * and 1. lists
+ *   inline   `code`, **bold**, *italic* / _italic_, ~~strike~~,
+ *            [text](https://…), bare http(s) links, @[Name](userId) mentions
+ *
+ * Mentions are inserted by the comment box's autocomplete; they render only
+ * when the id is in `mentions` (i.e. resolved to an existing user).
+ */
+
+export type MarkdownOptions = {
+  // userId -> display name for mentions that resolved
+  mentions?: Map<string, string>;
+};
+
+const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([\w-]{1,64})\)/g;
+
+// User ids referenced by mention tokens in the source
+export function extractMentionIds(source: string): string[] {
+  const ids = new Set<string>();
+  const pattern = new RegExp(MENTION_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) ids.add(match[2]);
+  return Array.from(ids);
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Placeholders keep already-rendered HTML away from later inline rules
+const SLOT_START = "\u0001";
+const SLOT_END = "\u0002";
+
+function renderInline(text: string, options: MarkdownOptions): string {
+  const slots: string[] = [];
+  const hold = (html: string) => `${SLOT_START}${slots.push(html) - 1}${SLOT_END}`;
+
+  let out = escapeHtml(text.replace(/[\u0001\u0002]/g, ""));
+
+  out = out.replace(/`([^`\n]+)`/g, (_, code: string) => hold(`<code>${code}</code>`));
+
+  out = out.replace(MENTION_PATTERN, (raw, name: string, id: string) => {
+    const resolved = options.mentions?.get(id);
+    if (resolved === undefined) return `@${name}`;
+    return hold(`<span class="mention" data-user-id="${escapeHtml(id)}">@${escapeHtml(resolved)}</span>`);
+  });
+
+  // The text is already escaped, so URLs here contain &amp; where they had &, as an attribute needs
+  const link = (href: string, label: string) =>
+    hold(`<a href="${href}" target="_blank" rel="nofollow ugc noopener noreferrer">${label}</a>`);
+
+  out = out.replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, href: string) => link(href, label));
+  // Placeholders never belong to a bare URL: restoring one inside href would break out of it
+  out = out.replace(/\bhttps?:\/\/[^\s<\u0001\u0002]+[^\s<.,;:!?)\]'"\u0001\u0002]/g, (href) => link(href, href));
+
+  out = out
+    .replace(/\*\*(?=\S)([^*]*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*\w])\*(?=\S)([^*]*?\S)\*(?![*\w])/g, "$1<em>$2</em>")
+    .replace(/(^|[^_\w])_(?=\S)([^_]*?\S)_(?![_\w])/g, "$1<em>$2</em>")
+    .replace(/~~(?=\S)([^~]*?\S)~~/g, "<del>$1</del>");
+
+  // Slots can nest (a mention inside link text), so restore until none are left
+  const slotPattern = new RegExp(`${SLOT_START}(\\d+)${SLOT_END}`, "g");
+  while (slotPattern.test(out)) {
+    out = out.replace(slotPattern, (_, index: string) => slots[Number(index)]);
+  }
+  return out;
+}
+
+type Block =
+  | { type: "code"; lines: string[] }
+  | { type: "quote"; lines: string[] }
+  | { type: "ul" | "ol"; items: string[] }
+  | { type: "paragraph"; lines: string[] };
+
+const UNORDERED_ITEM = /^\s*[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d{1,3}[.)]\s+(.*)$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let current = null as Block | null;
+
+  const flush = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*```/.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: "code", lines: code });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flush();
+      continue;
+    }
+
+    const quote = line.match(QUOTE_LINE);
+    const unordered = line.match(UNORDERED_ITEM);
+    const ordered = line.match(ORDERED_ITEM);
+
+    if (quote) {
+      if (current?.type !== "quote") flush();
+      current ??= { type: "quote", lines: [] };
+      (current as Extract<Block, { type: "quote" }>).lines.push(quote[1]);
+    } else if (unordered || ordered) {
+      const type = unordered ? "ul" : "ol";
+      if (current?.type !== type) flush();
+      current ??= { type, items: [] };
+      (current as Extract<Block, { type: "ul" | "ol" }>).items.push((unordered ?? ordered)![1]);
+    } else if (current?.type === "paragraph") {
+      current.lines.push(line);
+    } else {
+      flush();
+      current = { type: "paragraph", lines: [line] };
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+export function renderMarkdown(source: string, options: MarkdownOptions = {}): string {
+  return parseBlocks(source)
+    .map((block) => {
+      switch (block.type) {
+        case "code":
+          return `<pre><code>${escapeHtml(block.lines.join("\n"))}</code></pre>`;
+        case "quote":
+          return `<blockquote>${block.lines.map((l) => renderInline(l, options)).join("<br>")}</blockquote>`;
+        case "ul":
+        case "ol":
+          return `<${block.type}>${block.items.map((item) => `<li>${renderInline(item, options)}</li>`).join("")}</${block.type}>`;
+        case "paragraph":
+          return `<p>${block.lines.map((l) => renderInline(l, options)).join("<br>")}</p>`;
+      }
+    })
+    .join("");
+}
@@ -0,0 +1,105 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { TRPCError } from "@trpc/server";
+
+/**
+ * Keyset pagination shared by every list procedure.
+ *
+ * Results are ordered by a sort key plus the row id as a tie-breaker, and the
+ * cursor records both values of the last row returned. The next page starts
+ * strictly after that (key, id) pair, so rows inserted in the meantime never
+ * shift or repeat a page the way OFFSET paging would.
+ *
+ * Cursors are opaque base64url strings. They also record the sort mode, so a
+ * cursor from one ordering cannot be replayed against another.
+ *
+ * Usage:
+ *   const keyset: Keyset = { sort: "newest", key: resources.createdAt, id: resources.id, direction: "desc" };
+ *   const rows = await db
+ *     .select({ ...fields, cursorKey: keysetCursorKey(keyset) })
+ *     .from(resources)
+ *     .where(and(...conditions, keysetAfter(keyset, input.cursor)))
+ *     .orderBy(...keysetOrderBy(keyset))
+ *     .limit(input.limit + 1);
+ *   return paginate(rows, input.limit, keyset);
+ */
+
+export type Keyset = {
+  // Name of the sort mode; must match the one the cursor was issued for
+  sort: string;
+  // Column or expression to order by (must be NOT NULL)
+  key: AnyPgColumn | SQL;
+  // Unique tie-breaker
+  id: AnyPgColumn;
+  direction: "asc" | "desc";
+};
+
+type CursorPayload = {
+  s: string; // sort mode
+  k: string; // sort key as Postgres text
+  i: string; // row id
+};
+
+export function encodeCursor(payload: CursorPayload) {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof payload?.s === "string" && typeof payload?.k === "string" && typeof payload?.i === "string") {
+      return payload;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor" });
+}
+
+/**
+ * Select this alongside the row fields as `cursorKey`. The key is read back as
+ * Postgres text so timestamps keep their microseconds and floats round-trip
+ * exactly when the cursor is compared on the next request.
+ */
+export function keysetCursorKey(keyset: Keyset) {
+  return sql<string>`(${keyset.key})::text`;
+}
+
+// ORDER BY clauses for the keyset: sort key, then id in the same direction
+export function keysetOrderBy(keyset: Keyset): SQL[] {
+  return keyset.direction === "asc"
+    ? [sql`${keyset.key} ASC`, sql`${keyset.id} ASC`]
+    : [sql`${keyset.key} DESC`, sql`${keyset.id} DESC`];
+}
+
+// WHERE condition selecting rows after the cursor (undefined on the first page)
+export function keysetAfter(keyset: Keyset, cursor: string | undefined): SQL | undefined {
+  if (!cursor) return undefined;
+
+  const payload = decodeCursor(cursor);
+  if (payload.s !== keyset.sort) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Cursor does not match the requested sort" });
+  }
+
+  // Row comparison; the text key is coerced to the key's own type by Postgres
+  return keyset.direction === "asc"
+    ? sql`(${keyset.key}, ${keyset.id}) > (${payload.k}, ${payload.i})`
+    : sql`(${keyset.key}, ${keyset.id}) < (${payload.k}, ${payload.i})`;
+}
+
+/**
+ * Trim the extra look-ahead row (query with `limit + 1`), strip `cursorKey`
+ * from the items and build the cursor for the next page.
+ */
+export function paginate<T extends { id: string; cursorKey: string }>(rows: T[], limit: number, keyset: Keyset) {
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  const items = page.map(({ cursorKey: _cursorKey, ...item }) => item);
+
+  return {
+    items,
+    nextCursor: hasMore && last ? encodeCursor({ s: keyset.sort, k: last.cursorKey, i: last.id }) : undefined,
+  };
+}
@@ -0,0 +1,264 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { storagePut } from "./storage";
+import type { FilePreview, Resource } from "../drizzle/schema";
+import { PREVIEW_CONFIG } from "@shared/const";
+
+/**
+ * Preview artifacts for uploaded files, generated once when an upload
+ * completes and stored under `public/previews/<uploadId>/`.
+ *
+ *   pdf, doc, ppt  page images and page thumbnails (poppler's `pdftoppm`;
+ *                  office files are converted to PDF with LibreOffice first)
+ *   image, video   a scaled-down still (`ffmpeg`)
+ *   zip            the archive's file listing (read directly, no tools needed)
+ *
+ * The command-line tools are optional. When one is not installed the preview
+ * is simply left out and the detail page falls back to embedding the file or
+ * showing the download button only.
+ */
+
+type ResourceType = Resource["resourceType"];
+
+const run = promisify(execFile);
+
+// Tools found missing, so we only warn once per process
+const missingTools = new Set<string>();
+
+async function runTool(command: string, args: string[], cwd?: string): Promise<boolean> {
+  if (missingTools.has(command)) return false;
+  try {
+    await run(command, args, { cwd, timeout: PREVIEW_CONFIG.TOOL_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      missingTools.add(command);
+      console.warn(`[Previews] ${command} is not installed; skipping previews that need it`);
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function putArtifact(key: string, filePath: string, contentType: string) {
+  return (await storagePut(key, await fs.promises.readFile(filePath), contentType)).url;
+}
+
+// ============================================================================
+// PAGES (PDF, office documents)
+// ============================================================================
+
+// Rendered files are named <prefix>-<page>.png, zero-padded to the page count's width
+async function renderedPages(dir: string, prefix: string) {
+  const files = await fs.promises.readdir(dir);
+  return files
+    .filter((name) => name.startsWith(`${prefix}-`) && name.endsWith(".png"))
+    .sort((a, b) => parseInt(a.slice(prefix.length + 1), 10) - parseInt(b.slice(prefix.length + 1), 10));
+}
+
+async function countPdfPages(pdfPath: string, workDir: string) {
+  try {
+    const { stdout } = await run("pdfinfo", [pdfPath], { cwd: workDir, timeout: PREVIEW_CONFIG.TOOL_TIMEOUT_MS });
+    const match = stdout.match(/^Pages:\s+(\d+)/m);
+    return match ? parseInt(match[1], 10) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function pdfPreview(pdfPath: string, workDir: string, keyPrefix: string): Promise<FilePreview | null> {
+  const pageRange = ["-f", "1", "-l", String(PREVIEW_CONFIG.MAX_PAGES)];
+  const rendered =
+    (await runTool("pdftoppm", ["-png", ...pageRange, "-scale-to", String(PREVIEW_CONFIG.PAGE_WIDTH), pdfPath, "page"], workDir)) &&
+    (await runTool("pdftoppm", ["-png", ...pageRange, "-scale-to", String(PREVIEW_CONFIG.THUMBNAIL_WIDTH), pdfPath, "thumb"], workDir));
+  if (!rendered) return null;
+
+  const pageFiles = await renderedPages(workDir, "page");
+  const thumbFiles = await renderedPages(workDir, "thumb");
+
+  const pages: NonNullable<FilePreview["pages"]> = [];
+  for (let i = 0; i < pageFiles.length; i++) {
+    pages.push({
+      url: await putArtifact(`${keyPrefix}/page-${i + 1}.png`, path.join(workDir, pageFiles[i]), "image/png"),
+      thumbnailUrl: await putArtifact(`${keyPrefix}/thumb-${i + 1}.png`, path.join(workDir, thumbFiles[i] ?? pageFiles[i]), "image/png"),
+    });
+  }
+  if (pages.length === 0) return null;
+
+  return { pages, pageCount: (await countPdfPages(pdfPath, workDir)) ?? pages.length };
+}
+
+// LibreOffice picks its import filter from the extension, so keep the original one
+async function officeToPdf(filePath: string, fileName: string, workDir: string) {
+  const input = path.join(workDir, `document${path.extname(fileName).toLowerCase() || ".bin"}`);
+  await fs.promises.copyFile(filePath, input);
+
+  const converted = await runTool(
+    "soffice",
+    ["--headless", "--norestore", `-env:UserInstallation=file://${path.join(workDir, "profile")}`, "--convert-to", "pdf", "--outdir", workDir, input],
+    workDir
+  );
+  const output = path.join(workDir, "document.pdf");
+  return converted && fs.existsSync(output) ? output : null;
+}
+
+// ============================================================================
+// STILLS (images, video)
+// ============================================================================
+
+// Write one frame scaled to at most `width` px; for videos, one second in (or the first frame of very short clips)
+async function grabFrame(filePath: string, output: string, width: number, isVideo: boolean) {
+  const scale = `scale='min(${width},iw)':-2`;
+  const seek = isVideo ? ["-ss", "1"] : [];
+
+  if (!(await runTool("ffmpeg", ["-y", "-loglevel", "error", ...seek, "-i", filePath, "-frames:v", "1", "-vf", scale, output]))) {
+    return false;
+  }
+  if (!fs.existsSync(output) && isVideo) {
+    await runTool("ffmpeg", ["-y", "-loglevel", "error", "-i", filePath, "-frames:v", "1", "-vf", scale, output]);
+  }
+  return fs.existsSync(output);
+}
+
+async function stillPreview(filePath: string, workDir: string, keyPrefix: string, isVideo: boolean): Promise<FilePreview | null> {
+  const output = path.join(workDir, "poster.jpg");
+  if (!(await grabFrame(filePath, output, PREVIEW_CONFIG.POSTER_WIDTH, isVideo))) return null;
+
+  return { posterUrl: await putArtifact(`${keyPrefix}/poster.jpg`, output, "image/jpeg") };
+}
+
+// ============================================================================
+// ZIP LISTING
+// ============================================================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * List a ZIP archive from its central directory. ZIP64 archives (over 4GB or
+ * 65,535 entries) are not supported and return null.
+ */
+export async function listZipEntries(filePath: string): Promise<FilePreview | null> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const tailLength = Math.min(size, EOCD_MIN_SIZE + MAX_COMMENT_SIZE);
+    const tail = await readAt(handle, size - tailLength, tailLength);
+
+    let eocd = -1;
+    for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) return null;
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff || directoryOffset + directorySize > size) {
+      return null;
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries: NonNullable<FilePreview["entries"]> = [];
+    let offset = 0;
+
+    while (entries.length < PREVIEW_CONFIG.MAX_ZIP_ENTRIES && offset + 46 <= directory.length) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) break;
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const uncompressedSize = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      // Bit 11: name is UTF-8, otherwise CP437 (read as latin1, close enough for a listing)
+      const name = directory.toString(flags & 0x800 ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength);
+
+      entries.push({ path: name, size: uncompressedSize, isDirectory: name.endsWith("/") });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return { entries, entryCount };
+  } finally {
+    await handle.close();
+  }
+}
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+/**
+ * Render a card thumbnail from a PDF's first page or an image or video frame
+ * and store it at `key` (without extension). Returns null for other types or
+ * when the needed tool is missing.
+ */
+export async function renderThumbnail(filePath: string, mimeType: string, key: string, width: number) {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "apex-thumb-"));
+  try {
+    if (mimeType === "application/pdf") {
+      const rendered = await runTool(
+        "pdftoppm",
+        ["-png", "-singlefile", "-f", "1", "-l", "1", "-scale-to", String(width), filePath, "thumb"],
+        workDir
+      );
+      const output = path.join(workDir, "thumb.png");
+      return rendered && fs.existsSync(output) ? putArtifact(`${key}.png`, output, "image/png") : null;
+    }
+    if (mimeType.startsWith("image/") || mimeType.startsWith("video/")) {
+      const output = path.join(workDir, "thumb.jpg");
+      const grabbed = await grabFrame(filePath, output, width, mimeType.startsWith("video/"));
+      return grabbed ? putArtifact(`${key}.jpg`, output, "image/jpeg") : null;
+    }
+    return null;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Generate preview artifacts for a completed upload. Never throws: a failed
+ * preview must not fail the upload.
+ */
+export async function generatePreview(
+  filePath: string,
+  file: { uploadId: string; fileName: string; resourceType: ResourceType; mimeType: string }
+): Promise<FilePreview | null> {
+  const keyPrefix = `public/previews/${file.uploadId}`;
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "apex-preview-"));
+
+  try {
+    if (file.mimeType === "application/pdf") {
+      return await pdfPreview(filePath, workDir, keyPrefix);
+    }
+    if (file.resourceType === "doc" || file.resourceType === "ppt") {
+      const pdf = await officeToPdf(filePath, file.fileName, workDir);
+      return pdf ? await pdfPreview(pdf, workDir, keyPrefix) : null;
+    }
+    if (file.mimeType.startsWith("image/") || file.mimeType.startsWith("video/")) {
+      return await stillPreview(filePath, workDir, keyPrefix, file.mimeType.startsWith("video/"));
+    }
+    if (file.mimeType === "application/zip" || file.resourceType === "zip") {
+      return await listZipEntries(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error(`[Previews] Preview failed for upload ${file.uploadId}`, error);
+    return null;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
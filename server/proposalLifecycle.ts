@@ -0,0 +1,443 @@
+import os from "os";
+import { EventEmitter } from "events";
+import { eq, and, asc, lt, lte, ne, inArray, isNull, isNotNull, notExists, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDb, type DbExecutor } from "./db";
+import { postRc } from "./ledger";
+import { eligibleVotingRc, tallyProposal } from "./proposalResults";
+import { resolveDelegatedVotes } from "./delegation";
+import {
+  proposals,
+  proposalEvents,
+  scheduledJobs,
+  type Proposal,
+  type ProposalEvent,
+  type ScheduledJob,
+} from "../drizzle/schema";
+import { RC_CONFIG, SCHEDULER_CONFIG } from "@shared/const";
+
+/**
+ * Proposal lifecycle: draft -> active -> accepted | rejected -> settled.
+ *
+ * Transitions are driven by durable rows in `scheduled_jobs` (one per job
+ * type and proposal) so a restart never loses a deadline:
+ *   - proposal_activate opens voting on a draft at `votingStartsAt`
+ *   - proposal_close resolves delegated votes (server/delegation.ts) and
+ *     decides the outcome once `votingEndsAt` has passed
+ *   - proposal_settle pays the author's RC reward for a passed proposal
+ *
+ * Every server process runs the scheduler, but only the holder of the
+ * `proposal_scheduler` lease in `scheduler_locks` works the queue. Each
+ * transition writes a `proposal_events` row in the same transaction as the
+ * status change, which is the audit log, and is then emitted on
+ * `proposalLifecycleEvents` for in-process listeners.
+ */
+
+// Emits "transition" with the ProposalEvent row, after its transaction commits
+export const proposalLifecycleEvents = new EventEmitter();
+
+type TransitionActor = {
+  actorId?: string | null; // null when the scheduler makes the transition
+  jobId?: string | null;
+};
+
+type ProposalEventInput = TransitionActor & {
+  proposalId: string;
+  type: ProposalEvent["type"];
+  fromStatus: Proposal["status"] | null;
+  toStatus: Proposal["status"];
+  data?: Record<string, unknown>;
+};
+
+// Append to a proposal's audit log; call inside the transaction that changes its status
+export async function recordProposalEvent(db: DbExecutor, input: ProposalEventInput) {
+  const [event] = await db
+    .insert(proposalEvents)
+    .values({
+      id: nanoid(),
+      proposalId: input.proposalId,
+      type: input.type,
+      fromStatus: input.fromStatus,
+      toStatus: input.toStatus,
+      actorId: input.actorId ?? null,
+      jobId: input.jobId ?? null,
+      data: input.data ?? {},
+    })
+    .returning();
+  return event;
+}
+
+export function emitProposalEvent(event: ProposalEvent) {
+  proposalLifecycleEvents.emit("transition", event);
+}
+
+/**
+ * Schedule (or move) a job. A job that is running is left alone; it
+ * reschedules itself if its target is not due yet.
+ */
+export async function scheduleJob(
+  db: DbExecutor,
+  type: ScheduledJob["type"],
+  referenceId: string,
+  runAt: Date
+) {
+  const now = new Date();
+  await db
+    .insert(scheduledJobs)
+    .values({ id: nanoid(), type, referenceId, runAt })
+    .onConflictDoUpdate({
+      target: [scheduledJobs.type, scheduledJobs.referenceId],
+      set: {
+        runAt,
+        status: "pending",
+        attempts: 0,
+        lastError: null,
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: null,
+        updatedAt: now,
+      },
+      setWhere: ne(scheduledJobs.status, "running"),
+    });
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Open voting on a draft. The voting period keeps its scheduled length when
+ * activation runs late.
+ */
+export async function activateProposal(db: DbExecutor, proposalId: string, actor: TransitionActor = {}) {
+  const result = await db.transaction(async (tx) => {
+    const [proposal] = await tx.select().from(proposals).where(eq(proposals.id, proposalId)).for("update");
+    if (!proposal || proposal.status !== "draft") return null;
+
+    const now = new Date();
+    const scheduledLength =
+      proposal.votingStartsAt && proposal.votingEndsAt
+        ? proposal.votingEndsAt.getTime() - proposal.votingStartsAt.getTime()
+        : SCHEDULER_CONFIG.DEFAULT_VOTING_DAYS * 24 * 60 * 60 * 1000;
+    const votingEndsAt = new Date(now.getTime() + scheduledLength);
+    const eligibleRc = await eligibleVotingRc(tx, proposal.minRcToVote);
+
+    await tx
+      .update(proposals)
+      .set({ status: "active", activatedAt: now, votingEndsAt, eligibleRc, updatedAt: now })
+      .where(eq(proposals.id, proposalId));
+    await scheduleJob(tx, "proposal_close", proposalId, votingEndsAt);
+
+    const event = await recordProposalEvent(tx, {
+      ...actor,
+      proposalId,
+      type: "activated",
+      fromStatus: "draft",
+      toStatus: "active",
+      data: { votingEndsAt: votingEndsAt.toISOString(), eligibleRc },
+    });
+    return { votingEndsAt, event };
+  });
+
+  if (result) emitProposalEvent(result.event);
+  return result;
+}
+
+// Close voting on an active proposal, resolve delegations, store its results and queue its settlement
+export async function closeProposal(db: DbExecutor, proposalId: string, actor: TransitionActor = {}) {
+  const result = await db.transaction(async (tx) => {
+    const [proposal] = await tx.select().from(proposals).where(eq(proposals.id, proposalId)).for("update");
+    if (!proposal || proposal.status !== "active") return null;
+
+    const delegatedVotes = await resolveDelegatedVotes(tx, proposal);
+    const results = await tallyProposal(tx, proposal);
+    const passed = results.passed;
+    const status = passed ? "accepted" : "rejected";
+    const now = new Date();
+
+    await tx
+      .update(proposals)
+      .set({ status, results, eligibleRc: results.quorum.eligibleRc, closedAt: now, updatedAt: now })
+      .where(eq(proposals.id, proposalId));
+    await scheduleJob(tx, "proposal_settle", proposalId, now);
+
+    const event = await recordProposalEvent(tx, {
+      ...actor,
+      proposalId,
+      type: "closed",
+      fromStatus: "active",
+      toStatus: status,
+      data: {
+        passed,
+        quorumMet: results.quorum.met,
+        thresholdMet: results.threshold.met,
+        tallyMode: results.tallyMode,
+        votes: results.votes,
+        rc: results.rc,
+        tally: results.tally,
+        delegatedVotes,
+      },
+    });
+    return { status, passed, results, event };
+  });
+
+  if (result) emitProposalEvent(result.event);
+  return result;
+}
+
+// Pay the RC rewards for a closed proposal's outcome, once
+export async function settleProposal(db: DbExecutor, proposalId: string, actor: TransitionActor = {}) {
+  const result = await db.transaction(async (tx) => {
+    const [proposal] = await tx.select().from(proposals).where(eq(proposals.id, proposalId)).for("update");
+    if (!proposal || proposal.settledAt) return null;
+    if (proposal.status !== "accepted" && proposal.status !== "rejected") return null;
+
+    // Keyed by proposal, so a reward already paid by a manual close is not paid again
+    let rcAwarded = 0;
+    if (proposal.status === "accepted") {
+      const posting = await postRc(tx, {
+        userId: proposal.authorId,
+        amount: RC_CONFIG.PROPOSAL_PASSED,
+        reason: "proposal_passed",
+        referenceType: "proposal",
+        referenceId: proposalId,
+      });
+      if (posting.applied) rcAwarded = RC_CONFIG.PROPOSAL_PASSED;
+    }
+
+    const now = new Date();
+    await tx.update(proposals).set({ settledAt: now, updatedAt: now }).where(eq(proposals.id, proposalId));
+
+    const event = await recordProposalEvent(tx, {
+      ...actor,
+      proposalId,
+      type: "settled",
+      fromStatus: proposal.status,
+      toStatus: proposal.status,
+      data: { rcAwarded },
+    });
+    return { rcAwarded, event };
+  });
+
+  if (result) emitProposalEvent(result.event);
+  return result;
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+const LOCK_NAME = "proposal_scheduler";
+const WORKER_ID = `${os.hostname()}:${process.pid}:${nanoid(6)}`;
+
+/**
+ * Take or renew the scheduler lease. Succeeds when the lease is free, expired
+ * or already ours; database time is used so server clocks need not agree.
+ */
+async function acquireLeaderLock(db: DbExecutor, holderId: string) {
+  const result = await db.execute(sql`
+    INSERT INTO scheduler_locks (name, holder_id, acquired_at, expires_at)
+    VALUES (${LOCK_NAME}, ${holderId}, now(), now() + ${sql.raw(`interval '${SCHEDULER_CONFIG.LOCK_TTL_MS} milliseconds'`)})
+    ON CONFLICT (name) DO UPDATE
+      SET holder_id = EXCLUDED.holder_id,
+          acquired_at = CASE WHEN scheduler_locks.holder_id = EXCLUDED.holder_id
+                             THEN scheduler_locks.acquired_at ELSE now() END,
+          expires_at = EXCLUDED.expires_at
+      WHERE scheduler_locks.holder_id = EXCLUDED.holder_id OR scheduler_locks.expires_at < now()
+    RETURNING name
+  `);
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Job handlers return a time to run again when their target is not due yet
+const JOB_HANDLERS: Record<ScheduledJob["type"], (db: DbExecutor, job: ScheduledJob) => Promise<Date | void>> = {
+  proposal_activate: async (db, job) => {
+    const [proposal] = await db.select().from(proposals).where(eq(proposals.id, job.referenceId));
+    if (proposal?.status === "draft" && proposal.votingStartsAt && proposal.votingStartsAt > new Date()) {
+      return proposal.votingStartsAt;
+    }
+    await activateProposal(db, job.referenceId, { jobId: job.id });
+  },
+  proposal_close: async (db, job) => {
+    const [proposal] = await db.select().from(proposals).where(eq(proposals.id, job.referenceId));
+    if (proposal?.status === "active" && proposal.votingEndsAt && proposal.votingEndsAt > new Date()) {
+      return proposal.votingEndsAt;
+    }
+    await closeProposal(db, job.referenceId, { jobId: job.id });
+  },
+  proposal_settle: async (db, job) => {
+    await settleProposal(db, job.referenceId, { jobId: job.id });
+  },
+};
+
+// Queue jobs for proposals that have none, e.g. ones created before the scheduler ran
+async function enqueueMissingJobs(db: DbExecutor) {
+  const jobFor = (type: ScheduledJob["type"]) =>
+    notExists(
+      db
+        .select({ id: scheduledJobs.id })
+        .from(scheduledJobs)
+        .where(and(eq(scheduledJobs.type, type), eq(scheduledJobs.referenceId, proposals.id)))
+    );
+
+  const toActivate = await db
+    .select({ id: proposals.id, runAt: proposals.votingStartsAt })
+    .from(proposals)
+    .where(and(eq(proposals.status, "draft"), isNotNull(proposals.votingStartsAt), jobFor("proposal_activate")));
+  const toClose = await db
+    .select({ id: proposals.id, runAt: proposals.votingEndsAt })
+    .from(proposals)
+    .where(and(eq(proposals.status, "active"), isNotNull(proposals.votingEndsAt), jobFor("proposal_close")));
+  const toSettle = await db
+    .select({ id: proposals.id, runAt: proposals.closedAt })
+    .from(proposals)
+    .where(
+      and(
+        inArray(proposals.status, ["accepted", "rejected"]),
+        isNull(proposals.settledAt),
+        jobFor("proposal_settle")
+      )
+    );
+
+  const now = new Date();
+  const rows = [
+    ...toActivate.map((p) => ({ id: nanoid(), type: "proposal_activate" as const, referenceId: p.id, runAt: p.runAt ?? now })),
+    ...toClose.map((p) => ({ id: nanoid(), type: "proposal_close" as const, referenceId: p.id, runAt: p.runAt ?? now })),
+    ...toSettle.map((p) => ({ id: nanoid(), type: "proposal_settle" as const, referenceId: p.id, runAt: now })),
+  ];
+  if (rows.length > 0) {
+    await db.insert(scheduledJobs).values(rows).onConflictDoNothing();
+  }
+  return rows.length;
+}
+
+// Jobs left running by a crashed or restarted server go back in the queue
+async function retryStaleJobs(db: DbExecutor) {
+  const now = new Date();
+  await db
+    .update(scheduledJobs)
+    .set({ status: "pending", lockedBy: null, lockedAt: null, updatedAt: now })
+    .where(
+      and(
+        eq(scheduledJobs.status, "running"),
+        lt(scheduledJobs.lockedAt, new Date(now.getTime() - SCHEDULER_CONFIG.STALE_AFTER_MS))
+      )
+    );
+}
+
+// Claim a batch of due jobs, oldest deadline first
+async function claimDueJobs(db: DbExecutor, holderId: string) {
+  const now = new Date();
+  const due = db
+    .select({ id: scheduledJobs.id })
+    .from(scheduledJobs)
+    .where(and(eq(scheduledJobs.status, "pending"), lte(scheduledJobs.runAt, now)))
+    .orderBy(asc(scheduledJobs.runAt))
+    .limit(SCHEDULER_CONFIG.BATCH_SIZE)
+    .for("update", { skipLocked: true });
+
+  return db
+    .update(scheduledJobs)
+    .set({
+      status: "running",
+      lockedBy: holderId,
+      lockedAt: now,
+      attempts: sql`${scheduledJobs.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(and(inArray(scheduledJobs.id, due), eq(scheduledJobs.status, "pending")))
+    .returning();
+}
+
+// Run one claimed job. Failures are retried with exponential backoff up to MAX_ATTEMPTS.
+async function runJob(db: DbExecutor, job: ScheduledJob, holderId: string) {
+  const claimed = and(eq(scheduledJobs.id, job.id), eq(scheduledJobs.lockedBy, holderId));
+  try {
+    const runAgainAt = await JOB_HANDLERS[job.type](db, job);
+    const now = new Date();
+    await db
+      .update(scheduledJobs)
+      .set(
+        runAgainAt
+          ? { status: "pending", runAt: runAgainAt, attempts: 0, lockedBy: null, lockedAt: null, updatedAt: now }
+          : { status: "completed", completedAt: now, lockedBy: null, lockedAt: null, updatedAt: now }
+      )
+      .where(claimed);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const giveUp = job.attempts >= SCHEDULER_CONFIG.MAX_ATTEMPTS;
+    const now = new Date();
+    await db
+      .update(scheduledJobs)
+      .set({
+        status: giveUp ? "failed" : "pending",
+        runAt: giveUp ? job.runAt : new Date(now.getTime() + SCHEDULER_CONFIG.RETRY_BASE_MS * 2 ** (job.attempts - 1)),
+        lastError: message,
+        lockedBy: null,
+        lockedAt: null,
+        updatedAt: now,
+      })
+      .where(claimed);
+    console.error(`[Scheduler] ${job.type} for ${job.referenceId} failed (attempt ${job.attempts}):`, error);
+    return false;
+  }
+}
+
+/**
+ * One scheduler pass: take the lease, requeue stale jobs, backfill missing
+ * ones and run everything due. Processes without the lease do nothing.
+ */
+export async function runScheduler(db: DbExecutor, holderId = WORKER_ID) {
+  const result = { leader: false, enqueued: 0, completed: 0, failed: 0 };
+  if (!(await acquireLeaderLock(db, holderId))) return result;
+  result.leader = true;
+
+  await retryStaleJobs(db);
+  result.enqueued = await enqueueMissingJobs(db);
+
+  for (;;) {
+    const jobs = await claimDueJobs(db, holderId);
+    if (jobs.length === 0) break;
+    for (const job of jobs) {
+      if (await runJob(db, job, holderId)) result.completed++;
+      else result.failed++;
+    }
+    // Renew the lease between batches; stop if another process took it over
+    if (!(await acquireLeaderLock(db, holderId))) break;
+  }
+
+  return result;
+}
+
+let running = false;
+
+async function tick() {
+  if (running) return;
+  running = true;
+  try {
+    const db = await getDb();
+    if (!db) return;
+    const { completed, failed } = await runScheduler(db);
+    if (completed + failed > 0) {
+      console.log(`[Scheduler] Ran ${completed} jobs (${failed} failed)`);
+    }
+  } catch (error) {
+    console.error("[Scheduler] Tick failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Run due jobs now rather than at the next interval (only the lease holder does anything)
+export function kickScheduler() {
+  setTimeout(tick, 0).unref();
+}
+
+// Run the scheduler on an interval inside the server process
+export function startProposalScheduler() {
+  kickScheduler();
+  const timer = setInterval(tick, SCHEDULER_CONFIG.INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { computeProposalResults, tallyWeight } from "./proposalResults";
+import type { Proposal } from "../drizzle/schema";
+
+const proposal = (overrides: Partial<Proposal> = {}) =>
+  ({
+    tallyMode: "linear_rc",
+    passThreshold: "simple_majority",
+    quorumRcPercent: 20,
+    quorumMinVoters: 3,
+    abstainCountsTowardQuorum: true,
+    ...overrides,
+  }) as Proposal;
+
+const totals = (
+  rc: { for: number; against: number; abstain: number },
+  votes = { for: 1, against: 1, abstain: 1 },
+  tally = rc
+) => ({ votes, rc, tally, delegatedVotes: 0 });
+
+describe("computeProposalResults quorum", () => {
+  it("is met when participation is exactly the required share", () => {
+    const results = computeProposalResults(proposal(), totals({ for: 100, against: 50, abstain: 50 }), 1000);
+    expect(results.quorum.met).toBe(true);
+    expect(results.quorum.participatingRc).toBe(200);
+    expect(results.quorum.rcShare).toBe(0.2);
+  });
+
+  it("is not met one RC below the required share", () => {
+    const results = computeProposalResults(proposal(), totals({ for: 100, against: 50, abstain: 49 }), 1000);
+    expect(results.quorum.met).toBe(false);
+    expect(results.quorum.rcMargin).toBeLessThan(0);
+  });
+
+  it("does not lose an exact share to floating point rounding", () => {
+    // 7 / 100 * 100 is 7.000000000000001 in floating point
+    const results = computeProposalResults(
+      proposal({ quorumRcPercent: 7, quorumMinVoters: 0 }),
+      totals({ for: 7, against: 0, abstain: 0 }),
+      100
+    );
+    expect(results.quorum.met).toBe(true);
+  });
+
+  it("needs the minimum number of voters", () => {
+    const rc = { for: 500, against: 0, abstain: 0 };
+
+    const atMinimum = computeProposalResults(proposal(), totals(rc, { for: 3, against: 0, abstain: 0 }), 1000);
+    expect(atMinimum.quorum.met).toBe(true);
+    expect(atMinimum.quorum.voterMargin).toBe(0);
+
+    const belowMinimum = computeProposalResults(proposal(), totals(rc, { for: 2, against: 0, abstain: 0 }), 1000);
+    expect(belowMinimum.quorum.met).toBe(false);
+    expect(belowMinimum.quorum.voterMargin).toBe(-1);
+  });
+
+  it("counts abstentions only when the proposal says so", () => {
+    const rc = { for: 100, against: 0, abstain: 100 };
+    const votes = { for: 2, against: 0, abstain: 1 };
+
+    expect(computeProposalResults(proposal(), totals(rc, votes), 1000).quorum.met).toBe(true);
+
+    const excluded = computeProposalResults(proposal({ abstainCountsTowardQuorum: false }), totals(rc, votes), 1000);
+    expect(excluded.quorum.met).toBe(false);
+    expect(excluded.quorum.participatingRc).toBe(100);
+    expect(excluded.quorum.voters).toBe(2);
+  });
+
+  it("is never met without eligible RC", () => {
+    const results = computeProposalResults(
+      proposal({ quorumRcPercent: 0, quorumMinVoters: 0 }),
+      totals({ for: 0, against: 0, abstain: 0 }),
+      0
+    );
+    expect(results.quorum.met).toBe(false);
+    expect(results.quorum.rcShare).toBe(0);
+  });
+});
+
+describe("computeProposalResults threshold", () => {
+  const quorate = { for: 3, against: 3, abstain: 3 };
+
+  it("needs more than half for a simple majority", () => {
+    const tie = computeProposalResults(proposal(), totals({ for: 500, against: 500, abstain: 0 }, quorate), 1000);
+    expect(tie.threshold.met).toBe(false);
+    expect(tie.threshold.margin).toBe(0);
+    expect(tie.passed).toBe(false);
+
+    const oneMore = computeProposalResults(proposal(), totals({ for: 501, against: 499, abstain: 0 }, quorate), 1000);
+    expect(oneMore.threshold.met).toBe(true);
+    expect(oneMore.passed).toBe(true);
+  });
+
+  it("accepts exactly two thirds for two_thirds", () => {
+    const twoThirds = proposal({ passThreshold: "two_thirds" });
+
+    const exact = computeProposalResults(twoThirds, totals({ for: 200, against: 100, abstain: 0 }, quorate), 1000);
+    expect(exact.threshold.met).toBe(true);
+    expect(exact.threshold.requiredSupport).toBeCloseTo(2 / 3);
+
+    const short = computeProposalResults(twoThirds, totals({ for: 199, against: 101, abstain: 0 }, quorate), 1000);
+    expect(short.threshold.met).toBe(false);
+  });
+
+  it("ignores abstentions in the support share", () => {
+    const results = computeProposalResults(proposal(), totals({ for: 60, against: 40, abstain: 900 }, quorate), 1000);
+    expect(results.threshold.support).toBe(0.6);
+    expect(results.threshold.met).toBe(true);
+  });
+
+  it("is not met when nobody voted for or against", () => {
+    const results = computeProposalResults(proposal(), totals({ for: 0, against: 0, abstain: 500 }, quorate), 1000);
+    expect(results.threshold.met).toBe(false);
+    expect(results.threshold.support).toBe(0);
+  });
+
+  it("decides on the tallied weight, not raw RC", () => {
+    const results = computeProposalResults(
+      proposal({ tallyMode: "one_person_one_vote" }),
+      totals({ for: 900, against: 100, abstain: 0 }, { for: 1, against: 2, abstain: 0 }, { for: 1, against: 2, abstain: 0 }),
+      1000
+    );
+    expect(results.quorum.met).toBe(true);
+    expect(results.threshold.met).toBe(false);
+    expect(results.passed).toBe(false);
+  });
+
+  it("fails a proposal that meets the threshold but not quorum", () => {
+    const results = computeProposalResults(proposal(), totals({ for: 100, against: 0, abstain: 0 }, quorate), 1000);
+    expect(results.threshold.met).toBe(true);
+    expect(results.quorum.met).toBe(false);
+    expect(results.passed).toBe(false);
+  });
+});
+
+describe("tallyWeight", () => {
+  const dialect = new PgDialect();
+
+  // Evaluate the weight expression for one vote, standing in for Postgres
+  const weigh = (mode: Proposal["tallyMode"], weightRc: number, capRc = 50) => {
+    const { sql, params } = dialect.sqlToQuery(tallyWeight(mode, capRc));
+    const expression = sql
+      .replace(/"proposal_votes"\."weight_rc"/g, String(weightRc))
+      .replace(/\$(\d+)/g, (_, index) => String(params[Number(index) - 1]));
+    return new Function("greatest", "least", "sqrt", `return ${expression};`)(Math.max, Math.min, Math.sqrt) as number;
+  };
+
+  it("counts every vote once in one_person_one_vote", () => {
+    expect(weigh("one_person_one_vote", 0)).toBe(1);
+    expect(weigh("one_person_one_vote", 10_000)).toBe(1);
+  });
+
+  it("counts RC in linear_rc", () => {
+    expect(weigh("linear_rc", 0)).toBe(0);
+    expect(weigh("linear_rc", 250)).toBe(250);
+  });
+
+  it("counts the square root of RC in quadratic_rc", () => {
+    expect(weigh("quadratic_rc", 100)).toBe(10);
+    expect(weigh("quadratic_rc", 10_000)).toBe(100);
+  });
+
+  it("caps RC at the cap in capped_rc", () => {
+    expect(weigh("capped_rc", 49)).toBe(49);
+    expect(weigh("capped_rc", 50)).toBe(50);
+    expect(weigh("capped_rc", 5_000)).toBe(50);
+    expect(weigh("capped_rc", 5_000, 200)).toBe(200);
+  });
+
+  it("never counts negative RC against a choice", () => {
+    expect(weigh("linear_rc", -40)).toBe(0);
+    expect(weigh("quadratic_rc", -40)).toBe(0);
+    expect(weigh("capped_rc", -40)).toBe(0);
+  });
+});
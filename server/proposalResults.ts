@@ -0,0 +1,150 @@
+import { eq, gte, sql, type SQL } from "drizzle-orm";
+import type { DbExecutor } from "./db";
+import { proposalVotes, users, type Proposal, type ProposalResults } from "../drizzle/schema";
+import { GOVERNANCE_CONFIG } from "@shared/const";
+
+/**
+ * Proposal outcomes. A proposal passes when both rules hold:
+ *
+ *   - quorum: the RC weight taking part is at least `quorumRcPercent` of the
+ *     RC eligible to vote (snapshotted when voting opened), and at least
+ *     `quorumMinVoters` users took part. Abstentions take part only when
+ *     `abstainCountsTowardQuorum` is set.
+ *   - threshold: the tallied "for" weight out of "for" + "against" exceeds
+ *     one half (simple_majority) or reaches two thirds (two_thirds).
+ *
+ * The tally counts each vote's `weightRc` (the voter's RC when voting)
+ * according to the proposal's `tallyMode`:
+ *   - one_person_one_vote: 1
+ *   - linear_rc: weightRc
+ *   - quadratic_rc: sqrt(weightRc), so large holders gain less per RC
+ *   - capped_rc: min(weightRc, tallyCapRc)
+ *
+ * Results are computed from `proposal_votes` rather than the counters on the
+ * proposal, so they can be recomputed at any time, in any mode.
+ */
+
+type ChoiceTotals = ProposalResults["votes"];
+type TallyMode = Proposal["tallyMode"];
+
+const REQUIRED_SUPPORT: Record<Proposal["passThreshold"], number> = {
+  simple_majority: 1 / 2,
+  two_thirds: 2 / 3,
+};
+
+// Total RC of the users allowed to vote on a proposal
+export async function eligibleVotingRc(db: DbExecutor, minRcToVote: number) {
+  const [row] = await db
+    .select({ total: sql<number>`coalesce(sum(${users.reputationCredits}), 0)::int` })
+    .from(users)
+    .where(gte(users.reputationCredits, minRcToVote));
+  return row?.total ?? 0;
+}
+
+// What one vote counts for under a tally mode
+export function tallyWeight(mode: TallyMode, capRc: number): SQL<number> {
+  const weightRc = sql`greatest(${proposalVotes.weightRc}, 0)`;
+  switch (mode) {
+    case "one_person_one_vote":
+      return sql<number>`1`;
+    case "linear_rc":
+      return sql<number>`${weightRc}`;
+    case "quadratic_rc":
+      return sql<number>`sqrt(${weightRc})`;
+    case "capped_rc":
+      return sql<number>`least(${weightRc}, ${capRc})`;
+  }
+}
+
+// Voters, RC weight and tallied weight per choice
+export async function loadVoteTotals(db: DbExecutor, proposalId: string, mode: TallyMode, capRc: number) {
+  const rows = await db
+    .select({
+      choice: proposalVotes.choice,
+      voters: sql<number>`count(*)::int`,
+      rc: sql<number>`coalesce(sum(${proposalVotes.weightRc}), 0)::int`,
+      tally: sql<number>`coalesce(sum(${tallyWeight(mode, capRc)}), 0)::float8`,
+      delegated: sql<number>`count(${proposalVotes.castById})::int`,
+    })
+    .from(proposalVotes)
+    .where(eq(proposalVotes.proposalId, proposalId))
+    .groupBy(proposalVotes.choice);
+
+  const votes: ChoiceTotals = { for: 0, against: 0, abstain: 0 };
+  const rc: ChoiceTotals = { for: 0, against: 0, abstain: 0 };
+  const tally: ChoiceTotals = { for: 0, against: 0, abstain: 0 };
+  let delegatedVotes = 0;
+  for (const row of rows) {
+    votes[row.choice] = row.voters;
+    rc[row.choice] = row.rc;
+    tally[row.choice] = row.tally;
+    delegatedVotes += row.delegated;
+  }
+  return { votes, rc, tally, delegatedVotes };
+}
+
+export function computeProposalResults(
+  proposal: Proposal,
+  totals: { votes: ChoiceTotals; rc: ChoiceTotals; tally: ChoiceTotals; delegatedVotes: number },
+  eligibleRc: number
+): ProposalResults {
+  const { votes, rc, tally, delegatedVotes } = totals;
+  const abstainCounts = proposal.abstainCountsTowardQuorum;
+
+  const participatingRc = rc.for + rc.against + (abstainCounts ? rc.abstain : 0);
+  const voters = votes.for + votes.against + (abstainCounts ? votes.abstain : 0);
+  const rcShare = eligibleRc > 0 ? participatingRc / eligibleRc : 0;
+  const requiredRcShare = proposal.quorumRcPercent / 100;
+  // Integer comparisons, so a share exactly at the requirement is not lost to rounding
+  const quorumMet =
+    eligibleRc > 0 &&
+    participatingRc * 100 >= proposal.quorumRcPercent * eligibleRc &&
+    voters >= proposal.quorumMinVoters;
+
+  const decided = tally.for + tally.against;
+  const support = decided > 0 ? tally.for / decided : 0;
+  const requiredSupport = REQUIRED_SUPPORT[proposal.passThreshold];
+  const thresholdMet =
+    decided > 0 &&
+    (proposal.passThreshold === "simple_majority" ? tally.for * 2 > decided : tally.for * 3 >= decided * 2);
+
+  return {
+    tallyMode: proposal.tallyMode,
+    votes,
+    rc,
+    tally,
+    delegatedVotes,
+    quorum: {
+      met: quorumMet,
+      abstainCounts,
+      eligibleRc,
+      participatingRc,
+      rcShare,
+      requiredRcShare,
+      rcMargin: rcShare - requiredRcShare,
+      voters,
+      requiredVoters: proposal.quorumMinVoters,
+      voterMargin: voters - proposal.quorumMinVoters,
+    },
+    threshold: {
+      rule: proposal.passThreshold,
+      met: thresholdMet,
+      support,
+      requiredSupport,
+      margin: support - requiredSupport,
+    },
+    passed: quorumMet && thresholdMet,
+  };
+}
+
+/**
+ * Current results of a proposal, in its own tally mode unless another is
+ * given. Proposals opened before quorum rules existed have no eligible RC
+ * snapshot; today's eligible RC stands in for it.
+ */
+export async function tallyProposal(db: DbExecutor, proposal: Proposal, mode: TallyMode = proposal.tallyMode) {
+  const capRc = proposal.tallyCapRc ?? GOVERNANCE_CONFIG.DEFAULT_TALLY_CAP_RC;
+  const totals = await loadVoteTotals(db, proposal.id, mode, capRc);
+  const eligibleRc = proposal.eligibleRc ?? (await eligibleVotingRc(db, proposal.minRcToVote));
+  return computeProposalResults({ ...proposal, tallyMode: mode }, totals, eligibleRc);
+}
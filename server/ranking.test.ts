@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { sql } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { ratingScoreExpression } from "./ranking";
+import { RANKING_CONFIG } from "@shared/const";
+
+const dialect = new PgDialect();
+
+// Evaluate the Postgres expression for literal vote counts
+function ratingScore(up: number, down: number) {
+  const { sql: text, params } = dialect.sqlToQuery(ratingScoreExpression(sql.raw(String(up)), sql.raw(String(down))));
+  expect(params).toEqual([]);
+  const expression = text
+    .replace(/::float8/g, "")
+    .replace(/^CASE WHEN ([\s\S]+?) THEN 0 ELSE([\s\S]+)END$/, "($1) ? 0 : ($2)");
+  return new Function("sqrt", `return ${expression};`)(Math.sqrt) as number;
+}
+
+// Wilson score lower bound, straight from the formula
+function wilsonLowerBound(up: number, down: number, z = RANKING_CONFIG.WILSON_Z) {
+  const n = up + down;
+  if (n === 0) return 0;
+  const p = up / n;
+  return (p + (z * z) / (2 * n) - z * Math.sqrt((p * (1 - p) + (z * z) / (4 * n)) / n)) / (1 + (z * z) / n);
+}
+
+describe("ratingScoreExpression", () => {
+  it("scores no votes as 0", () => {
+    expect(ratingScore(0, 0)).toBe(0);
+  });
+
+  it("matches the Wilson lower bound", () => {
+    for (const [up, down] of [
+      [1, 0],
+      [0, 1],
+      [3, 0],
+      [40, 35],
+      [300, 10],
+      [5, 5],
+      [1000, 1],
+    ]) {
+      expect(ratingScore(up, down)).toBeCloseTo(wilsonLowerBound(up, down), 10);
+    }
+  });
+
+  it("matches the examples in the module doc", () => {
+    expect(ratingScore(3, 0)).toBeCloseTo(0.44, 2);
+    expect(ratingScore(40, 35)).toBeCloseTo(0.42, 2);
+    expect(ratingScore(300, 10)).toBeCloseTo(0.94, 2);
+  });
+
+  it("ranks more evidence above a perfect but tiny record", () => {
+    expect(ratingScore(300, 10)).toBeGreaterThan(ratingScore(3, 0));
+    expect(ratingScore(100, 0)).toBeGreaterThan(ratingScore(10, 0));
+  });
+
+  it("stays between 0 and 1", () => {
+    for (const [up, down] of [
+      [0, 500],
+      [500, 0],
+      [1, 1],
+    ]) {
+      const score = ratingScore(up, down);
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { DbExecutor } from "./db";
+import { resources } from "../drizzle/schema";
+import { RANKING_CONFIG } from "@shared/const";
+
+/**
+ * Confidence-adjusted vote score for "highest rated" orderings.
+ *
+ * `resources.rating_score` holds the lower bound of the Wilson score interval
+ * for the share of upvotes: the fraction of voters who approve, discounted by
+ * how little evidence there is. 3 up / 0 down scores about 0.44, 40 up / 35 down
+ * about 0.42, and 300 up / 10 down about 0.94. No votes scores 0.
+ *
+ * The score is updated together with the vote counters in `resource.vote`;
+ * `refreshRatingScores` recomputes it from the counters.
+ */
+
+type Operand = AnyPgColumn | SQL;
+
+// Wilson lower bound for `up` positive out of `up + down` votes, as a Postgres expression
+export function ratingScoreExpression(up: Operand, down: Operand): SQL<number> {
+  // Constants are inlined so Postgres does not have to infer parameter types
+  const z = sql.raw(String(RANKING_CONFIG.WILSON_Z));
+  const z2 = sql.raw(String(RANKING_CONFIG.WILSON_Z ** 2));
+  const u = sql`(${up})::float8`;
+  const d = sql`(${down})::float8`;
+  const n = sql`(${u} + ${d})`;
+  return sql<number>`CASE WHEN ${n} <= 0 THEN 0 ELSE
+    ((${u} + ${z2} / 2.0) / ${n} - ${z} * sqrt(${u} * ${d} / ${n} + ${z2} / 4.0) / ${n})
+      / (1 + ${z2} / ${n})
+  END`;
+}
+
+// Recompute rating scores from the vote counters (all resources, or the given ones)
+export async function refreshRatingScores(db: DbExecutor, resourceIds: string[] | "all" = "all") {
+  if (resourceIds !== "all" && resourceIds.length === 0) return 0;
+
+  const updated = await db
+    .update(resources)
+    .set({ ratingScore: ratingScoreExpression(resources.upvoteCount, resources.downvoteCount) })
+    .where(
+      resourceIds === "all"
+        ? undefined
+        : sql`${resources.id} IN (${sql.join(
+            resourceIds.map((id) => sql`${id}`),
+            sql`, `
+          )})`
+    )
+    .returning({ id: resources.id });
+
+  return updated.length;
+}
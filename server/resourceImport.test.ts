@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./resourceImport";
+
+describe("parseCsv", () => {
+  it("splits plain fields and lines", () => {
+    expect(parseCsv("title,url\nFractions,https://example.com\n")).toEqual([
+      ["title", "url"],
+      ["Fractions", "https://example.com"],
+    ]);
+  });
+
+  it("keeps commas, line breaks and doubled quotes inside quoted fields", () => {
+    expect(parseCsv('title,description\n"Add, subtract","Line one\nLine ""two"""\n')).toEqual([
+      ["title", "description"],
+      ["Add, subtract", 'Line one\nLine "two"'],
+    ]);
+  });
+
+  it("reads an empty quoted field as empty", () => {
+    expect(parseCsv('a,"",c')).toEqual([["a", "", "c"]]);
+  });
+
+  it("treats a quote inside an unquoted field as text", () => {
+    expect(parseCsv('title\n5" ruler')).toEqual([["title"], ['5" ruler']]);
+  });
+
+  it("accepts CRLF, CR and LF line ends", () => {
+    expect(parseCsv("a,b\r\n1,2\r3,4\n5,6")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+      ["5", "6"],
+    ]);
+  });
+
+  it("keeps CRLF inside a quoted field", () => {
+    expect(parseCsv('a\n"x\r\ny"')).toEqual([["a"], ["x\r\ny"]]);
+  });
+
+  it("strips a byte order mark", () => {
+    expect(parseCsv("\uFEFFtitle\nA")).toEqual([["title"], ["A"]]);
+  });
+
+  it("keeps trailing empty fields", () => {
+    expect(parseCsv("a,b,c\n1,,\n")).toEqual([
+      ["a", "b", "c"],
+      ["1", "", ""],
+    ]);
+  });
+
+  it("drops blank lines", () => {
+    expect(parseCsv("a\n\n  \n1\n,\n")).toEqual([["a"], ["1"]]);
+  });
+
+  it("reads an unterminated quoted field to the end", () => {
+    expect(parseCsv('a\n"never closed, still here')).toEqual([["a"], ["never closed, still here"]]);
+  });
+});
@@ -0,0 +1,578 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { eq, and, asc, lt } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDb, type DbExecutor } from "./db";
+import { createResourceInput } from "./resourceInput";
+import { refreshSearchVectors } from "./search";
+import { recordInitialVersion } from "./versioning";
+import { storageDownload, storagePut } from "./storage";
+import { isAllowedMimeType, maxUploadSize, resourceTypeForMimeType, safeFileName, sniffMimeType } from "./uploads";
+import { readZip, type ZipFile } from "./zip";
+import {
+  resourceImports,
+  resources,
+  uploads,
+  users,
+  type InsertResource,
+  type ResourceImport,
+  type ResourceImportRow,
+  type User,
+} from "../drizzle/schema";
+import { IMPORT_CONFIG } from "@shared/const";
+
+/**
+ * Bulk resource imports. A background job turns each row of a source into a
+ * draft resource owned by the importer:
+ *
+ *   - common_cartridge: every organization item of an IMS Common Cartridge
+ *     (1.1 to 1.3) that points at webcontent (a file) or a web link
+ *   - zip_csv: a ZIP of files with a CSV manifest (`manifest.csv`, or the
+ *     only CSV in the archive) whose `file` column names the files
+ *   - csv_links: a CSV of external links, uploaded or pasted
+ *
+ * CSV columns map onto the `resource.create` fields by name (case, spaces and
+ * underscores are ignored, and a few aliases such as `url` and `grade` are
+ * accepted). Blank fields fall back to the import's defaults, and each row is
+ * validated with `createResourceInput`. Files are sniffed and checked against
+ * the resource type like regular uploads. Every row gets an entry in the
+ * report, which is also written to storage as CSV.
+ */
+
+type ImportField =
+  | "title"
+  | "description"
+  | "summary"
+  | "category"
+  | "resourceType"
+  | "subject"
+  | "gradeLevel"
+  | "tags"
+  | "standards"
+  | "externalUrl"
+  | "thumbnailUrl"
+  | "file";
+
+// Header names (lowercased, letters and digits only) to resource fields
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  title: "title",
+  name: "title",
+  description: "description",
+  summary: "summary",
+  category: "category",
+  resourcetype: "resourceType",
+  type: "resourceType",
+  subject: "subject",
+  gradelevel: "gradeLevel",
+  grade: "gradeLevel",
+  tags: "tags",
+  keywords: "tags",
+  standards: "standards",
+  externalurl: "externalUrl",
+  url: "externalUrl",
+  link: "externalUrl",
+  thumbnailurl: "thumbnailUrl",
+  thumbnail: "thumbnailUrl",
+  file: "file",
+  filename: "file",
+  path: "file",
+};
+
+// Fields whose values are enum members; "Lesson Plan" and "pre-k" become lesson_plan and pre_k
+const ENUM_FIELDS: ImportField[] = ["category", "resourceType", "subject", "gradeLevel"];
+
+// Fields the import's defaults may fill in
+const IMPORT_DEFAULT_FIELDS = ["category", "subject", "gradeLevel"] as const;
+
+type SourceRow = {
+  row: number;
+  fields: Partial<Record<ImportField, string>>;
+  file?: ZipFile;
+  errors: string[];
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Parse RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF line ends. */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function rowsFromCsv(text: string): SourceRow[] {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) throw new Error("The CSV is empty");
+
+  const columns = header.map((name) => COLUMN_ALIASES[name.toLowerCase().replace(/[^a-z0-9]/g, "")]);
+  if (!columns.includes("title")) {
+    throw new Error('The CSV needs a "title" column');
+  }
+  if (lines.length > IMPORT_CONFIG.MAX_ROWS) {
+    throw new Error(`Imports are limited to ${IMPORT_CONFIG.MAX_ROWS} rows`);
+  }
+
+  return lines.map((values, index) => {
+    const fields: SourceRow["fields"] = {};
+    columns.forEach((field, column) => {
+      const value = values[column]?.trim();
+      if (field && value) fields[field] = value;
+    });
+    return { row: index + 1, fields, errors: [] };
+  });
+}
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+
+function xmlAttribute(attributes: string, name: string) {
+  const match = new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? decodeXml(match[2] ?? match[3]) : null;
+}
+
+// Archive lookup that ignores case and a leading "./"
+function fileIndex(files: ZipFile[]) {
+  const byName = new Map(files.map((file) => [file.name.replace(/^\.\//, "").toLowerCase(), file]));
+  return (name: string) => byName.get(path.posix.normalize(name.replace(/\\/g, "/")).replace(/^\.\//, "").toLowerCase());
+}
+
+type ImportContext = {
+  job: ResourceImport;
+  user: User;
+  bytesImported: number; // uncompressed bytes read from the package
+};
+
+// Read a manifest or link entry, checking its declared size before inflating it
+function readPackageEntry(context: ImportContext, file: ZipFile) {
+  if (file.size > IMPORT_CONFIG.MAX_MANIFEST_BYTES) {
+    throw new Error(`"${file.name}" is larger than ${Math.round(IMPORT_CONFIG.MAX_MANIFEST_BYTES / (1024 * 1024))} MB`);
+  }
+  if (context.bytesImported + file.size > IMPORT_CONFIG.MAX_PACKAGE_BYTES) {
+    throw new Error("The package's total size limit was reached");
+  }
+  const data = file.read();
+  context.bytesImported += data.length;
+  return data.toString("utf8");
+}
+
+function rowsFromZipCsv(context: ImportContext, files: ZipFile[]): SourceRow[] {
+  const csvFiles = files
+    .filter((file) => file.name.toLowerCase().endsWith(".csv") && !file.name.startsWith("__MACOSX/"))
+    .sort((a, b) => a.name.split("/").length - b.name.split("/").length);
+  const manifest = csvFiles.find((file) => path.posix.basename(file.name).toLowerCase() === "manifest.csv") ??
+    (csvFiles.length === 1 ? csvFiles[0] : undefined);
+  if (!manifest) {
+    throw new Error('The ZIP needs a "manifest.csv" (or exactly one CSV file) listing its resources');
+  }
+
+  const find = fileIndex(files);
+  const baseDir = path.posix.dirname(manifest.name);
+  return rowsFromCsv(readPackageEntry(context, manifest)).map((row) => {
+    const name = row.fields.file;
+    if (!name) return row;
+    const file = find(path.posix.join(baseDir, name)) ?? find(name);
+    return file ? { ...row, file } : { ...row, errors: [`File "${name}" is not in the ZIP`] };
+  });
+}
+
+function rowsFromCartridge(context: ImportContext, files: ZipFile[]): SourceRow[] {
+  const find = fileIndex(files);
+  const manifestFile = find("imsmanifest.xml");
+  if (!manifestFile) throw new Error("Not a Common Cartridge: imsmanifest.xml is missing");
+  const manifest = readPackageEntry(context, manifestFile);
+
+  // Resources by identifier: type, href and the first listed file
+  const cartridgeResources = new Map<string, { type: string; href: string | null }>();
+  const resourcePattern = /<resource\b([^>]*?)(?:\/>|>([\s\S]*?)<\/resource>)/g;
+  for (let match = resourcePattern.exec(manifest); match; match = resourcePattern.exec(manifest)) {
+    const identifier = xmlAttribute(match[1], "identifier");
+    if (!identifier) continue;
+    const fileTag = /<file\b([^>]*)>/.exec(match[2] ?? "");
+    cartridgeResources.set(identifier, {
+      type: xmlAttribute(match[1], "type") ?? "",
+      href: xmlAttribute(match[1], "href") ?? (fileTag ? xmlAttribute(fileTag[1], "href") : null),
+    });
+  }
+
+  // Items that point at a resource, in organization order
+  const rows: SourceRow[] = [];
+  const itemPattern = /<item\b([^>]*)>\s*<title>([\s\S]*?)<\/title>/g;
+  for (let match = itemPattern.exec(manifest); match; match = itemPattern.exec(manifest)) {
+    const ref = xmlAttribute(match[1], "identifierref");
+    if (!ref) continue; // a folder (module)
+    if (rows.length >= IMPORT_CONFIG.MAX_ROWS) {
+      throw new Error(`Imports are limited to ${IMPORT_CONFIG.MAX_ROWS} rows`);
+    }
+
+    const row: SourceRow = { row: rows.length + 1, fields: { title: decodeXml(match[2]) }, errors: [] };
+    rows.push(row);
+
+    const resource = cartridgeResources.get(ref);
+    if (!resource) {
+      row.errors.push(`Item refers to missing resource "${ref}"`);
+    } else if (resource.type.startsWith("imswl_")) {
+      const link = resource.href ? find(resource.href) : undefined;
+      let xml = "";
+      try {
+        xml = link ? readPackageEntry(context, link) : "";
+      } catch (error) {
+        row.errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+      const url = /<url\b([^>]*)>/.exec(xml);
+      const href = url ? xmlAttribute(url[1], "href") : null;
+      if (href) row.fields.externalUrl = href;
+      else row.errors.push("Web link has no URL");
+    } else if (resource.type === "webcontent" || resource.type.startsWith("associatedcontent")) {
+      const file = resource.href ? find(resource.href) : undefined;
+      if (file) {
+        row.file = file;
+        row.fields.file = file.name;
+      } else {
+        row.errors.push(`File "${resource.href ?? ref}" is not in the package`);
+      }
+    } else {
+      row.errors.push(`Unsupported cartridge item type "${resource.type}"`);
+    }
+  }
+
+  return rows;
+}
+
+// ============================================================================
+// ROWS TO RESOURCES
+// ============================================================================
+
+const normalizeEnum = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+const splitList = (value: string | undefined) =>
+  value
+    ? value
+        .split(/[;,|]/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : undefined;
+
+// Validate one row and create its draft. Returns the new resource id, or the row's errors.
+async function importRow(db: DbExecutor, context: ImportContext, row: SourceRow) {
+  if (row.errors.length > 0) return { errors: row.errors };
+
+  const fields = { ...row.fields };
+  for (const field of ENUM_FIELDS) {
+    if (fields[field]) fields[field] = normalizeEnum(fields[field]!);
+  }
+  for (const field of IMPORT_DEFAULT_FIELDS) {
+    fields[field] ??= context.job.defaults[field];
+  }
+
+  // Files: enforce sizes before reading, then check the content against the type
+  let file: { data: Buffer; mimeType: string; name: string } | null = null;
+  if (row.file) {
+    const limit = maxUploadSize(context.user.role);
+    if (row.file.size > limit) {
+      return { errors: [`File is larger than your ${Math.round(limit / (1024 * 1024))} MB upload limit`] };
+    }
+    if (context.bytesImported + row.file.size > IMPORT_CONFIG.MAX_PACKAGE_BYTES) {
+      return { errors: ["The package's total size limit was reached before this file"] };
+    }
+    const data = row.file.read();
+    context.bytesImported += data.length;
+    const mimeType = sniffMimeType(data.subarray(0, 64 * 1024));
+    fields.resourceType ??= resourceTypeForMimeType(mimeType);
+    file = { data, mimeType, name: path.posix.basename(row.file.name) };
+  } else if (row.fields.file) {
+    return { errors: ["Files can only be imported from a ZIP or cartridge package"] };
+  } else if (fields.externalUrl) {
+    fields.resourceType ??= "link";
+  } else {
+    return { errors: ["Row needs a file or a URL"] };
+  }
+
+  const parsed = createResourceInput.safeParse({
+    title: fields.title,
+    description: fields.description,
+    summary: fields.summary,
+    category: fields.category,
+    resourceType: fields.resourceType,
+    subject: fields.subject,
+    gradeLevel: fields.gradeLevel,
+    tags: splitList(fields.tags),
+    standards: splitList(fields.standards),
+    externalUrl: fields.externalUrl,
+    thumbnailUrl: fields.thumbnailUrl,
+  });
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+  const input = parsed.data;
+  if (file && !isAllowedMimeType(input.resourceType, file.mimeType)) {
+    return { errors: [`File content (${file.mimeType}) does not match resource type "${input.resourceType}"`] };
+  }
+
+  const id = nanoid();
+  const newResource: InsertResource = {
+    id,
+    ...input,
+    contributorId: context.user.id,
+    status: "draft",
+    tags: input.tags ?? [],
+    standards: input.standards ?? [],
+  };
+
+  if (file) {
+    const stored = await storagePut(
+      `uploads/${context.user.id}/import-${context.job.id}/${row.row}-${safeFileName(file.name)}`,
+      file.data,
+      file.mimeType
+    );
+    Object.assign(newResource, {
+      fileUrl: stored.url,
+      fileKey: stored.key,
+      fileName: file.name,
+      fileSize: file.data.length,
+      fileMimeType: file.mimeType,
+      fileSha256: createHash("sha256").update(file.data).digest("hex"),
+    });
+  }
+
+  const [created] = await db.insert(resources).values(newResource).returning();
+  await recordInitialVersion(db, created);
+  return { resourceId: id };
+}
+
+// ============================================================================
+// JOB
+// ============================================================================
+
+async function readUploadedFile(db: DbExecutor, job: ResourceImport) {
+  const [upload] = await db.select().from(uploads).where(eq(uploads.id, job.uploadId ?? ""));
+  if (!upload || upload.userId !== job.userId || !upload.storageKey) {
+    throw new Error("The uploaded file is no longer available");
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "apex-import-"));
+  const filePath = path.join(workDir, "source");
+  try {
+    await storageDownload(upload.storageKey, filePath);
+    return await fs.promises.readFile(filePath);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+async function loadRows(db: DbExecutor, context: ImportContext) {
+  const { job } = context;
+  if (job.format === "csv_links") {
+    const text = job.csv ?? (await readUploadedFile(db, job)).toString("utf8");
+    return rowsFromCsv(text);
+  }
+
+  const files = readZip(await readUploadedFile(db, job));
+  return job.format === "common_cartridge" ? rowsFromCartridge(context, files) : rowsFromZipCsv(context, files);
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function reportCsv(report: ResourceImportRow[]) {
+  const lines = [["row", "title", "source", "status", "resource_id", "errors"].join(",")];
+  for (const entry of report) {
+    lines.push(
+      [
+        entry.row,
+        entry.title,
+        entry.source,
+        entry.resourceId ? "created" : "error",
+        entry.resourceId,
+        entry.errors.join("; "),
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Run one import. The row is claimed by moving it from pending to running, so
+ * concurrent workers never import the same source twice.
+ */
+export async function runResourceImport(db: DbExecutor, importId: string) {
+  const now = new Date();
+  const [job] = await db
+    .update(resourceImports)
+    .set({ status: "running", startedAt: now, updatedAt: now })
+    .where(and(eq(resourceImports.id, importId), eq(resourceImports.status, "pending")))
+    .returning();
+  if (!job) return null;
+
+  try {
+    const [user] = await db.select().from(users).where(eq(users.id, job.userId));
+    if (!user) throw new Error("User not found");
+
+    const context: ImportContext = { job, user, bytesImported: 0 };
+    const rows = await loadRows(db, context);
+    const report: ResourceImportRow[] = [];
+
+    for (const row of rows) {
+      let result: { resourceId?: string; errors?: string[] };
+      try {
+        result = await importRow(db, context, row);
+      } catch (error) {
+        result = { errors: [error instanceof Error ? error.message : String(error)] };
+      }
+      report.push({
+        row: row.row,
+        title: row.fields.title ?? null,
+        source: row.fields.file ?? row.fields.externalUrl ?? null,
+        resourceId: result.resourceId ?? null,
+        errors: result.errors ?? [],
+      });
+    }
+
+    const createdIds = report.flatMap((entry) => (entry.resourceId ? [entry.resourceId] : []));
+    await refreshSearchVectors(db, { resourceIds: createdIds });
+
+    const { key: reportKey } = await storagePut(`imports/${job.userId}/${job.id}/report.csv`, reportCsv(report), "text/csv");
+
+    const completedAt = new Date();
+    await db
+      .update(resourceImports)
+      .set({
+        status: "completed",
+        totalRows: report.length,
+        createdCount: createdIds.length,
+        errorCount: report.length - createdIds.length,
+        report,
+        reportKey,
+        completedAt,
+        updatedAt: completedAt,
+      })
+      .where(eq(resourceImports.id, job.id));
+    return job.id;
+  } catch (error) {
+    const failedAt = new Date();
+    await db
+      .update(resourceImports)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: failedAt,
+        updatedAt: failedAt,
+      })
+      .where(eq(resourceImports.id, job.id));
+    throw error;
+  }
+}
+
+// Imports left running by a crashed or restarted server
+async function failStaleImports(db: DbExecutor) {
+  const cutoff = new Date(Date.now() - IMPORT_CONFIG.STALE_AFTER_MS);
+  await db
+    .update(resourceImports)
+    .set({ status: "failed", error: "Import timed out", updatedAt: new Date() })
+    .where(and(eq(resourceImports.status, "running"), lt(resourceImports.startedAt, cutoff)));
+}
+
+// Run pending imports, oldest first. Returns how many were processed.
+export async function processPendingImports(db: DbExecutor) {
+  await failStaleImports(db);
+
+  const pending = await db
+    .select({ id: resourceImports.id })
+    .from(resourceImports)
+    .where(eq(resourceImports.status, "pending"))
+    .orderBy(asc(resourceImports.createdAt));
+
+  let processed = 0;
+  for (const { id } of pending) {
+    try {
+      if (await runResourceImport(db, id)) processed++;
+    } catch (error) {
+      console.error(`[Import] Import ${id} failed:`, error);
+    }
+  }
+  return processed;
+}
+
+let running = false;
+
+async function tick() {
+  if (running) return;
+  running = true;
+  try {
+    const db = await getDb();
+    if (!db) return;
+    await processPendingImports(db);
+  } catch (error) {
+    console.error("[Import] Job failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+// Start queued imports now rather than at the next interval
+export function kickImportJob() {
+  setTimeout(tick, 0).unref();
+}
+
+// Run the job on an interval inside the server process
+export function startResourceImportJob() {
+  kickImportJob();
+  const timer = setInterval(tick, IMPORT_CONFIG.INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+// Fields of a new resource, shared by resource.create and bulk imports (server/resourceImport.ts)
+export const createResourceInput = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().optional(),
+  summary: z.string().max(500).optional(),
+  category: z.enum([
+    "lesson_plan",
+    "worksheet",
+    "assessment",
+    "presentation",
+    "video",
+    "interactive",
+    "reference",
+    "template",
+    "other",
+  ]),
+  resourceType: z.enum(["pdf", "doc", "ppt", "video", "image", "link", "html", "zip", "other"]),
+  subject: z.enum([
+    "math",
+    "science",
+    "english",
+    "history",
+    "geography",
+    "art",
+    "music",
+    "pe",
+    "computer_science",
+    "foreign_language",
+    "social_studies",
+    "stem",
+    "special_education",
+    "other",
+  ]),
+  gradeLevel: z.enum([
+    "pre_k",
+    "kindergarten",
+    "1st",
+    "2nd",
+    "3rd",
+    "4th",
+    "5th",
+    "6th",
+    "7th",
+    "8th",
+    "9th",
+    "10th",
+    "11th",
+    "12th",
+    "higher_ed",
+    "professional",
+    "all",
+  ]),
+  tags: z.array(z.string()).optional(),
+  standards: z.array(z.string()).optional(),
+  fileUrl: z.string().url().optional(),
+  fileName: z.string().optional(),
+  fileSize: z.number().optional(),
+  thumbnailUrl: z.string().url().optional(),
+  externalUrl: z.string().url().optional(),
+  // Completed upload from upload.complete; takes precedence over the file fields
+  uploadId: z.string().optional(),
+});
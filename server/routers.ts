@@ -15,6 +15,9 @@ import {
   moderationRouter,
   metricsRouter,
   reputationRouter,
+  uploadRouter,
+  commentRouter,
+  reviewRouter,
 } from "./routers/index";
 import { reputationRouter } from "./routers/reputation";
 
@@ -69,6 +72,9 @@ export const appRouter = router({
   moderation: moderationRouter,
   metrics: metricsRouter,
   reputation: reputationRouter,
+  upload: uploadRouter,
+  comment: commentRouter,
+  review: reviewRouter,
 });
 
 export type AppRouter = typeof appRouter;
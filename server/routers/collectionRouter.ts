@@ -1,21 +1,34 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { eq, and, or, desc, asc, sql } from "drizzle-orm";
+import { eq, and, or, desc, asc, isNull, isNotNull, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import {
   router,
   publicProcedure,
   protectedProcedure,
 } from "../_core/trpc";
-import { getDb } from "../db";
+import { getDb, type DbExecutor } from "../db";
+import { keysetAfter, keysetCursorKey, keysetOrderBy, paginate, type Keyset } from "../pagination";
+import { canAccessResource } from "../downloads";
+import { kickExportJob, pendingExportsBefore } from "../collectionExport";
+import { storageGet } from "../storage";
+import {
+  getCollectionRole,
+  loadCollectionPlan,
+  loadReadableCollection,
+  requireCollectionRole,
+} from "../collections";
 import {
   collections,
   collectionResources,
   collectionFollowers,
+  collectionCollaborators,
+  collectionSections,
+  collectionExports,
   resources,
   users,
 } from "../../drizzle/schema";
-import { PAGINATION } from "@shared/const";
+import { COLLECTION_CONFIG, COLLECTION_EXPORT_CONFIG, PAGINATION } from "@shared/const";
 
 // Input schemas
 const createCollectionInput = z.object({
@@ -35,17 +48,75 @@ const updateCollectionInput = z.object({
   thumbnailUrl: z.string().url().optional(),
 });
 
+const itemNote = z.string().trim().max(COLLECTION_CONFIG.MAX_NOTE_LENGTH);
+const itemDuration = z.number().int().min(1).max(COLLECTION_CONFIG.MAX_DURATION_MINUTES);
+
 const addResourceInput = z.object({
   collectionId: z.string(),
   resourceId: z.string(),
+  sectionId: z.string().nullable().optional(),
   orderIndex: z.number().optional(),
+  note: itemNote.optional(),
+  durationMinutes: itemDuration.optional(),
+});
+
+const updateItemInput = z.object({
+  collectionId: z.string(),
+  resourceId: z.string(),
+  note: itemNote.nullable().optional(),
+  durationMinutes: itemDuration.nullable().optional(),
 });
 
+// Without sectionId the resources keep their sections; with it (null for no
+// section) they are moved into that section in the given order
 const reorderResourcesInput = z.object({
   collectionId: z.string(),
+  sectionId: z.string().nullable().optional(),
   resourceIds: z.array(z.string()),
 });
 
+const sectionInput = z.object({
+  collectionId: z.string(),
+  title: z.string().trim().min(1).max(COLLECTION_CONFIG.MAX_SECTION_TITLE_LENGTH),
+  description: z.string().trim().max(500).optional(),
+});
+
+const updateSectionInput = z.object({
+  id: z.string(),
+  title: z.string().trim().min(1).max(COLLECTION_CONFIG.MAX_SECTION_TITLE_LENGTH).optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const collaboratorRole = z.enum(["viewer", "editor", "owner"]);
+
+const inviteCollaboratorInput = z.object({
+  collectionId: z.string(),
+  userId: z.string(),
+  role: collaboratorRole.default("editor"),
+});
+
+// Check that a section belongs to the collection
+async function assertSectionInCollection(db: DbExecutor, sectionId: string | null | undefined, collectionId: string) {
+  if (!sectionId) return;
+  const [section] = await db
+    .select({ id: collectionSections.id })
+    .from(collectionSections)
+    .where(and(eq(collectionSections.id, sectionId), eq(collectionSections.collectionId, collectionId)));
+  if (!section) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Section not found" });
+  }
+}
+
+// Load a section and require edit access to its collection
+async function loadEditableSection(db: DbExecutor, sectionId: string, userId: string) {
+  const [section] = await db.select().from(collectionSections).where(eq(collectionSections.id, sectionId));
+  if (!section) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Section not found" });
+  }
+  await requireCollectionRole(db, section.collectionId, userId, "editor");
+  return section;
+}
+
 export const collectionRouter = router({
   // List user's collections
   listUserCollections: publicProcedure
@@ -73,6 +144,8 @@ export const collectionRouter = router({
         conditions.push(or(eq(collections.visibility, "public"), eq(collections.visibility, "unlisted"))!);
       }
 
+      const keyset: Keyset = { sort: "updated", key: collections.updatedAt, id: collections.id, direction: "desc" };
+
       const results = await db
         .select({
           id: collections.id,
@@ -85,19 +158,14 @@ export const collectionRouter = router({
           followerCount: collections.followerCount,
           createdAt: collections.createdAt,
           updatedAt: collections.updatedAt,
+          cursorKey: keysetCursorKey(keyset),
         })
         .from(collections)
-        .where(and(...conditions))
-        .orderBy(desc(collections.updatedAt))
+        .where(and(...conditions, keysetAfter(keyset, input.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
         .limit(input.limit + 1);
 
-      const hasMore = results.length > input.limit;
-      const items = hasMore ? results.slice(0, -1) : results;
-
-      return {
-        items,
-        nextCursor: hasMore ? items[items.length - 1]?.id : undefined,
-      };
+      return paginate(results, input.limit, keyset);
     }),
 
   // Get collection by ID
@@ -105,36 +173,26 @@ export const collectionRouter = router({
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-    const [collection] = await db
-      .select({
-        collection: collections,
-        ownerName: users.name,
-        ownerAvatar: users.avatarUrl,
-      })
-      .from(collections)
-      .leftJoin(users, eq(collections.ownerId, users.id))
-      .where(eq(collections.id, input.id));
-
-    if (!collection) {
-      throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
-    }
-
     // Check visibility
-    if (collection.collection.visibility === "private" && collection.collection.ownerId !== ctx.user?.id) {
-      throw new TRPCError({ code: "FORBIDDEN", message: "This collection is private" });
-    }
+    const { collection, role } = await loadReadableCollection(db, input.id, ctx.user);
+
+    const [owner] = await db
+      .select({ name: users.name, avatarUrl: users.avatarUrl })
+      .from(users)
+      .where(eq(users.id, collection.ownerId));
 
     return {
-      ...collection.collection,
+      ...collection,
       owner: {
-        id: collection.collection.ownerId,
-        name: collection.ownerName,
-        avatarUrl: collection.ownerAvatar,
+        id: collection.ownerId,
+        name: owner?.name ?? null,
+        avatarUrl: owner?.avatarUrl ?? null,
       },
+      myRole: role,
     };
   }),
 
-  // Get resources in a collection
+  // Get resources in a collection, in unit-plan order
   getResources: publicProcedure
     .input(z.object({ collectionId: z.string() }))
     .query(async ({ ctx, input }) => {
@@ -142,34 +200,22 @@ export const collectionRouter = router({
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
       // Check collection visibility
-      const [collection] = await db.select().from(collections).where(eq(collections.id, input.collectionId));
-      if (!collection) {
-        throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
-      }
+      await loadReadableCollection(db, input.collectionId, ctx.user);
 
-      if (collection.visibility === "private" && collection.ownerId !== ctx.user?.id) {
-        throw new TRPCError({ code: "FORBIDDEN", message: "This collection is private" });
-      }
+      const plan = await loadCollectionPlan(db, input.collectionId);
+      return plan.sections.flatMap((section) => section.items);
+    }),
 
-      const items = await db
-        .select({
-          id: resources.id,
-          title: resources.title,
-          summary: resources.summary,
-          category: resources.category,
-          subject: resources.subject,
-          gradeLevel: resources.gradeLevel,
-          thumbnailUrl: resources.thumbnailUrl,
-          netVotes: resources.netVotes,
-          orderIndex: collectionResources.orderIndex,
-          addedAt: collectionResources.addedAt,
-        })
-        .from(collectionResources)
-        .innerJoin(resources, eq(collectionResources.resourceId, resources.id))
-        .where(eq(collectionResources.collectionId, input.collectionId))
-        .orderBy(asc(collectionResources.orderIndex));
+  // Get a collection as a unit plan: sections in order with their items and durations
+  getPlan: publicProcedure
+    .input(z.object({ collectionId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      await loadReadableCollection(db, input.collectionId, ctx.user);
 
-      return items;
+      return loadCollectionPlan(db, input.collectionId);
     }),
 
   // Create collection (authenticated)
@@ -192,22 +238,14 @@ export const collectionRouter = router({
     return { id };
   }),
 
-  // Update collection (owner only)
+  // Update collection (editors; changing visibility needs the owner role)
   update: protectedProcedure.input(updateCollectionInput).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
     const { id, ...updates } = input;
 
-    // Check ownership
-    const [existing] = await db.select().from(collections).where(eq(collections.id, id));
-    if (!existing) {
-      throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
-    }
-
-    if (existing.ownerId !== ctx.user.id) {
-      throw new TRPCError({ code: "FORBIDDEN", message: "You can only edit your own collections" });
-    }
+    await requireCollectionRole(db, id, ctx.user.id, updates.visibility !== undefined ? "owner" : "editor");
 
     await db
       .update(collections)
@@ -217,7 +255,7 @@ export const collectionRouter = router({
     return { success: true };
   }),
 
-  // Delete collection (owner only)
+  // Delete collection (creator only)
   delete: protectedProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
@@ -236,20 +274,13 @@ export const collectionRouter = router({
     return { success: true };
   }),
 
-  // Add resource to collection (owner only)
+  // Add resource to collection (editors)
   addResource: protectedProcedure.input(addResourceInput).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-    // Check ownership
-    const [collection] = await db.select().from(collections).where(eq(collections.id, input.collectionId));
-    if (!collection) {
-      throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
-    }
-
-    if (collection.ownerId !== ctx.user.id) {
-      throw new TRPCError({ code: "FORBIDDEN", message: "You can only add to your own collections" });
-    }
+    await requireCollectionRole(db, input.collectionId, ctx.user.id, "editor");
+    await assertSectionInCollection(db, input.sectionId, input.collectionId);
 
     // Check resource exists
     const [resource] = await db.select().from(resources).where(eq(resources.id, input.resourceId));
@@ -267,13 +298,20 @@ export const collectionRouter = router({
       throw new TRPCError({ code: "CONFLICT", message: "Resource already in collection" });
     }
 
-    // Get next order index if not provided
+    const sectionId = input.sectionId ?? null;
+
+    // Get next order index within the section if not provided
     let orderIndex = input.orderIndex;
     if (orderIndex === undefined) {
       const [maxOrder] = await db
         .select({ max: sql<number>`COALESCE(MAX(${collectionResources.orderIndex}), -1)` })
         .from(collectionResources)
-        .where(eq(collectionResources.collectionId, input.collectionId));
+        .where(
+          and(
+            eq(collectionResources.collectionId, input.collectionId),
+            sectionId ? eq(collectionResources.sectionId, sectionId) : isNull(collectionResources.sectionId)
+          )
+        );
       orderIndex = (maxOrder?.max ?? -1) + 1;
     }
 
@@ -281,7 +319,11 @@ export const collectionRouter = router({
       id: nanoid(),
       collectionId: input.collectionId,
       resourceId: input.resourceId,
+      sectionId,
       orderIndex,
+      note: input.note || null,
+      durationMinutes: input.durationMinutes ?? null,
+      addedBy: ctx.user.id,
     });
 
     // Update resource count
@@ -296,22 +338,14 @@ export const collectionRouter = router({
     return { success: true };
   }),
 
-  // Remove resource from collection (owner only)
+  // Remove resource from collection (editors)
   removeResource: protectedProcedure
     .input(z.object({ collectionId: z.string(), resourceId: z.string() }))
     .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      // Check ownership
-      const [collection] = await db.select().from(collections).where(eq(collections.id, input.collectionId));
-      if (!collection) {
-        throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
-      }
-
-      if (collection.ownerId !== ctx.user.id) {
-        throw new TRPCError({ code: "FORBIDDEN", message: "You can only modify your own collections" });
-      }
+      await requireCollectionRole(db, input.collectionId, ctx.user.id, "editor");
 
       await db
         .delete(collectionResources)
@@ -329,26 +363,19 @@ export const collectionRouter = router({
       return { success: true };
     }),
 
-  // Reorder resources in collection (owner only)
+  // Reorder resources in collection (editors)
   reorderResources: protectedProcedure.input(reorderResourcesInput).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-    // Check ownership
-    const [collection] = await db.select().from(collections).where(eq(collections.id, input.collectionId));
-    if (!collection) {
-      throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
-    }
-
-    if (collection.ownerId !== ctx.user.id) {
-      throw new TRPCError({ code: "FORBIDDEN", message: "You can only modify your own collections" });
-    }
+    await requireCollectionRole(db, input.collectionId, ctx.user.id, "editor");
+    await assertSectionInCollection(db, input.sectionId, input.collectionId);
 
-    // Update order indexes
+    // Update order indexes (and sections, when moving)
     for (let i = 0; i < input.resourceIds.length; i++) {
       await db
         .update(collectionResources)
-        .set({ orderIndex: i })
+        .set({ orderIndex: i, sectionId: input.sectionId })
         .where(and(eq(collectionResources.collectionId, input.collectionId), eq(collectionResources.resourceId, input.resourceIds[i])));
     }
 
@@ -357,6 +384,474 @@ export const collectionRouter = router({
     return { success: true };
   }),
 
+  // Set an item's note and estimated duration (editors)
+  updateItem: protectedProcedure.input(updateItemInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await requireCollectionRole(db, input.collectionId, ctx.user.id, "editor");
+
+    const updated = await db
+      .update(collectionResources)
+      .set({
+        note: input.note === undefined ? undefined : input.note || null,
+        durationMinutes: input.durationMinutes,
+      })
+      .where(and(eq(collectionResources.collectionId, input.collectionId), eq(collectionResources.resourceId, input.resourceId)))
+      .returning({ id: collectionResources.id });
+
+    if (updated.length === 0) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Resource is not in this collection" });
+    }
+
+    await db.update(collections).set({ updatedAt: new Date() }).where(eq(collections.id, input.collectionId));
+
+    return { success: true };
+  }),
+
+  // Add a section at the end of the collection (editors)
+  addSection: protectedProcedure.input(sectionInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await requireCollectionRole(db, input.collectionId, ctx.user.id, "editor");
+
+    const [existing] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        max: sql<number>`COALESCE(MAX(${collectionSections.orderIndex}), -1)`,
+      })
+      .from(collectionSections)
+      .where(eq(collectionSections.collectionId, input.collectionId));
+
+    if (existing.count >= COLLECTION_CONFIG.MAX_SECTIONS) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Collections can have at most ${COLLECTION_CONFIG.MAX_SECTIONS} sections`,
+      });
+    }
+
+    const id = nanoid();
+    await db.insert(collectionSections).values({
+      id,
+      collectionId: input.collectionId,
+      title: input.title,
+      description: input.description || null,
+      orderIndex: existing.max + 1,
+    });
+
+    await db.update(collections).set({ updatedAt: new Date() }).where(eq(collections.id, input.collectionId));
+
+    return { id };
+  }),
+
+  // Rename a section or change its description (editors)
+  updateSection: protectedProcedure.input(updateSectionInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const section = await loadEditableSection(db, input.id, ctx.user.id);
+
+    const now = new Date();
+    await db
+      .update(collectionSections)
+      .set({
+        title: input.title,
+        description: input.description === undefined ? undefined : input.description || null,
+        updatedAt: now,
+      })
+      .where(eq(collectionSections.id, section.id));
+
+    await db.update(collections).set({ updatedAt: now }).where(eq(collections.id, section.collectionId));
+
+    return { success: true };
+  }),
+
+  // Delete a section; its items move to the end of the unsectioned items (editors)
+  deleteSection: protectedProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const section = await loadEditableSection(db, input.id, ctx.user.id);
+
+    await db.transaction(async (tx) => {
+      const [maxOrder] = await tx
+        .select({ max: sql<number>`COALESCE(MAX(${collectionResources.orderIndex}), -1)` })
+        .from(collectionResources)
+        .where(and(eq(collectionResources.collectionId, section.collectionId), isNull(collectionResources.sectionId)));
+
+      await tx
+        .update(collectionResources)
+        .set({
+          sectionId: null,
+          orderIndex: sql`${collectionResources.orderIndex} + ${(maxOrder?.max ?? -1) + 1}`,
+        })
+        .where(eq(collectionResources.sectionId, section.id));
+
+      await tx.delete(collectionSections).where(eq(collectionSections.id, section.id));
+      await tx.update(collections).set({ updatedAt: new Date() }).where(eq(collections.id, section.collectionId));
+    });
+
+    return { success: true };
+  }),
+
+  // Reorder the sections of a collection (editors)
+  reorderSections: protectedProcedure
+    .input(z.object({ collectionId: z.string(), sectionIds: z.array(z.string()) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      await requireCollectionRole(db, input.collectionId, ctx.user.id, "editor");
+
+      for (let i = 0; i < input.sectionIds.length; i++) {
+        await db
+          .update(collectionSections)
+          .set({ orderIndex: i })
+          .where(and(eq(collectionSections.collectionId, input.collectionId), eq(collectionSections.id, input.sectionIds[i])));
+      }
+
+      await db.update(collections).set({ updatedAt: new Date() }).where(eq(collections.id, input.collectionId));
+
+      return { success: true };
+    }),
+
+  // Copy a collection into a new private collection of the caller's, keeping its sections, notes and durations
+  clone: protectedProcedure
+    .input(z.object({ id: z.string(), title: z.string().min(1).max(100).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const { collection: source } = await loadReadableCollection(db, input.id, ctx.user);
+      const plan = await loadCollectionPlan(db, source.id);
+
+      // Leave out items the caller could not open themselves
+      const statuses = await db
+        .select({ id: resources.id, status: resources.status, contributorId: resources.contributorId })
+        .from(collectionResources)
+        .innerJoin(resources, eq(collectionResources.resourceId, resources.id))
+        .where(eq(collectionResources.collectionId, source.id));
+      const visible = new Set(statuses.filter((r) => canAccessResource(r, ctx.user)).map((r) => r.id));
+
+      const id = nanoid();
+      let copied = 0;
+
+      await db.transaction(async (tx) => {
+        await tx.insert(collections).values({
+          id,
+          ownerId: ctx.user.id,
+          title: input.title ?? `${source.title} (copy)`.slice(0, 100),
+          description: source.description,
+          visibility: "private",
+          tags: source.tags ?? [],
+          thumbnailUrl: source.thumbnailUrl,
+        });
+
+        for (let sectionIndex = 0; sectionIndex < plan.sections.length; sectionIndex++) {
+          const section = plan.sections[sectionIndex];
+          const sectionId = section.id ? nanoid() : null;
+          if (sectionId) {
+            await tx.insert(collectionSections).values({
+              id: sectionId,
+              collectionId: id,
+              title: section.title ?? "",
+              description: section.description,
+              orderIndex: sectionIndex,
+            });
+          }
+
+          const items = section.items.filter((item) => visible.has(item.id));
+          if (items.length === 0) continue;
+          await tx.insert(collectionResources).values(
+            items.map((item, orderIndex) => ({
+              id: nanoid(),
+              collectionId: id,
+              resourceId: item.id,
+              sectionId,
+              orderIndex,
+              note: item.note,
+              durationMinutes: item.durationMinutes,
+              addedBy: ctx.user.id,
+            }))
+          );
+          copied += items.length;
+        }
+
+        await tx.update(collections).set({ resourceCount: copied }).where(eq(collections.id, id));
+      });
+
+      return { id, resourceCount: copied };
+    }),
+
+  // Queue an export of a collection as an IMS Common Cartridge or a ZIP bundle
+  requestExport: protectedProcedure
+    .input(z.object({ collectionId: z.string(), format: z.enum(["common_cartridge", "zip"]) }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      await loadReadableCollection(db, input.collectionId, ctx.user);
+
+      // Reuse an export of the same collection that is still queued or building
+      const [inProgress] = await db
+        .select({ id: collectionExports.id })
+        .from(collectionExports)
+        .where(
+          and(
+            eq(collectionExports.collectionId, input.collectionId),
+            eq(collectionExports.requestedBy, ctx.user.id),
+            eq(collectionExports.format, input.format),
+            or(eq(collectionExports.status, "pending"), eq(collectionExports.status, "running"))
+          )
+        );
+      if (inProgress) return { id: inProgress.id };
+
+      const id = nanoid();
+      await db.insert(collectionExports).values({
+        id,
+        collectionId: input.collectionId,
+        requestedBy: ctx.user.id,
+        format: input.format,
+        siteUrl: `${ctx.req.protocol}://${ctx.req.get("host")}`,
+      });
+
+      kickExportJob();
+
+      return { id };
+    }),
+
+  // Status of an export, with a download link once it has completed (requester only)
+  getExport: protectedProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const [job] = await db.select().from(collectionExports).where(eq(collectionExports.id, input.id));
+    if (!job || job.requestedBy !== ctx.user.id) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Export not found" });
+    }
+
+    const { storageKey, siteUrl, ...status } = job;
+    return {
+      ...status,
+      queuePosition: job.status === "pending" ? await pendingExportsBefore(db, job) : null,
+      downloadUrl:
+        job.status === "completed" && storageKey
+          ? (await storageGet(storageKey, COLLECTION_EXPORT_CONFIG.DOWNLOAD_URL_TTL_S)).url
+          : null,
+    };
+  }),
+
+  // The logged-in user's exports of a collection, newest first
+  listExports: protectedProcedure.input(z.object({ collectionId: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return db
+      .select({
+        id: collectionExports.id,
+        format: collectionExports.format,
+        status: collectionExports.status,
+        fileName: collectionExports.fileName,
+        fileSize: collectionExports.fileSize,
+        error: collectionExports.error,
+        createdAt: collectionExports.createdAt,
+        completedAt: collectionExports.completedAt,
+      })
+      .from(collectionExports)
+      .where(and(eq(collectionExports.collectionId, input.collectionId), eq(collectionExports.requestedBy, ctx.user.id)))
+      .orderBy(desc(collectionExports.createdAt))
+      .limit(20);
+  }),
+
+  // Collections shared with the logged-in user, with their role
+  listShared: protectedProcedure
+    .input(
+      z.object({
+        cursor: z.string().optional(),
+        limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const keyset: Keyset = { sort: "updated", key: collections.updatedAt, id: collections.id, direction: "desc" };
+
+      const results = await db
+        .select({
+          id: collections.id,
+          title: collections.title,
+          description: collections.description,
+          visibility: collections.visibility,
+          thumbnailUrl: collections.thumbnailUrl,
+          resourceCount: collections.resourceCount,
+          ownerName: users.name,
+          role: collectionCollaborators.role,
+          updatedAt: collections.updatedAt,
+          cursorKey: keysetCursorKey(keyset),
+        })
+        .from(collectionCollaborators)
+        .innerJoin(collections, eq(collectionCollaborators.collectionId, collections.id))
+        .leftJoin(users, eq(collections.ownerId, users.id))
+        .where(
+          and(
+            eq(collectionCollaborators.userId, ctx.user.id),
+            isNotNull(collectionCollaborators.acceptedAt),
+            keysetAfter(keyset, input.cursor)
+          )
+        )
+        .orderBy(...keysetOrderBy(keyset))
+        .limit(input.limit + 1);
+
+      return paginate(results, input.limit, keyset);
+    }),
+
+  // List a collection's owner and collaborators, including pending invitations (members only)
+  listCollaborators: protectedProcedure
+    .input(z.object({ collectionId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const { collection } = await requireCollectionRole(db, input.collectionId, ctx.user.id, "viewer");
+
+      const [owner] = await db
+        .select({ name: users.name, avatarUrl: users.avatarUrl })
+        .from(users)
+        .where(eq(users.id, collection.ownerId));
+
+      const collaborators = await db
+        .select({
+          userId: collectionCollaborators.userId,
+          name: users.name,
+          avatarUrl: users.avatarUrl,
+          role: collectionCollaborators.role,
+          invitedBy: collectionCollaborators.invitedBy,
+          acceptedAt: collectionCollaborators.acceptedAt,
+          createdAt: collectionCollaborators.createdAt,
+        })
+        .from(collectionCollaborators)
+        .leftJoin(users, eq(collectionCollaborators.userId, users.id))
+        .where(eq(collectionCollaborators.collectionId, input.collectionId))
+        .orderBy(asc(collectionCollaborators.createdAt));
+
+      return {
+        owner: { userId: collection.ownerId, name: owner?.name ?? null, avatarUrl: owner?.avatarUrl ?? null },
+        collaborators: collaborators.map((c) => ({ ...c, pending: c.acceptedAt === null })),
+      };
+    }),
+
+  // Invite a user to collaborate, or change a collaborator's role (owners)
+  inviteCollaborator: protectedProcedure.input(inviteCollaboratorInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const { collection } = await requireCollectionRole(db, input.collectionId, ctx.user.id, "owner");
+
+    if (input.userId === collection.ownerId || input.userId === ctx.user.id) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "This user already owns the collection" });
+    }
+
+    const [invitee] = await db.select({ id: users.id }).from(users).where(eq(users.id, input.userId));
+    if (!invitee) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+    }
+
+    // Re-inviting keeps an accepted collaborator accepted and only changes the role
+    await db
+      .insert(collectionCollaborators)
+      .values({
+        id: nanoid(),
+        collectionId: input.collectionId,
+        userId: input.userId,
+        role: input.role,
+        invitedBy: ctx.user.id,
+      })
+      .onConflictDoUpdate({
+        target: [collectionCollaborators.collectionId, collectionCollaborators.userId],
+        set: { role: input.role, updatedAt: new Date() },
+      });
+
+    return { success: true };
+  }),
+
+  // Pending collaboration invitations for the logged-in user
+  listInvitations: protectedProcedure.query(async ({ ctx }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return db
+      .select({
+        collectionId: collections.id,
+        title: collections.title,
+        role: collectionCollaborators.role,
+        invitedBy: collectionCollaborators.invitedBy,
+        inviterName: users.name,
+        createdAt: collectionCollaborators.createdAt,
+      })
+      .from(collectionCollaborators)
+      .innerJoin(collections, eq(collectionCollaborators.collectionId, collections.id))
+      .leftJoin(users, eq(collectionCollaborators.invitedBy, users.id))
+      .where(and(eq(collectionCollaborators.userId, ctx.user.id), isNull(collectionCollaborators.acceptedAt)))
+      .orderBy(desc(collectionCollaborators.createdAt));
+  }),
+
+  // Accept an invitation to collaborate
+  acceptInvitation: protectedProcedure
+    .input(z.object({ collectionId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const now = new Date();
+      const accepted = await db
+        .update(collectionCollaborators)
+        .set({ acceptedAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(collectionCollaborators.collectionId, input.collectionId),
+            eq(collectionCollaborators.userId, ctx.user.id),
+            isNull(collectionCollaborators.acceptedAt)
+          )
+        )
+        .returning({ role: collectionCollaborators.role });
+
+      if (accepted.length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+      }
+
+      return { success: true, role: accepted[0].role };
+    }),
+
+  // Remove a collaborator or revoke an invitation (owners), or leave / decline (the collaborator)
+  removeCollaborator: protectedProcedure
+    .input(z.object({ collectionId: z.string(), userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      if (input.userId !== ctx.user.id) {
+        await requireCollectionRole(db, input.collectionId, ctx.user.id, "owner");
+      }
+
+      const removed = await db
+        .delete(collectionCollaborators)
+        .where(
+          and(
+            eq(collectionCollaborators.collectionId, input.collectionId),
+            eq(collectionCollaborators.userId, input.userId)
+          )
+        )
+        .returning({ id: collectionCollaborators.id });
+
+      if (removed.length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Collaborator not found" });
+      }
+
+      return { success: true };
+    }),
+
   // Follow collection (authenticated)
   follow: protectedProcedure.input(z.object({ collectionId: z.string() })).mutation(async ({ ctx, input }) => {
     const db = await getDb();
@@ -368,7 +863,7 @@ export const collectionRouter = router({
       throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
     }
 
-    if (collection.visibility === "private" && collection.ownerId !== ctx.user.id) {
+    if (collection.visibility === "private" && !(await getCollectionRole(db, collection, ctx.user.id))) {
       throw new TRPCError({ code: "FORBIDDEN", message: "Cannot follow private collections" });
     }
 
@@ -460,23 +955,24 @@ export const collectionRouter = router({
       z.object({
         search: z.string().optional(),
         sort: z.enum(["newest", "popular", "most_resources"]).default("newest"),
-        limit: z.number().default(20),
+        cursor: z.string().optional(),
+        limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(20),
       })
     )
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      let orderBy;
+      let keyset: Keyset;
       switch (input.sort) {
         case "popular":
-          orderBy = desc(collections.followerCount);
+          keyset = { sort: input.sort, key: collections.followerCount, id: collections.id, direction: "desc" };
           break;
         case "most_resources":
-          orderBy = desc(collections.resourceCount);
+          keyset = { sort: input.sort, key: collections.resourceCount, id: collections.id, direction: "desc" };
           break;
         default:
-          orderBy = desc(collections.createdAt);
+          keyset = { sort: "newest", key: collections.createdAt, id: collections.id, direction: "desc" };
       }
 
       const results = await db
@@ -491,13 +987,14 @@ export const collectionRouter = router({
           ownerName: users.name,
           ownerAvatar: users.avatarUrl,
           createdAt: collections.createdAt,
+          cursorKey: keysetCursorKey(keyset),
         })
         .from(collections)
         .leftJoin(users, eq(collections.ownerId, users.id))
-        .where(eq(collections.visibility, "public"))
-        .orderBy(orderBy)
-        .limit(input.limit);
+        .where(and(eq(collections.visibility, "public"), keysetAfter(keyset, input.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
+        .limit(input.limit + 1);
 
-      return results;
+      return paginate(results, input.limit, keyset);
     }),
 });
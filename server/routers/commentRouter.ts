@@ -0,0 +1,263 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq, and, desc, isNull, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { router, publicProcedure, protectedProcedure, moderatorProcedure } from "../_core/trpc";
+import { getDb, type DbInstance } from "../db";
+import { canAccessResource } from "../downloads";
+import { createComment, deleteComment, editComment } from "../comments";
+import { renderMarkdown } from "../markdown";
+import { keysetAfter, keysetCursorKey, keysetOrderBy, paginate, type Keyset } from "../pagination";
+import { resourceCommentEdits, resourceComments, resources, users, type User } from "../../drizzle/schema";
+import { COMMENT_CONFIG, PAGINATION } from "@shared/const";
+
+// Input schemas
+const listCommentsInput = z.object({
+  resourceId: z.string(),
+  cursor: z.string().optional(),
+  limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+});
+
+const listRepliesInput = z.object({
+  commentId: z.string(),
+  cursor: z.string().optional(),
+  limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+});
+
+const addCommentInput = z.object({
+  resourceId: z.string(),
+  content: z.string().trim().min(1).max(COMMENT_CONFIG.MAX_LENGTH),
+  parentId: z.string().optional(),
+});
+
+const editCommentInput = z.object({
+  id: z.string(),
+  content: z.string().trim().min(1).max(COMMENT_CONFIG.MAX_LENGTH),
+});
+
+const removeCommentInput = z.object({
+  id: z.string(),
+  reason: z.string().min(1).max(500),
+});
+
+// Newest discussions first; replies read top to bottom
+const topLevelKeyset: Keyset = { sort: "newest", key: resourceComments.createdAt, id: resourceComments.id, direction: "desc" };
+const replyKeyset: Keyset = { sort: "oldest", key: resourceComments.createdAt, id: resourceComments.id, direction: "asc" };
+
+const replies = alias(resourceComments, "replies");
+
+const commentFields = (keyset: Keyset) => ({
+  id: resourceComments.id,
+  parentId: resourceComments.parentId,
+  depth: resourceComments.depth,
+  content: resourceComments.content,
+  contentHtml: resourceComments.contentHtml,
+  isEdited: resourceComments.isEdited,
+  editedAt: resourceComments.editedAt,
+  deletedAt: resourceComments.deletedAt,
+  deletedBy: resourceComments.deletedBy,
+  createdAt: resourceComments.createdAt,
+  userId: resourceComments.userId,
+  userName: users.name,
+  userAvatar: users.avatarUrl,
+  replyCount: sql<number>`(SELECT count(*)::int FROM ${replies} WHERE ${replies.parentId} = ${resourceComments.id})`,
+  cursorKey: keysetCursorKey(keyset),
+});
+
+type CommentRow = {
+  id: string;
+  parentId: string | null;
+  depth: number;
+  content: string;
+  contentHtml: string | null;
+  isEdited: boolean;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  deletedBy: string | null;
+  createdAt: Date;
+  userId: string;
+  userName: string | null;
+  userAvatar: string | null;
+  replyCount: number;
+};
+
+// Hide the text of deleted comments; keep the node so its replies stay threaded.
+// Comments written before markdown rendering have no stored HTML; render them here.
+function toThreadComment(row: CommentRow) {
+  const deleted = row.deletedAt ? (row.deletedBy === row.userId ? "author" : "moderator") : null;
+  return {
+    id: row.id,
+    parentId: row.parentId,
+    depth: row.depth,
+    content: deleted ? null : row.content,
+    contentHtml: deleted ? null : (row.contentHtml ?? renderMarkdown(row.content)),
+    isEdited: row.isEdited,
+    editedAt: row.editedAt,
+    deleted,
+    createdAt: row.createdAt,
+    replyCount: row.replyCount,
+    author: deleted ? null : { id: row.userId, name: row.userName, avatarUrl: row.userAvatar },
+  };
+}
+
+export type ThreadComment = ReturnType<typeof toThreadComment>;
+
+// Check the resource exists and the caller may see it
+async function assertCanView(db: DbInstance, resourceId: string, user: User | null) {
+  const [resource] = await db
+    .select({ status: resources.status, contributorId: resources.contributorId })
+    .from(resources)
+    .where(eq(resources.id, resourceId));
+  if (!resource || !canAccessResource(resource, user)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
+  }
+}
+
+async function fetchReplies(db: DbInstance, parentId: string, cursor: string | undefined, limit: number) {
+  const rows = await db
+    .select(commentFields(replyKeyset))
+    .from(resourceComments)
+    .leftJoin(users, eq(resourceComments.userId, users.id))
+    .where(and(eq(resourceComments.parentId, parentId), keysetAfter(replyKeyset, cursor)))
+    .orderBy(...keysetOrderBy(replyKeyset))
+    .limit(limit + 1);
+
+  const page = paginate(rows, limit, replyKeyset);
+  return { items: page.items.map(toThreadComment), nextCursor: page.nextCursor };
+}
+
+async function loadCommentResource(db: DbInstance, commentId: string) {
+  const [comment] = await db
+    .select({
+      id: resourceComments.id,
+      resourceId: resourceComments.resourceId,
+      userId: resourceComments.userId,
+      deletedAt: resourceComments.deletedAt,
+    })
+    .from(resourceComments)
+    .where(eq(resourceComments.id, commentId));
+  if (!comment) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+  }
+  return comment;
+}
+
+export const commentRouter = router({
+  // Top-level comments of a resource, each with its first page of replies
+  list: publicProcedure.input(listCommentsInput).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await assertCanView(db, input.resourceId, ctx.user);
+
+    const rows = await db
+      .select(commentFields(topLevelKeyset))
+      .from(resourceComments)
+      .leftJoin(users, eq(resourceComments.userId, users.id))
+      .where(
+        and(
+          eq(resourceComments.resourceId, input.resourceId),
+          isNull(resourceComments.parentId),
+          keysetAfter(topLevelKeyset, input.cursor)
+        )
+      )
+      .orderBy(...keysetOrderBy(topLevelKeyset))
+      .limit(input.limit + 1);
+
+    const page = paginate(rows, input.limit, topLevelKeyset);
+
+    const items = await Promise.all(
+      page.items.map(async (row) => ({
+        ...toThreadComment(row),
+        replies:
+          row.replyCount > 0
+            ? await fetchReplies(db, row.id, undefined, COMMENT_CONFIG.REPLY_PAGE_SIZE)
+            : { items: [], nextCursor: undefined },
+      }))
+    );
+
+    return { items, nextCursor: page.nextCursor };
+  }),
+
+  // Direct replies to a comment, oldest first
+  listReplies: publicProcedure.input(listRepliesInput).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const parent = await loadCommentResource(db, input.commentId);
+    await assertCanView(db, parent.resourceId, ctx.user);
+
+    return fetchReplies(db, input.commentId, input.cursor, input.limit);
+  }),
+
+  // Add a comment or reply (authenticated)
+  add: protectedProcedure.input(addCommentInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await assertCanView(db, input.resourceId, ctx.user);
+
+    return createComment(db, {
+      resourceId: input.resourceId,
+      userId: ctx.user.id,
+      content: input.content,
+      parentId: input.parentId,
+    });
+  }),
+
+  // Edit own comment
+  edit: protectedProcedure.input(editCommentInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return editComment(db, { commentId: input.id, userId: ctx.user.id, content: input.content });
+  }),
+
+  // Delete own comment (soft delete; replies stay)
+  delete: protectedProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const comment = await loadCommentResource(db, input.id);
+    if (comment.userId !== ctx.user.id) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "You can only delete your own comments" });
+    }
+
+    await deleteComment(db, { commentId: input.id, deletedBy: ctx.user.id });
+    return { success: true };
+  }),
+
+  // Remove any comment (moderator+)
+  remove: moderatorProcedure.input(removeCommentInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await deleteComment(db, { commentId: input.id, deletedBy: ctx.user.id, reason: input.reason });
+    return { success: true };
+  }),
+
+  // Edit history, newest first (hidden for deleted comments except to moderators)
+  history: publicProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const comment = await loadCommentResource(db, input.id);
+    await assertCanView(db, comment.resourceId, ctx.user);
+
+    const isModerator = !!ctx.user && ["moderator", "admin"].includes(ctx.user.role);
+    if (comment.deletedAt && !isModerator) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+    }
+
+    return db
+      .select({
+        id: resourceCommentEdits.id,
+        previousContent: resourceCommentEdits.previousContent,
+        editedBy: resourceCommentEdits.editedBy,
+        createdAt: resourceCommentEdits.createdAt,
+      })
+      .from(resourceCommentEdits)
+      .where(eq(resourceCommentEdits.commentId, input.id))
+      .orderBy(desc(resourceCommentEdits.createdAt));
+  }),
+});
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { eq, and, desc, asc, sql, lte, gte } from "drizzle-orm";
+import { eq, and, desc, asc, sql, lte, gte, isNotNull } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import {
   router,
@@ -10,13 +10,31 @@ import {
   adminProcedure,
 } from "../_core/trpc";
 import { getDb } from "../db";
+import { keysetAfter, keysetCursorKey, keysetOrderBy, paginate, type Keyset } from "../pagination";
+import { postRc } from "../ledger";
+import {
+  closeProposal,
+  emitProposalEvent,
+  kickScheduler,
+  recordProposalEvent,
+  runScheduler,
+  scheduleJob,
+} from "../proposalLifecycle";
+import { eligibleVotingRc, tallyProposal } from "../proposalResults";
+import { findDelegationCycle, normalizeTag } from "../delegation";
+import { adjustVoteCounters, recordVoteHistory, voteReceiptHash } from "../voteReceipts";
 import {
   proposals,
+  proposalEvents,
   proposalVotes,
+  proposalVoteHistory,
+  scheduledJobs,
   users,
-  rcTransactions,
+  voteDelegations,
 } from "../../drizzle/schema";
-import { RC_CONFIG, PAGINATION } from "@shared/const";
+import { RC_CONFIG, PAGINATION, SCHEDULER_CONFIG, GOVERNANCE_CONFIG } from "@shared/const";
+
+const tallyModes = ["one_person_one_vote", "linear_rc", "quadratic_rc", "capped_rc"] as const;
 
 // Input schemas
 const createProposalInput = z.object({
@@ -24,7 +42,16 @@ const createProposalInput = z.object({
   summary: z.string().min(20).max(500),
   body: z.string().min(100).max(10000),
   tags: z.array(z.string()).optional(),
-  votingDurationDays: z.number().min(3).max(30).default(7),
+  votingDurationDays: z.number().min(3).max(30).default(SCHEDULER_CONFIG.DEFAULT_VOTING_DAYS),
+  // Open voting later; the proposal stays an editable draft until then
+  votingStartsAt: z.date().optional(),
+  // Pass rules; GOVERNANCE_CONFIG holds the defaults
+  quorumRcPercent: z.number().int().min(GOVERNANCE_CONFIG.MIN_QUORUM_RC_PERCENT).max(100).optional(),
+  quorumMinVoters: z.number().int().min(GOVERNANCE_CONFIG.MIN_QUORUM_VOTERS).max(GOVERNANCE_CONFIG.MAX_QUORUM_VOTERS).optional(),
+  abstainCountsTowardQuorum: z.boolean().optional(),
+  passThreshold: z.enum(["simple_majority", "two_thirds"]).optional(),
+  tallyMode: z.enum(tallyModes).optional(),
+  tallyCapRc: z.number().int().min(1).optional(), // capped_rc only
 });
 
 const updateProposalInput = z.object({
@@ -40,34 +67,6 @@ const voteInput = z.object({
   choice: z.enum(["for", "against", "abstain"]),
 });
 
-// Helper: Award RC and log transaction
-async function awardRc(
-  db: NonNullable<Awaited<ReturnType<typeof getDb>>>,
-  userId: string,
-  amount: number,
-  reason: typeof rcTransactions.$inferInsert["reason"],
-  referenceType?: string,
-  referenceId?: string
-) {
-  const [user] = await db.select({ rc: users.reputationCredits }).from(users).where(eq(users.id, userId));
-  const currentRc = user?.rc ?? 0;
-  const newBalance = currentRc + amount;
-
-  await db.update(users).set({ reputationCredits: newBalance, updatedAt: new Date() }).where(eq(users.id, userId));
-
-  await db.insert(rcTransactions).values({
-    id: nanoid(),
-    userId,
-    amount,
-    reason,
-    referenceType,
-    referenceId,
-    balanceAfter: newBalance,
-  });
-
-  return newBalance;
-}
-
 // Procedure requiring minimum RC to create proposals
 const proposalCreateProcedure = createMinRcProcedure(RC_CONFIG.MIN_RC_TO_CREATE_PROPOSAL);
 const proposalVoteProcedure = createMinRcProcedure(RC_CONFIG.MIN_RC_TO_VOTE_ON_PROPOSAL);
@@ -86,6 +85,7 @@ export const governanceRouter = router({
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
       const now = new Date();
+      const keyset: Keyset = { sort: "ending_soon", key: proposals.votingEndsAt, id: proposals.id, direction: "asc" };
 
       const results = await db
         .select({
@@ -104,20 +104,21 @@ export const governanceRouter = router({
           authorId: proposals.authorId,
           authorName: users.name,
           authorAvatar: users.avatarUrl,
+          cursorKey: keysetCursorKey(keyset),
         })
         .from(proposals)
         .leftJoin(users, eq(proposals.authorId, users.id))
         .where(
           and(
             eq(proposals.status, "active"),
-            gte(proposals.votingEndsAt, now)
+            gte(proposals.votingEndsAt, now),
+            keysetAfter(keyset, input.cursor)
           )
         )
-        .orderBy(asc(proposals.votingEndsAt))
+        .orderBy(...keysetOrderBy(keyset))
         .limit(input.limit + 1);
 
-      const hasMore = results.length > input.limit;
-      const items = hasMore ? results.slice(0, -1) : results;
+      const { items, nextCursor } = paginate(results, input.limit, keyset);
 
       return {
         items: items.map((item) => ({
@@ -128,7 +129,7 @@ export const governanceRouter = router({
             avatarUrl: item.authorAvatar,
           },
         })),
-        nextCursor: hasMore ? items[items.length - 1]?.id : undefined,
+        nextCursor,
       };
     }),
 
@@ -160,6 +161,14 @@ export const governanceRouter = router({
         conditions.push(eq(proposals.authorId, input.authorId));
       }
 
+      // Withdrawn proposals may have no closedAt; fall back to when they were created
+      const keyset: Keyset = {
+        sort: "recently_closed",
+        key: sql`coalesce(${proposals.closedAt}, ${proposals.createdAt})`,
+        id: proposals.id,
+        direction: "desc",
+      };
+
       const results = await db
         .select({
           id: proposals.id,
@@ -174,20 +183,15 @@ export const governanceRouter = router({
           createdAt: proposals.createdAt,
           closedAt: proposals.closedAt,
           authorName: users.name,
+          cursorKey: keysetCursorKey(keyset),
         })
         .from(proposals)
         .leftJoin(users, eq(proposals.authorId, users.id))
-        .where(and(...conditions))
-        .orderBy(desc(proposals.closedAt))
+        .where(and(...conditions, keysetAfter(keyset, input.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
         .limit(input.limit + 1);
 
-      const hasMore = results.length > input.limit;
-      const items = hasMore ? results.slice(0, -1) : results;
-
-      return {
-        items,
-        nextCursor: hasMore ? items[items.length - 1]?.id : undefined,
-      };
+      return paginate(results, input.limit, keyset);
     }),
 
   // Get proposal by ID (public)
@@ -233,7 +237,10 @@ export const governanceRouter = router({
           id: proposalVotes.id,
           choice: proposalVotes.choice,
           weightRc: proposalVotes.weightRc,
+          castById: proposalVotes.castById, // set on delegated votes
+          receiptHash: proposalVotes.receiptHash,
           createdAt: proposalVotes.createdAt,
+          updatedAt: proposalVotes.updatedAt,
           voterName: users.name,
           voterAvatar: users.avatarUrl,
         })
@@ -251,36 +258,78 @@ export const governanceRouter = router({
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
+    const tallyMode = input.tallyMode ?? GOVERNANCE_CONFIG.DEFAULT_TALLY_MODE;
+    if (input.tallyCapRc !== undefined && tallyMode !== "capped_rc") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "A tally cap only applies to capped_rc tallies" });
+    }
+
     const id = nanoid();
     const now = new Date();
-    const votingEndsAt = new Date(now.getTime() + input.votingDurationDays * 24 * 60 * 60 * 1000);
-
-    await db.insert(proposals).values({
-      id,
-      authorId: ctx.user.id,
-      title: input.title,
-      summary: input.summary,
-      body: input.body,
-      tags: input.tags ?? [],
-      status: "active",
-      snapshotRc: ctx.user.reputationCredits ?? 0,
-      minRcToCreate: RC_CONFIG.MIN_RC_TO_CREATE_PROPOSAL,
-      minRcToVote: RC_CONFIG.MIN_RC_TO_VOTE_ON_PROPOSAL,
-      activatedAt: now,
-      votingEndsAt,
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    const scheduled = input.votingStartsAt !== undefined && input.votingStartsAt > now;
+    if (scheduled && input.votingStartsAt!.getTime() - now.getTime() > SCHEDULER_CONFIG.MAX_START_DELAY_DAYS * dayMs) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Voting can start at most ${SCHEDULER_CONFIG.MAX_START_DELAY_DAYS} days ahead`,
+      });
+    }
+    const votingStartsAt = scheduled ? input.votingStartsAt! : now;
+    const votingEndsAt = new Date(votingStartsAt.getTime() + input.votingDurationDays * dayMs);
+    const status = scheduled ? "draft" : "active";
+    // Quorum is measured against the RC eligible when voting opens
+    const eligibleRc = scheduled ? null : await eligibleVotingRc(db, RC_CONFIG.MIN_RC_TO_VOTE_ON_PROPOSAL);
+
+    // The proposal, its audit entry and its first scheduled job commit together
+    const event = await db.transaction(async (tx) => {
+      await tx.insert(proposals).values({
+        id,
+        authorId: ctx.user.id,
+        title: input.title,
+        summary: input.summary,
+        body: input.body,
+        tags: input.tags ?? [],
+        status,
+        snapshotRc: ctx.user.reputationCredits ?? 0,
+        minRcToCreate: RC_CONFIG.MIN_RC_TO_CREATE_PROPOSAL,
+        minRcToVote: RC_CONFIG.MIN_RC_TO_VOTE_ON_PROPOSAL,
+        quorumRcPercent: input.quorumRcPercent ?? GOVERNANCE_CONFIG.DEFAULT_QUORUM_RC_PERCENT,
+        quorumMinVoters: input.quorumMinVoters ?? GOVERNANCE_CONFIG.DEFAULT_QUORUM_MIN_VOTERS,
+        abstainCountsTowardQuorum:
+          input.abstainCountsTowardQuorum ?? GOVERNANCE_CONFIG.DEFAULT_ABSTAIN_COUNTS_TOWARD_QUORUM,
+        passThreshold: input.passThreshold ?? GOVERNANCE_CONFIG.DEFAULT_PASS_THRESHOLD,
+        tallyMode,
+        tallyCapRc: tallyMode === "capped_rc" ? (input.tallyCapRc ?? GOVERNANCE_CONFIG.DEFAULT_TALLY_CAP_RC) : null,
+        eligibleRc,
+        votingStartsAt,
+        activatedAt: scheduled ? null : now,
+        votingEndsAt,
+      });
+
+      if (scheduled) await scheduleJob(tx, "proposal_activate", id, votingStartsAt);
+      else await scheduleJob(tx, "proposal_close", id, votingEndsAt);
+
+      return recordProposalEvent(tx, {
+        proposalId: id,
+        type: "created",
+        fromStatus: null,
+        toStatus: status,
+        actorId: ctx.user.id,
+        data: { votingStartsAt: votingStartsAt.toISOString(), votingEndsAt: votingEndsAt.toISOString() },
+      });
     });
+    emitProposalEvent(event);
 
     // Deduct RC for creating proposal
-    await awardRc(
-      db,
-      ctx.user.id,
-      RC_CONFIG.PROPOSAL_CREATED,
-      "proposal_created",
-      "proposal",
-      id
-    );
-
-    return { id };
+    await postRc(db, {
+      userId: ctx.user.id,
+      amount: RC_CONFIG.PROPOSAL_CREATED,
+      reason: "proposal_created",
+      referenceType: "proposal",
+      referenceId: id,
+    });
+
+    return { id, status };
   }),
 
   // Update draft proposal (author only)
@@ -316,28 +365,41 @@ export const governanceRouter = router({
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-    const [existing] = await db.select().from(proposals).where(eq(proposals.id, input.id));
-    if (!existing) {
-      throw new TRPCError({ code: "NOT_FOUND", message: "Proposal not found" });
-    }
+    // Lock the proposal so the scheduler cannot close it between the check and the update
+    const event = await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(proposals).where(eq(proposals.id, input.id)).for("update");
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Proposal not found" });
+      }
 
-    if (existing.authorId !== ctx.user.id) {
-      throw new TRPCError({ code: "FORBIDDEN", message: "You can only withdraw your own proposals" });
-    }
+      if (existing.authorId !== ctx.user.id) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You can only withdraw your own proposals" });
+      }
 
-    if (!["draft", "active"].includes(existing.status)) {
-      throw new TRPCError({ code: "BAD_REQUEST", message: "Only draft or active proposals can be withdrawn" });
-    }
+      if (!["draft", "active"].includes(existing.status)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only draft or active proposals can be withdrawn" });
+      }
 
-    await db
-      .update(proposals)
-      .set({ status: "withdrawn", closedAt: new Date(), updatedAt: new Date() })
-      .where(eq(proposals.id, input.id));
+      const now = new Date();
+      await tx
+        .update(proposals)
+        .set({ status: "withdrawn", closedAt: now, updatedAt: now })
+        .where(eq(proposals.id, input.id));
+
+      return recordProposalEvent(tx, {
+        proposalId: input.id,
+        type: "withdrawn",
+        fromStatus: existing.status,
+        toStatus: "withdrawn",
+        actorId: ctx.user.id,
+      });
+    });
+    emitProposalEvent(event);
 
     return { success: true };
   }),
 
-  // Vote on proposal (requires minimum RC)
+  // Vote on proposal, or change an earlier vote while voting is open (requires minimum RC)
   vote: proposalVoteProcedure.input(voteInput).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
@@ -355,64 +417,273 @@ export const governanceRouter = router({
       throw new TRPCError({ code: "BAD_REQUEST", message: "Voting period has ended" });
     }
 
-    // Check existing vote
-    const [existingVote] = await db
-      .select()
-      .from(proposalVotes)
-      .where(and(eq(proposalVotes.proposalId, input.proposalId), eq(proposalVotes.voterId, ctx.user.id)));
-
-    if (existingVote) {
-      throw new TRPCError({ code: "CONFLICT", message: "You have already voted on this proposal" });
-    }
-
+    // A changed vote carries the voter's RC at the time of the change
     const voterRc = ctx.user.reputationCredits ?? 0;
-
-    // Record vote
-    await db.insert(proposalVotes).values({
-      id: nanoid(),
+    const castAt = new Date();
+    const receipt = {
       proposalId: input.proposalId,
       voterId: ctx.user.id,
       choice: input.choice,
       weightRc: voterRc,
-    });
-
-    // Update proposal vote counts
-    const updateData: Record<string, unknown> = {
-      totalRcWeight: sql`${proposals.totalRcWeight} + ${voterRc}`,
-      updatedAt: new Date(),
+      castAt,
     };
+    const receiptHash = voteReceiptHash(receipt);
 
-    if (input.choice === "for") {
-      updateData.votesFor = sql`${proposals.votesFor} + 1`;
-    } else if (input.choice === "against") {
-      updateData.votesAgainst = sql`${proposals.votesAgainst} + 1`;
-    } else {
-      updateData.votesAbstain = sql`${proposals.votesAbstain} + 1`;
-    }
+    // Vote, tallies, history and the voting reward commit together
+    const { voteId, changed } = await db.transaction(async (tx) => {
+      // Lock the proposal so the vote cannot land while it is being closed
+      const [locked] = await tx
+        .select({ status: proposals.status })
+        .from(proposals)
+        .where(eq(proposals.id, input.proposalId))
+        .for("update");
+      if (locked?.status !== "active") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Voting is not open for this proposal" });
+      }
 
-    await db.update(proposals).set(updateData).where(eq(proposals.id, input.proposalId));
+      const [existingVote] = await tx
+        .select()
+        .from(proposalVotes)
+        .where(and(eq(proposalVotes.proposalId, input.proposalId), eq(proposalVotes.voterId, ctx.user.id)))
+        .for("update");
+
+      if (existingVote?.choice === input.choice) {
+        throw new TRPCError({ code: "CONFLICT", message: `You have already voted "${input.choice}" on this proposal` });
+      }
+
+      const previous = existingVote ? { choice: existingVote.choice, weightRc: existingVote.weightRc } : null;
+      const id = existingVote?.id ?? nanoid();
+
+      if (existingVote) {
+        await tx
+          .update(proposalVotes)
+          .set({ choice: input.choice, weightRc: voterRc, receiptHash, updatedAt: castAt })
+          .where(eq(proposalVotes.id, id));
+      } else {
+        await tx.insert(proposalVotes).values({
+          id,
+          proposalId: input.proposalId,
+          voterId: ctx.user.id,
+          choice: input.choice,
+          weightRc: voterRc,
+          receiptHash,
+          createdAt: castAt,
+          updatedAt: castAt,
+        });
+      }
 
-    // Award RC for voting
-    await awardRc(db, ctx.user.id, RC_CONFIG.PROPOSAL_VOTE_CAST, "proposal_vote_cast", "proposal", input.proposalId);
+      await adjustVoteCounters(tx, input.proposalId, previous, { choice: input.choice, weightRc: voterRc });
+      await recordVoteHistory(tx, { ...receipt, voteId: id, receiptHash }, previous);
+
+      // Award RC for voting, once per vote
+      if (!existingVote) {
+        await postRc(tx, {
+          userId: ctx.user.id,
+          amount: RC_CONFIG.PROPOSAL_VOTE_CAST,
+          reason: "proposal_vote_cast",
+          referenceType: "proposal_vote",
+          referenceId: id,
+          meta: { proposalId: input.proposalId },
+        });
+      }
+
+      return { voteId: id, changed: previous !== null };
+    });
 
-    return { success: true, choice: input.choice, weightRc: voterRc };
+    return { success: true, choice: input.choice, weightRc: voterRc, voteId, changed, receiptHash, castAt };
   }),
 
+  // The user's vote history on a proposal, oldest first
+  getVoteHistory: protectedProcedure.input(z.object({ proposalId: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return db
+      .select({
+        id: proposalVoteHistory.id,
+        choice: proposalVoteHistory.choice,
+        weightRc: proposalVoteHistory.weightRc,
+        previousChoice: proposalVoteHistory.previousChoice,
+        previousWeightRc: proposalVoteHistory.previousWeightRc,
+        castById: proposalVoteHistory.castById,
+        receiptHash: proposalVoteHistory.receiptHash,
+        castAt: proposalVoteHistory.castAt,
+      })
+      .from(proposalVoteHistory)
+      .where(and(eq(proposalVoteHistory.proposalId, input.proposalId), eq(proposalVoteHistory.voterId, ctx.user.id)))
+      .orderBy(asc(proposalVoteHistory.castAt));
+  }),
+
+  // Look up a vote receipt: the choice it was issued for, and whether that choice is the one that counts
+  verifyReceipt: publicProcedure
+    .input(z.object({ receiptHash: z.string().regex(/^[0-9a-f]{64}$/) }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [entry] = await db
+        .select({
+          history: proposalVoteHistory,
+          proposalTitle: proposals.title,
+          proposalStatus: proposals.status,
+          proposalResults: proposals.results,
+          currentReceipt: proposalVotes.receiptHash,
+        })
+        .from(proposalVoteHistory)
+        .innerJoin(proposals, eq(proposalVoteHistory.proposalId, proposals.id))
+        .innerJoin(proposalVotes, eq(proposalVoteHistory.voteId, proposalVotes.id))
+        .where(eq(proposalVoteHistory.receiptHash, input.receiptHash));
+      if (!entry) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Receipt not found" });
+      }
+
+      const { history } = entry;
+      // Superseded receipts belong to a choice the voter later changed
+      const current = entry.currentReceipt === history.receiptHash;
+      return {
+        proposalId: history.proposalId,
+        proposalTitle: entry.proposalTitle,
+        proposalStatus: entry.proposalStatus,
+        voterId: history.voterId,
+        choice: history.choice,
+        weightRc: history.weightRc,
+        castById: history.castById,
+        castAt: history.castAt,
+        current,
+        // Counted in the final tally: the voter's last choice on a closed proposal
+        counted: current && entry.proposalResults !== null,
+      };
+    }),
+
   // Get user's vote on a proposal
   getUserVote: protectedProcedure.input(z.object({ proposalId: z.string() })).query(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
     const [vote] = await db
-      .select()
+      .select({ vote: proposalVotes, castByName: users.name })
       .from(proposalVotes)
+      .leftJoin(users, eq(proposalVotes.castById, users.id))
       .where(and(eq(proposalVotes.proposalId, input.proposalId), eq(proposalVotes.voterId, ctx.user.id)));
 
-    return vote ?? null;
+    return vote ? { ...vote.vote, castByName: vote.castByName } : null;
   }),
 
-  // Close voting and determine result (admin only, or automated)
-  closeVoting: adminProcedure.input(z.object({ id: z.string() })).mutation(async ({ input }) => {
+  // Delegate the user's proposal votes to another user, for all proposals or one tag.
+  // Replaces an existing delegation with the same scope.
+  delegate: protectedProcedure
+    .input(z.object({ delegateId: z.string(), tag: z.string().max(64).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      if (input.delegateId === ctx.user.id) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You cannot delegate to yourself" });
+      }
+      const [delegate] = await db.select({ id: users.id }).from(users).where(eq(users.id, input.delegateId));
+      if (!delegate) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
+      }
+
+      const tag = normalizeTag(input.tag);
+      const cycle = await findDelegationCycle(db, ctx.user.id, input.delegateId, tag);
+      if (cycle) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `This delegation would form a loop (${cycle.length - 1} users delegating in a circle)`,
+        });
+      }
+
+      const now = new Date();
+      await db
+        .insert(voteDelegations)
+        .values({ id: nanoid(), delegatorId: ctx.user.id, delegateId: input.delegateId, tag })
+        .onConflictDoUpdate({
+          target: [voteDelegations.delegatorId, voteDelegations.tag],
+          set: { delegateId: input.delegateId, createdAt: now, updatedAt: now },
+        });
+
+      return { success: true, tag };
+    }),
+
+  // Revoke the user's delegation for all proposals (no tag) or for one tag
+  revokeDelegation: protectedProcedure
+    .input(z.object({ tag: z.string().max(64).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [revoked] = await db
+        .delete(voteDelegations)
+        .where(and(eq(voteDelegations.delegatorId, ctx.user.id), eq(voteDelegations.tag, normalizeTag(input.tag))))
+        .returning({ id: voteDelegations.id });
+      if (!revoked) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Delegation not found" });
+      }
+
+      return { success: true };
+    }),
+
+  // The user's delegations, and the users who delegate to them
+  listDelegations: protectedProcedure.query(async ({ ctx }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const columns = {
+      id: voteDelegations.id,
+      tag: voteDelegations.tag,
+      createdAt: voteDelegations.createdAt,
+      userName: users.name,
+      userAvatar: users.avatarUrl,
+    };
+
+    const outgoing = await db
+      .select({ ...columns, userId: voteDelegations.delegateId })
+      .from(voteDelegations)
+      .leftJoin(users, eq(voteDelegations.delegateId, users.id))
+      .where(eq(voteDelegations.delegatorId, ctx.user.id))
+      .orderBy(asc(voteDelegations.tag));
+
+    const incoming = await db
+      .select({ ...columns, userId: voteDelegations.delegatorId })
+      .from(voteDelegations)
+      .leftJoin(users, eq(voteDelegations.delegatorId, users.id))
+      .where(eq(voteDelegations.delegateId, ctx.user.id))
+      .orderBy(desc(voteDelegations.createdAt));
+
+    return { outgoing, incoming };
+  }),
+
+  // Votes cast on the user's behalf through delegation, newest first
+  listDelegatedVotes: protectedProcedure
+    .input(z.object({ limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE) }))
+    .query(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      return db
+        .select({
+          id: proposalVotes.id,
+          proposalId: proposalVotes.proposalId,
+          proposalTitle: proposals.title,
+          proposalStatus: proposals.status,
+          choice: proposalVotes.choice,
+          weightRc: proposalVotes.weightRc,
+          castById: proposalVotes.castById,
+          castByName: users.name,
+          delegationPath: proposalVotes.delegationPath,
+          createdAt: proposalVotes.createdAt,
+        })
+        .from(proposalVotes)
+        .innerJoin(proposals, eq(proposalVotes.proposalId, proposals.id))
+        .leftJoin(users, eq(proposalVotes.castById, users.id))
+        .where(and(eq(proposalVotes.voterId, ctx.user.id), isNotNull(proposalVotes.castById)))
+        .orderBy(desc(proposalVotes.createdAt))
+        .limit(input.limit);
+    }),
+
+  // Close voting early and determine the result (admin only; the scheduler closes expired proposals)
+  closeVoting: adminProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
@@ -425,28 +696,115 @@ export const governanceRouter = router({
       throw new TRPCError({ code: "BAD_REQUEST", message: "Proposal is not active" });
     }
 
-    // Determine outcome
-    const forVotes = proposal.votesFor ?? 0;
-    const againstVotes = proposal.votesAgainst ?? 0;
+    const closed = await closeProposal(db, input.id, { actorId: ctx.user.id });
+    if (!closed) {
+      throw new TRPCError({ code: "CONFLICT", message: "Proposal was closed concurrently" });
+    }
 
-    const passed = forVotes > againstVotes;
-    const newStatus = passed ? "accepted" : "rejected";
+    // Rewards are paid by the queued settlement job
+    kickScheduler();
 
-    await db
-      .update(proposals)
-      .set({
-        status: newStatus,
-        closedAt: new Date(),
-        updatedAt: new Date(),
+    return { success: true, status: closed.status, passed: closed.passed, results: closed.results };
+  }),
+
+  // Quorum and threshold results: final once closed, live while voting is open.
+  // Passing another tallyMode recounts the votes under that mode for comparison.
+  getResults: publicProcedure
+    .input(z.object({ id: z.string(), tallyMode: z.enum(tallyModes).optional() }))
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const [proposal] = await db.select().from(proposals).where(eq(proposals.id, input.id));
+      if (!proposal) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Proposal not found" });
+      }
+      if (proposal.status === "draft") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Voting has not opened yet" });
+      }
+
+      const recount = input.tallyMode !== undefined && input.tallyMode !== proposal.tallyMode;
+      const final = proposal.results !== null && !recount;
+      return {
+        status: proposal.status,
+        final,
+        results: final ? proposal.results! : await tallyProposal(db, proposal, input.tallyMode),
+      };
+    }),
+
+  // Audit log of a proposal's state transitions, oldest first
+  getEvents: publicProcedure.input(z.object({ proposalId: z.string() })).query(async ({ input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return db
+      .select({
+        id: proposalEvents.id,
+        type: proposalEvents.type,
+        fromStatus: proposalEvents.fromStatus,
+        toStatus: proposalEvents.toStatus,
+        actorId: proposalEvents.actorId,
+        actorName: users.name,
+        jobId: proposalEvents.jobId,
+        data: proposalEvents.data,
+        createdAt: proposalEvents.createdAt,
       })
-      .where(eq(proposals.id, input.id));
+      .from(proposalEvents)
+      .leftJoin(users, eq(proposalEvents.actorId, users.id))
+      .where(eq(proposalEvents.proposalId, input.proposalId))
+      .orderBy(asc(proposalEvents.createdAt), asc(proposalEvents.id));
+  }),
+
+  // Scheduled lifecycle jobs, e.g. to find failed ones (admin only)
+  listJobs: adminProcedure
+    .input(
+      z.object({
+        status: z.enum(["pending", "running", "completed", "failed"]).optional(),
+        referenceId: z.string().optional(),
+        limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const conditions = [];
+      if (input.status) conditions.push(eq(scheduledJobs.status, input.status));
+      if (input.referenceId) conditions.push(eq(scheduledJobs.referenceId, input.referenceId));
 
-    // Award RC to author if passed
-    if (passed) {
-      await awardRc(db, proposal.authorId, RC_CONFIG.PROPOSAL_PASSED, "proposal_passed", "proposal", input.id);
+      return db
+        .select()
+        .from(scheduledJobs)
+        .where(and(...conditions))
+        .orderBy(desc(scheduledJobs.runAt))
+        .limit(input.limit);
+    }),
+
+  // Put a failed job back in the queue (admin only)
+  retryJob: adminProcedure.input(z.object({ id: z.string() })).mutation(async ({ input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const [job] = await db
+      .update(scheduledJobs)
+      .set({ status: "pending", runAt: new Date(), attempts: 0, lastError: null, updatedAt: new Date() })
+      .where(and(eq(scheduledJobs.id, input.id), eq(scheduledJobs.status, "failed")))
+      .returning({ id: scheduledJobs.id });
+    if (!job) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Only failed jobs can be retried" });
     }
 
-    return { success: true, status: newStatus, passed };
+    kickScheduler();
+
+    return { success: true };
+  }),
+
+  // Run a scheduler pass now instead of waiting for the next interval (admin only)
+  runScheduler: adminProcedure.mutation(async () => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return runScheduler(db);
   }),
 
   // Get governance stats
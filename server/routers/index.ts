@@ -5,3 +5,6 @@ export { userRouter } from "./userRouter";
 export { moderationRouter } from "./moderationRouter";
 export { metricsRouter } from "./metricsRouter";
 export { reputationRouter } from "./reputation";
+export { uploadRouter } from "./uploadRouter";
+export { commentRouter } from "./commentRouter";
+export { reviewRouter } from "./reviewRouter";
@@ -18,7 +18,9 @@ import {
   moderationFlags,
   resourceViews,
   resourceDownloads,
+  resourceTrendingScores,
 } from "../../drizzle/schema";
+import { PAGINATION } from "@shared/const";
 
 export const metricsRouter = router({
   // Teacher dashboard metrics (authenticated)
@@ -375,48 +377,19 @@ export const metricsRouter = router({
     };
   }),
 
-  // Trending resources (public)
+  // Trending resources for a period, read from the scores the trending job maintains
   trending: publicProcedure
     .input(
       z.object({
         period: z.enum(["day", "week", "month"]).default("week"),
-        limit: z.number().default(10),
+        limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(10),
       })
     )
     .query(async ({ input }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      const periodStart = new Date();
-      switch (input.period) {
-        case "day":
-          periodStart.setDate(periodStart.getDate() - 1);
-          break;
-        case "week":
-          periodStart.setDate(periodStart.getDate() - 7);
-          break;
-        case "month":
-          periodStart.setMonth(periodStart.getMonth() - 1);
-          break;
-      }
-
-      // Get resources with recent activity
-      const trending = await db
-        .select({
-          resourceId: resourceViews.resourceId,
-          viewCount: sql<number>`count(*)`,
-        })
-        .from(resourceViews)
-        .where(gte(resourceViews.createdAt, periodStart))
-        .groupBy(resourceViews.resourceId)
-        .orderBy(sql`count(*) DESC`)
-        .limit(input.limit);
-
-      // Get resource details
-      const resourceIds = trending.map((t) => t.resourceId);
-      if (resourceIds.length === 0) return [];
-
-      const resourceDetails = await db
+      return db
         .select({
           id: resources.id,
           title: resources.title,
@@ -426,19 +399,19 @@ export const metricsRouter = router({
           gradeLevel: resources.gradeLevel,
           netVotes: resources.netVotes,
           contributorName: users.name,
+          trendingScore: resourceTrendingScores.score,
+          recentViewers: resourceTrendingScores.uniqueViewers,
+          recentDownloads: resourceTrendingScores.downloads,
+          recentNetVotes: resourceTrendingScores.netVotes,
+          recentCollectionAdds: resourceTrendingScores.collectionAdds,
+          computedAt: resourceTrendingScores.computedAt,
         })
-        .from(resources)
+        .from(resourceTrendingScores)
+        .innerJoin(resources, eq(resourceTrendingScores.resourceId, resources.id))
         .leftJoin(users, eq(resources.contributorId, users.id))
-        .where(sql`${resources.id} IN (${sql.join(resourceIds.map((id) => sql`${id}`), sql`, `)})`);
-
-      // Combine with view counts
-      return trending.map((t) => {
-        const details = resourceDetails.find((r) => r.id === t.resourceId);
-        return {
-          ...details,
-          recentViews: t.viewCount,
-        };
-      });
+        .where(and(eq(resourceTrendingScores.period, input.period), eq(resources.status, "approved")))
+        .orderBy(desc(resourceTrendingScores.score), desc(resources.id))
+        .limit(input.limit);
     }),
 
   // Governance metrics (public)
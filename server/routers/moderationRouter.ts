@@ -1,20 +1,30 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { eq, and, desc, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { nanoid } from "nanoid";
 import {
   router,
   publicProcedure,
   protectedProcedure,
   moderatorProcedure,
+  adminProcedure,
   createMinRcProcedure,
 } from "../_core/trpc";
 import { getDb } from "../db";
+import { keysetAfter, keysetCursorKey, keysetOrderBy, paginate, type Keyset } from "../pagination";
+import { postRc } from "../ledger";
+import { reviewVersion } from "../versioning";
+import { deleteComment } from "../comments";
+import { detectVoteGaming, resolveGamingCase } from "../antiGaming";
 import {
   resources,
+  resourceVersions,
+  resourceComments,
   moderationFlags,
+  gamingCases,
+  gamingCaseVotes,
   users,
-  rcTransactions,
 } from "../../drizzle/schema";
 import { RC_CONFIG, PAGINATION } from "@shared/const";
 
@@ -41,43 +51,30 @@ const reviewResourceInput = z.object({
   notes: z.string().max(1000).optional(),
 });
 
+const reviewVersionInput = z.object({
+  versionId: z.string(),
+  decision: z.enum(["approve", "reject"]),
+  notes: z.string().max(1000).optional(),
+});
+
 const resolveFlagInput = z.object({
   flagId: z.string(),
   resolution: z.enum(["upheld", "dismissed"]),
   notes: z.string().max(1000).optional(),
 });
 
-// Helper: Award RC and log transaction
-async function awardRc(
-  db: NonNullable<Awaited<ReturnType<typeof getDb>>>,
-  userId: string,
-  amount: number,
-  reason: typeof rcTransactions.$inferInsert["reason"],
-  referenceType?: string,
-  referenceId?: string
-) {
-  const [user] = await db.select({ rc: users.reputationCredits }).from(users).where(eq(users.id, userId));
-  const currentRc = user?.rc ?? 0;
-  const newBalance = currentRc + amount;
-
-  await db.update(users).set({ reputationCredits: newBalance, updatedAt: new Date() }).where(eq(users.id, userId));
-
-  await db.insert(rcTransactions).values({
-    id: nanoid(),
-    userId,
-    amount,
-    reason,
-    referenceType,
-    referenceId,
-    balanceAfter: newBalance,
-  });
-
-  return newBalance;
-}
+const resolveGamingCaseInput = z.object({
+  caseId: z.string(),
+  resolution: z.enum(["confirmed", "dismissed"]),
+  reverseRc: z.boolean().default(true),
+  notes: z.string().max(1000).optional(),
+});
 
 // Procedure requiring minimum RC to flag content
 const flagProcedure = createMinRcProcedure(RC_CONFIG.MIN_RC_TO_FLAG);
 
+const voters = alias(users, "voters");
+
 export const moderationRouter = router({
   // Create a flag (requires minimum RC)
   createFlag: flagProcedure.input(createFlagInput).mutation(async ({ ctx, input }) => {
@@ -113,7 +110,13 @@ export const moderationRouter = router({
     });
 
     // Award RC for submitting a flag
-    await awardRc(db, ctx.user.id, RC_CONFIG.FLAG_SUBMITTED, "flag_submitted", "flag", id);
+    await postRc(db, {
+      userId: ctx.user.id,
+      amount: RC_CONFIG.FLAG_SUBMITTED,
+      reason: "flag_submitted",
+      referenceType: "flag",
+      referenceId: id,
+    });
 
     return { id };
   }),
@@ -130,6 +133,9 @@ export const moderationRouter = router({
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
+      // Oldest submissions first
+      const keyset: Keyset = { sort: "oldest", key: resources.createdAt, id: resources.id, direction: "asc" };
+
       const results = await db
         .select({
           id: resources.id,
@@ -147,15 +153,15 @@ export const moderationRouter = router({
           contributorName: users.name,
           contributorRc: users.reputationCredits,
           contributorLevel: users.contributorLevel,
+          cursorKey: keysetCursorKey(keyset),
         })
         .from(resources)
         .leftJoin(users, eq(resources.contributorId, users.id))
-        .where(eq(resources.status, "pending"))
-        .orderBy(resources.createdAt)
+        .where(and(eq(resources.status, "pending"), keysetAfter(keyset, input.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
         .limit(input.limit + 1);
 
-      const hasMore = results.length > input.limit;
-      const items = hasMore ? results.slice(0, -1) : results;
+      const { items, nextCursor } = paginate(results, input.limit, keyset);
 
       return {
         items: items.map((item) => ({
@@ -167,7 +173,7 @@ export const moderationRouter = router({
             contributorLevel: item.contributorLevel,
           },
         })),
-        nextCursor: hasMore ? items[items.length - 1]?.id : undefined,
+        nextCursor,
       };
     }),
 
@@ -210,28 +216,78 @@ export const moderationRouter = router({
         })
         .where(eq(users.id, resource.contributorId));
 
-      await awardRc(
-        db,
-        resource.contributorId,
-        RC_CONFIG.RESOURCE_APPROVED,
-        "resource_approved",
-        "resource",
-        input.resourceId
-      );
+      await postRc(db, {
+        userId: resource.contributorId,
+        amount: RC_CONFIG.RESOURCE_APPROVED,
+        reason: "resource_approved",
+        referenceType: "resource",
+        referenceId: input.resourceId,
+      });
     } else {
-      await awardRc(
-        db,
-        resource.contributorId,
-        -RC_CONFIG.RESOURCE_SUBMITTED, // Remove the submission bonus
-        "resource_rejected",
-        "resource",
-        input.resourceId
-      );
+      await postRc(db, {
+        userId: resource.contributorId,
+        amount: -RC_CONFIG.RESOURCE_SUBMITTED, // Remove the submission bonus
+        reason: "resource_rejected",
+        referenceType: "resource",
+        referenceId: input.resourceId,
+      });
     }
 
     return { success: true, newStatus };
   }),
 
+  // List edits to approved resources waiting for review (moderator+)
+  listPendingVersions: moderatorProcedure
+    .input(
+      z.object({
+        cursor: z.string().optional(),
+        limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      // Oldest edits first
+      const keyset: Keyset = { sort: "oldest", key: resourceVersions.createdAt, id: resourceVersions.id, direction: "asc" };
+
+      const results = await db
+        .select({
+          id: resourceVersions.id,
+          version: resourceVersions.version,
+          changeNote: resourceVersions.changeNote,
+          createdAt: resourceVersions.createdAt,
+          resourceId: resourceVersions.resourceId,
+          resourceTitle: resources.title,
+          editorId: resourceVersions.editorId,
+          editorName: users.name,
+          cursorKey: keysetCursorKey(keyset),
+        })
+        .from(resourceVersions)
+        .innerJoin(resources, eq(resourceVersions.resourceId, resources.id))
+        .leftJoin(users, eq(resourceVersions.editorId, users.id))
+        .where(and(eq(resourceVersions.status, "pending"), keysetAfter(keyset, input.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
+        .limit(input.limit + 1);
+
+      return paginate(results, input.limit, keyset);
+    }),
+
+  // Approve or reject a pending resource version (moderator+)
+  reviewVersion: moderatorProcedure.input(reviewVersionInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const result = await reviewVersion(db, {
+      versionId: input.versionId,
+      decision: input.decision,
+      reviewerId: ctx.user.id,
+      notes: input.notes,
+    });
+
+    return { success: true, ...result };
+  }),
+
   // List flags (moderator+)
   listFlags: moderatorProcedure
     .input(
@@ -256,6 +312,8 @@ export const moderationRouter = router({
         conditions.push(eq(moderationFlags.targetType, input.targetType));
       }
 
+      const keyset: Keyset = { sort: "newest", key: moderationFlags.createdAt, id: moderationFlags.id, direction: "desc" };
+
       const results = await db
         .select({
           id: moderationFlags.id,
@@ -269,15 +327,15 @@ export const moderationRouter = router({
           resolutionNotes: moderationFlags.resolutionNotes,
           reporterId: moderationFlags.reporterId,
           reporterName: users.name,
+          cursorKey: keysetCursorKey(keyset),
         })
         .from(moderationFlags)
         .leftJoin(users, eq(moderationFlags.reporterId, users.id))
-        .where(conditions.length > 0 ? and(...conditions) : undefined)
-        .orderBy(desc(moderationFlags.createdAt))
+        .where(and(...conditions, keysetAfter(keyset, input.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
         .limit(input.limit + 1);
 
-      const hasMore = results.length > input.limit;
-      const items = hasMore ? results.slice(0, -1) : results;
+      const { items, nextCursor } = paginate(results, input.limit, keyset);
 
       return {
         items: items.map((item) => ({
@@ -287,7 +345,7 @@ export const moderationRouter = router({
             name: item.reporterName,
           },
         })),
-        nextCursor: hasMore ? items[items.length - 1]?.id : undefined,
+        nextCursor,
       };
     }),
 
@@ -385,7 +443,13 @@ export const moderationRouter = router({
 
     // Award/deduct RC from reporter
     if (input.resolution === "upheld") {
-      await awardRc(db, flag.reporterId, RC_CONFIG.FLAG_UPHELD, "flag_upheld", "flag", input.flagId);
+      await postRc(db, {
+        userId: flag.reporterId,
+        amount: RC_CONFIG.FLAG_UPHELD,
+        reason: "flag_upheld",
+        referenceType: "flag",
+        referenceId: input.flagId,
+      });
 
       // If target is a resource, potentially take action
       if (flag.targetType === "resource") {
@@ -398,16 +462,153 @@ export const moderationRouter = router({
             .where(eq(resources.id, flag.targetId));
         }
       }
+
+      // Upheld comment flags remove the comment
+      if (flag.targetType === "comment") {
+        const [comment] = await db
+          .select({ id: resourceComments.id })
+          .from(resourceComments)
+          .where(eq(resourceComments.id, flag.targetId));
+        if (comment) {
+          await deleteComment(db, {
+            commentId: comment.id,
+            deletedBy: ctx.user.id,
+            reason: input.notes || `Flag upheld: ${flag.reason}`,
+          });
+        }
+      }
     } else {
-      await awardRc(db, flag.reporterId, RC_CONFIG.FLAG_DISMISSED, "flag_dismissed", "flag", input.flagId);
+      await postRc(db, {
+        userId: flag.reporterId,
+        amount: RC_CONFIG.FLAG_DISMISSED,
+        reason: "flag_dismissed",
+        referenceType: "flag",
+        referenceId: input.flagId,
+      });
     }
 
     // Award RC to moderator for action
-    await awardRc(db, ctx.user.id, RC_CONFIG.FLAG_SUBMITTED, "moderation_action", "flag", input.flagId);
+    await postRc(db, {
+      userId: ctx.user.id,
+      amount: RC_CONFIG.FLAG_SUBMITTED,
+      reason: "moderation_action",
+      referenceType: "flag",
+      referenceId: input.flagId,
+    });
 
     return { success: true, newStatus };
   }),
 
+  // List vote-gaming cases, most recently detected first (moderator+)
+  listGamingCases: moderatorProcedure
+    .input(
+      z.object({
+        status: z.enum(["open", "confirmed", "dismissed"]).optional(),
+        cursor: z.string().optional(),
+        limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+      })
+    )
+    .query(async ({ input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      const keyset: Keyset = { sort: "newest", key: gamingCases.detectedAt, id: gamingCases.id, direction: "desc" };
+
+      const results = await db
+        .select({
+          id: gamingCases.id,
+          userId: gamingCases.userId,
+          userName: users.name,
+          userRc: users.reputationCredits,
+          status: gamingCases.status,
+          signals: gamingCases.signals,
+          flaggedVoteCount: gamingCases.flaggedVoteCount,
+          detectedAt: gamingCases.detectedAt,
+          reviewedAt: gamingCases.reviewedAt,
+          rcReversed: gamingCases.rcReversed,
+          cursorKey: keysetCursorKey(keyset),
+        })
+        .from(gamingCases)
+        .leftJoin(users, eq(gamingCases.userId, users.id))
+        .where(
+          and(
+            input.status ? eq(gamingCases.status, input.status) : undefined,
+            keysetAfter(keyset, input.cursor)
+          )
+        )
+        .orderBy(...keysetOrderBy(keyset))
+        .limit(input.limit + 1);
+
+      return paginate(results, input.limit, keyset);
+    }),
+
+  // Get a gaming case with its evidence and flagged votes (moderator+)
+  getGamingCase: moderatorProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const [gamingCase] = await db
+      .select({
+        gamingCase: gamingCases,
+        userName: users.name,
+        userRc: users.reputationCredits,
+      })
+      .from(gamingCases)
+      .leftJoin(users, eq(gamingCases.userId, users.id))
+      .where(eq(gamingCases.id, input.id));
+
+    if (!gamingCase) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Case not found" });
+    }
+
+    const votes = await db
+      .select({
+        voteId: gamingCaseVotes.voteId,
+        voterId: gamingCaseVotes.voterId,
+        voterName: voters.name,
+        voterCreatedAt: voters.createdAt,
+        resourceId: gamingCaseVotes.resourceId,
+        resourceTitle: resources.title,
+        signals: gamingCaseVotes.signals,
+        votedAt: gamingCaseVotes.votedAt,
+      })
+      .from(gamingCaseVotes)
+      .leftJoin(voters, eq(gamingCaseVotes.voterId, voters.id))
+      .leftJoin(resources, eq(gamingCaseVotes.resourceId, resources.id))
+      .where(eq(gamingCaseVotes.caseId, input.id))
+      .orderBy(desc(gamingCaseVotes.votedAt));
+
+    return {
+      ...gamingCase.gamingCase,
+      user: { id: gamingCase.gamingCase.userId, name: gamingCase.userName, reputationCredits: gamingCase.userRc },
+      votes,
+    };
+  }),
+
+  // Confirm or dismiss a gaming case, optionally reversing the RC from its votes (moderator+)
+  resolveGamingCase: moderatorProcedure.input(resolveGamingCaseInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const result = await resolveGamingCase(db, {
+      caseId: input.caseId,
+      resolution: input.resolution,
+      reverseRc: input.reverseRc,
+      reviewerId: ctx.user.id,
+      notes: input.notes,
+    });
+
+    return { success: true, ...result };
+  }),
+
+  // Run vote-gaming detection now instead of waiting for the hourly job (admin)
+  runGamingDetection: adminProcedure.mutation(async () => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return detectVoteGaming(db);
+  }),
+
   // Get moderation stats (moderator+)
   getStats: moderatorProcedure.query(async () => {
     const db = await getDb();
@@ -438,11 +639,17 @@ export const moderationRouter = router({
         )
       );
 
+    const [openGamingCases] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(gamingCases)
+      .where(eq(gamingCases.status, "open"));
+
     return {
       pendingResources: pendingResources?.count ?? 0,
       openFlags: openFlags?.count ?? 0,
       underReviewFlags: underReviewFlags?.count ?? 0,
       resolvedToday: resolvedToday?.count ?? 0,
+      openGamingCases: openGamingCases?.count ?? 0,
     };
   }),
 
@@ -485,9 +692,21 @@ export const moderationRouter = router({
             .set({ totalResourcesApproved: sql`${users.totalResourcesApproved} + 1` })
             .where(eq(users.id, resource.contributorId));
 
-          await awardRc(db, resource.contributorId, RC_CONFIG.RESOURCE_APPROVED, "resource_approved", "resource", resourceId);
+          await postRc(db, {
+            userId: resource.contributorId,
+            amount: RC_CONFIG.RESOURCE_APPROVED,
+            reason: "resource_approved",
+            referenceType: "resource",
+            referenceId: resourceId,
+          });
         } else {
-          await awardRc(db, resource.contributorId, -RC_CONFIG.RESOURCE_SUBMITTED, "resource_rejected", "resource", resourceId);
+          await postRc(db, {
+            userId: resource.contributorId,
+            amount: -RC_CONFIG.RESOURCE_SUBMITTED,
+            reason: "resource_rejected",
+            referenceType: "resource",
+            referenceId: resourceId,
+          });
         }
 
         processed++;
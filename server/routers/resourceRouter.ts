@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { eq, and, or, desc, asc, sql, ilike, inArray } from "drizzle-orm";
+import { eq, and, or, desc, sql, inArray, getTableColumns, type SQL } from "drizzle-orm";
 import { nanoid } from "nanoid";
 import {
   router,
@@ -8,94 +8,148 @@ import {
   protectedProcedure,
   teacherProcedure,
 } from "../_core/trpc";
-import { getDb } from "../db";
+import { getDb, type DbInstance } from "../db";
+import { postRc } from "../ledger";
+import { keysetAfter, keysetCursorKey, keysetOrderBy, paginate, type Keyset } from "../pagination";
+import { applyEdit, diffSnapshots, recordInitialVersion } from "../versioning";
+import { attachUpload } from "../uploads";
+import { createResourceInput } from "../resourceInput";
+import { kickImportJob } from "../resourceImport";
+import { ratingScoreExpression } from "../ranking";
+import { canAccessResource, hashIp } from "../downloads";
+import { isBotUserAgent, recordView, takeRateLimit } from "../tracking";
+import { storageGet } from "../storage";
+import { buildTsQuery, formatSnippet, refreshSearchVectors, searchMatches, searchRank, searchSnippet } from "../search";
 import {
   resources,
   resourceVotes,
-  resourceViews,
-  resourceDownloads,
-  resourceComments,
-  users,
+  resourceVersions,
+  resourceImports,
   rcTransactions,
+  uploads,
+  users,
+  subjectEnum,
+  gradeLevelEnum,
+  resourceCategoryEnum,
+  resourceTypeEnum,
   type Resource,
   type InsertResource,
+  type User,
+  type FilePreview,
 } from "../../drizzle/schema";
-import { RC_CONFIG, PAGINATION } from "@shared/const";
+import { RC_CONFIG, PAGINATION, PREVIEW_CONFIG, IMPORT_CONFIG } from "@shared/const";
 
 // Input schemas
-const browseResourcesInput = z.object({
+const browseFiltersInput = z.object({
   search: z.string().optional(),
-  subject: z.string().optional(),
-  gradeLevel: z.string().optional(),
-  category: z.string().optional(),
-  resourceType: z.string().optional(),
+  // Multi-select filters: values within a dimension are OR'ed, dimensions are AND'ed
+  subject: z.array(z.enum(subjectEnum.enumValues)).optional(),
+  gradeLevel: z.array(z.enum(gradeLevelEnum.enumValues)).optional(),
+  category: z.array(z.enum(resourceCategoryEnum.enumValues)).optional(),
+  resourceType: z.array(z.enum(resourceTypeEnum.enumValues)).optional(),
   tags: z.array(z.string()).optional(),
+  standards: z.array(z.string()).optional(),
   status: z.enum(["draft", "pending", "approved", "rejected", "archived"]).optional(),
   contributorId: z.string().optional(),
-  sort: z.enum(["newest", "oldest", "popular", "highest_rated", "most_downloaded"]).default("newest"),
+});
+
+const browseResourcesInput = browseFiltersInput.extend({
+  // Defaults to "relevance" when a search term is present, otherwise "newest"
+  sort: z.enum(["relevance", "newest", "oldest", "popular", "highest_rated", "most_downloaded"]).optional(),
   cursor: z.string().optional(),
   limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
 });
 
-const createResourceInput = z.object({
-  title: z.string().min(1).max(200),
-  description: z.string().optional(),
-  summary: z.string().max(500).optional(),
-  category: z.enum([
-    "lesson_plan",
-    "worksheet",
-    "assessment",
-    "presentation",
-    "video",
-    "interactive",
-    "reference",
-    "template",
-    "other",
-  ]),
-  resourceType: z.enum(["pdf", "doc", "ppt", "video", "image", "link", "html", "zip", "other"]),
-  subject: z.enum([
-    "math",
-    "science",
-    "english",
-    "history",
-    "geography",
-    "art",
-    "music",
-    "pe",
-    "computer_science",
-    "foreign_language",
-    "social_studies",
-    "stem",
-    "special_education",
-    "other",
-  ]),
-  gradeLevel: z.enum([
-    "pre_k",
-    "kindergarten",
-    "1st",
-    "2nd",
-    "3rd",
-    "4th",
-    "5th",
-    "6th",
-    "7th",
-    "8th",
-    "9th",
-    "10th",
-    "11th",
-    "12th",
-    "higher_ed",
-    "professional",
-    "all",
-  ]),
-  tags: z.array(z.string()).optional(),
-  standards: z.array(z.string()).optional(),
-  fileUrl: z.string().url().optional(),
-  fileName: z.string().optional(),
-  fileSize: z.number().optional(),
-  thumbnailUrl: z.string().url().optional(),
-  externalUrl: z.string().url().optional(),
-});
+type BrowseFilters = z.infer<typeof browseFiltersInput>;
+type FacetDimension = "subject" | "gradeLevel" | "category" | "resourceType" | "tags" | "standards";
+
+// Maximum number of tag/standard values returned per facet
+const FREE_TEXT_FACET_LIMIT = 30;
+
+// Resource types the browser can display from the file itself (PDF viewer, <img>, <video>, sandboxed iframe)
+const EMBEDDABLE_TYPES: readonly Resource["resourceType"][] = ["pdf", "image", "video", "html"];
+
+// Matches resources whose JSON array column contains any of the given values
+function jsonArrayContainsAny(column: typeof resources.tags | typeof resources.standards, values: string[]) {
+  return sql`EXISTS (SELECT 1 FROM json_array_elements_text(${column}) AS value WHERE value IN (${sql.join(
+    values.map((v) => sql`${v}`),
+    sql`, `
+  )}))`;
+}
+
+// Only moderators may browse (or count) resources that are not approved
+function visibleFilters<T extends BrowseFilters>(input: T, user: User | null): T {
+  return user && ["moderator", "admin"].includes(user.role) ? input : { ...input, status: undefined };
+}
+
+/**
+ * WHERE conditions shared by browse and facets. `exclude` drops one dimension's
+ * own filter so its facet counts show what selecting another value would add.
+ */
+function buildBrowseConditions(input: BrowseFilters, tsQuery: string | null, exclude?: FacetDimension) {
+  const conditions: SQL[] = [];
+
+  // Default to approved resources for public browsing
+  conditions.push(eq(resources.status, input.status ?? "approved"));
+
+  // Full-text search over title, tags, standards, summary, contributor name and description
+  if (tsQuery) {
+    conditions.push(searchMatches(tsQuery));
+  }
+
+  if (input.subject?.length && exclude !== "subject") {
+    conditions.push(inArray(resources.subject, input.subject));
+  }
+
+  if (input.gradeLevel?.length && exclude !== "gradeLevel") {
+    conditions.push(inArray(resources.gradeLevel, input.gradeLevel));
+  }
+
+  if (input.category?.length && exclude !== "category") {
+    conditions.push(inArray(resources.category, input.category));
+  }
+
+  if (input.resourceType?.length && exclude !== "resourceType") {
+    conditions.push(inArray(resources.resourceType, input.resourceType));
+  }
+
+  if (input.tags?.length && exclude !== "tags") {
+    conditions.push(jsonArrayContainsAny(resources.tags, input.tags));
+  }
+
+  if (input.standards?.length && exclude !== "standards") {
+    conditions.push(jsonArrayContainsAny(resources.standards, input.standards));
+  }
+
+  if (input.contributorId) {
+    conditions.push(eq(resources.contributorId, input.contributorId));
+  }
+
+  return conditions;
+}
+
+type BrowseSort = NonNullable<z.infer<typeof browseResourcesInput>["sort"]>;
+
+// Keyset (sort key + id) for each browse ordering
+function browseKeyset(sort: BrowseSort, tsQuery: string | null): Keyset {
+  const id = resources.id;
+  switch (sort) {
+    case "relevance":
+      return tsQuery
+        ? { sort, key: searchRank(tsQuery), id, direction: "desc" }
+        : { sort: "newest", key: resources.createdAt, id, direction: "desc" };
+    case "oldest":
+      return { sort, key: resources.createdAt, id, direction: "asc" };
+    case "popular":
+      return { sort, key: resources.viewCount, id, direction: "desc" };
+    case "highest_rated":
+      return { sort, key: resources.ratingScore, id, direction: "desc" };
+    case "most_downloaded":
+      return { sort, key: resources.downloadCount, id, direction: "desc" };
+    default:
+      return { sort: "newest", key: resources.createdAt, id, direction: "desc" };
+  }
+}
 
 const updateResourceInput = z.object({
   id: z.string(),
@@ -156,6 +210,20 @@ const updateResourceInput = z.object({
   fileSize: z.number().optional(),
   thumbnailUrl: z.string().url().optional(),
   externalUrl: z.string().url().optional(),
+  uploadId: z.string().optional(),
+  changeNote: z.string().max(500).optional(),
+});
+
+const diffVersionsInput = z.object({
+  resourceId: z.string(),
+  fromVersionId: z.string(),
+  toVersionId: z.string(),
+});
+
+const restoreVersionInput = z.object({
+  resourceId: z.string(),
+  versionId: z.string(),
+  changeNote: z.string().max(500).optional(),
 });
 
 const voteInput = z.object({
@@ -163,105 +231,49 @@ const voteInput = z.object({
   value: z.enum(["up", "down", "remove"]),
 });
 
-const commentInput = z.object({
-  resourceId: z.string(),
-  content: z.string().min(1).max(2000),
-  parentId: z.string().optional(),
+const startImportInput = z.object({
+  format: z.enum(["common_cartridge", "zip_csv", "csv_links"]),
+  uploadId: z.string().optional(), // the package, or a CSV file for csv_links
+  csv: z.string().max(IMPORT_CONFIG.MAX_CSV_LENGTH).optional(), // pasted CSV for csv_links
+  // Applied to rows that leave these blank
+  defaults: z
+    .object({
+      category: createResourceInput.shape.category.optional(),
+      subject: createResourceInput.shape.subject.optional(),
+      gradeLevel: createResourceInput.shape.gradeLevel.optional(),
+    })
+    .optional(),
 });
 
-// Helper: Award RC and log transaction
-async function awardRc(
-  db: NonNullable<Awaited<ReturnType<typeof getDb>>>,
-  userId: string,
-  amount: number,
-  reason: typeof rcTransactions.$inferInsert["reason"],
-  referenceType?: string,
-  referenceId?: string
-) {
-  // Get current balance
-  const [user] = await db.select({ rc: users.reputationCredits }).from(users).where(eq(users.id, userId));
-  const currentRc = user?.rc ?? 0;
-  const newBalance = currentRc + amount;
-
-  // Update user RC
-  await db.update(users).set({ reputationCredits: newBalance, updatedAt: new Date() }).where(eq(users.id, userId));
-
-  // Log transaction
-  await db.insert(rcTransactions).values({
-    id: nanoid(),
-    userId,
-    amount,
-    reason,
-    referenceType,
-    referenceId,
-    balanceAfter: newBalance,
-  });
-
-  return newBalance;
+// Load a resource and check the user may edit it (owner or moderator)
+async function assertCanEdit(db: DbInstance, resourceId: string, user: { id: string; role: string }) {
+  const [resource] = await db.select().from(resources).where(eq(resources.id, resourceId));
+  if (!resource) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
+  }
+
+  const isOwner = resource.contributorId === user.id;
+  const isModerator = ["moderator", "admin"].includes(user.role);
+
+  if (!isOwner && !isModerator) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to edit this resource" });
+  }
+
+  return { resource, isModerator };
 }
 
 export const resourceRouter = router({
   // Browse resources (public)
-  browse: publicProcedure.input(browseResourcesInput).query(async ({ input }) => {
+  browse: publicProcedure.input(browseResourcesInput).query(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-    const conditions = [];
-
-    // Default to approved resources for public browsing
-    if (input.status) {
-      conditions.push(eq(resources.status, input.status));
-    } else {
-      conditions.push(eq(resources.status, "approved"));
-    }
-
-    if (input.search) {
-      conditions.push(
-        or(
-          ilike(resources.title, `%${input.search}%`),
-          ilike(resources.description, `%${input.search}%`)
-        )
-      );
-    }
-
-    if (input.subject) {
-      conditions.push(eq(resources.subject, input.subject as Resource["subject"]));
-    }
+    const tsQuery = input.search ? buildTsQuery(input.search) : null;
+    const conditions = buildBrowseConditions(visibleFilters(input, ctx.user), tsQuery);
 
-    if (input.gradeLevel) {
-      conditions.push(eq(resources.gradeLevel, input.gradeLevel as Resource["gradeLevel"]));
-    }
-
-    if (input.category) {
-      conditions.push(eq(resources.category, input.category as Resource["category"]));
-    }
-
-    if (input.resourceType) {
-      conditions.push(eq(resources.resourceType, input.resourceType as Resource["resourceType"]));
-    }
-
-    if (input.contributorId) {
-      conditions.push(eq(resources.contributorId, input.contributorId));
-    }
-
-    // Sorting
-    let orderBy;
-    switch (input.sort) {
-      case "oldest":
-        orderBy = asc(resources.createdAt);
-        break;
-      case "popular":
-        orderBy = desc(resources.viewCount);
-        break;
-      case "highest_rated":
-        orderBy = desc(resources.netVotes);
-        break;
-      case "most_downloaded":
-        orderBy = desc(resources.downloadCount);
-        break;
-      default:
-        orderBy = desc(resources.createdAt);
-    }
+    // Sorting (relevance needs a query to rank against)
+    const sort = input.sort === "relevance" && !tsQuery ? "newest" : input.sort ?? (tsQuery ? "relevance" : "newest");
+    const keyset = browseKeyset(sort, tsQuery);
 
     const results = await db
       .select({
@@ -279,73 +291,195 @@ export const resourceRouter = router({
         upvoteCount: resources.upvoteCount,
         downvoteCount: resources.downvoteCount,
         netVotes: resources.netVotes,
+        ratingScore: resources.ratingScore,
         commentCount: resources.commentCount,
         isFeatured: resources.isFeatured,
         isEditorPick: resources.isEditorPick,
         createdAt: resources.createdAt,
         contributorId: resources.contributorId,
         contributorName: users.name,
+        rank: tsQuery ? searchRank(tsQuery) : sql<number | null>`NULL`,
+        snippet: tsQuery ? searchSnippet(tsQuery) : sql<string | null>`NULL`,
+        cursorKey: keysetCursorKey(keyset),
       })
       .from(resources)
       .leftJoin(users, eq(resources.contributorId, users.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(orderBy)
+      .where(and(...conditions, keysetAfter(keyset, input.cursor)))
+      .orderBy(...keysetOrderBy(keyset))
       .limit(input.limit + 1);
 
-    const hasMore = results.length > input.limit;
-    const items = hasMore ? results.slice(0, -1) : results;
+    const page = paginate(results, input.limit, keyset);
 
     return {
-      items,
-      nextCursor: hasMore ? items[items.length - 1]?.id : undefined,
+      items: page.items.map((item) => ({
+        ...item,
+        snippet: formatSnippet(item.snippet),
+      })),
+      nextCursor: page.nextCursor,
     };
   }),
 
+  // Facet counts for the current browse filters (public)
+  facets: publicProcedure.input(browseFiltersInput).query(async ({ ctx, input: requested }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const input = visibleFilters(requested, ctx.user);
+    const tsQuery = input.search ? buildTsQuery(input.search) : null;
+
+    const countEnum = async <T extends string>(
+      dimension: FacetDimension,
+      column: typeof resources.subject | typeof resources.gradeLevel | typeof resources.category | typeof resources.resourceType
+    ) => {
+      const rows = await db
+        .select({ value: column, count: sql<number>`count(*)::int` })
+        .from(resources)
+        .where(and(...buildBrowseConditions(input, tsQuery, dimension)))
+        .groupBy(column)
+        .orderBy(desc(sql`count(*)`));
+      return rows as { value: T; count: number }[];
+    };
+
+    const countJsonArray = async (dimension: FacetDimension, column: typeof resources.tags | typeof resources.standards) => {
+      const result = await db.execute<{ value: string; count: number }>(sql`
+        SELECT value, count(*)::int AS count
+        FROM ${resources}, json_array_elements_text(${column}) AS value
+        WHERE ${and(...buildBrowseConditions(input, tsQuery, dimension))}
+        GROUP BY value
+        ORDER BY count DESC, value ASC
+        LIMIT ${FREE_TEXT_FACET_LIMIT}
+      `);
+      return result.rows;
+    };
+
+    const [subject, gradeLevel, category, resourceType, tags, standards] = await Promise.all([
+      countEnum<Resource["subject"]>("subject", resources.subject),
+      countEnum<Resource["gradeLevel"]>("gradeLevel", resources.gradeLevel),
+      countEnum<Resource["category"]>("category", resources.category),
+      countEnum<Resource["resourceType"]>("resourceType", resources.resourceType),
+      countJsonArray("tags", resources.tags),
+      countJsonArray("standards", resources.standards),
+    ]);
+
+    return { subject, gradeLevel, category, resourceType, tags, standards };
+  }),
+
   // Get resource by ID (public)
-  getById: publicProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
+  getById: publicProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
+    // File location is withheld; downloads go through /api/resources/:id/download
+    const {
+      searchVector: _searchVector,
+      fileUrl: _fileUrl,
+      fileKey: _fileKey,
+      ...resourceColumns
+    } = getTableColumns(resources);
     const [resource] = await db
       .select({
-        resource: resources,
+        resource: resourceColumns,
+        hasFile: sql<boolean>`(${resources.fileKey} IS NOT NULL OR ${resources.fileUrl} IS NOT NULL)`,
         contributorName: users.name,
         contributorAvatar: users.avatarUrl,
+        contributorLevel: users.contributorLevel,
       })
       .from(resources)
       .leftJoin(users, eq(resources.contributorId, users.id))
       .where(eq(resources.id, input.id));
 
-    if (!resource) {
+    if (!resource || !canAccessResource(resource.resource, ctx.user)) {
       throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
     }
 
     return {
       ...resource.resource,
+      downloadUrl: resource.hasFile ? `/api/resources/${resource.resource.id}/download` : null,
+      averageRating:
+        resource.resource.reviewCount > 0 ? resource.resource.ratingTotal / resource.resource.reviewCount : null,
       contributor: {
         id: resource.resource.contributorId,
         name: resource.contributorName,
         avatarUrl: resource.contributorAvatar,
+        level: resource.contributorLevel,
       },
     };
   }),
 
+  // Preview for the detail page: rendered pages, a still or a ZIP listing generated at upload,
+  // plus a short-lived URL for embedding types the browser can show itself. Not counted as a download.
+  getPreview: publicProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const [resource] = await db
+      .select({
+        status: resources.status,
+        contributorId: resources.contributorId,
+        resourceType: resources.resourceType,
+        fileKey: resources.fileKey,
+        fileUrl: resources.fileUrl,
+        fileMimeType: resources.fileMimeType,
+      })
+      .from(resources)
+      .where(eq(resources.id, input.id));
+
+    if (!resource || !canAccessResource(resource, ctx.user)) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
+    }
+
+    let preview: FilePreview | null = null;
+    if (resource.fileKey) {
+      const [upload] = await db
+        .select({ preview: uploads.preview })
+        .from(uploads)
+        .where(eq(uploads.storageKey, resource.fileKey))
+        .limit(1);
+      preview = upload?.preview ?? null;
+    }
+
+    let mediaUrl: string | null = null;
+    if (EMBEDDABLE_TYPES.includes(resource.resourceType)) {
+      mediaUrl = resource.fileKey
+        ? (await storageGet(resource.fileKey, PREVIEW_CONFIG.MEDIA_URL_TTL_SECONDS)).url
+        : resource.fileUrl;
+    }
+
+    return {
+      resourceType: resource.resourceType,
+      mimeType: resource.fileMimeType,
+      mediaUrl,
+      preview,
+    };
+  }),
+
   // Create resource (teacher+)
   create: teacherProcedure.input(createResourceInput).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
+    const { uploadId, ...fields } = input;
     const id = nanoid();
     const newResource: InsertResource = {
       id,
-      ...input,
+      ...fields,
       contributorId: ctx.user.id,
       status: "pending",
       tags: input.tags ?? [],
       standards: input.standards ?? [],
     };
 
-    await db.insert(resources).values(newResource);
+    const created = await db.transaction(async (tx) => {
+      const [row] = await tx.insert(resources).values(newResource).returning();
+      if (!uploadId) return row;
+
+      // The upload row references the resource, so attach after inserting it
+      const file = await attachUpload(tx, ctx.user.id, uploadId, id, input.resourceType);
+      const [withFile] = await tx.update(resources).set(file).where(eq(resources.id, id)).returning();
+      return withFile;
+    });
+    await recordInitialVersion(db, created);
+    await refreshSearchVectors(db, { resourceIds: [id] });
 
     // Update user stats
     await db
@@ -357,38 +491,134 @@ export const resourceRouter = router({
       .where(eq(users.id, ctx.user.id));
 
     // Award RC for submission
-    await awardRc(db, ctx.user.id, RC_CONFIG.RESOURCE_SUBMITTED, "resource_submitted", "resource", id);
+    await postRc(db, {
+      userId: ctx.user.id,
+      amount: RC_CONFIG.RESOURCE_SUBMITTED,
+      reason: "resource_submitted",
+      referenceType: "resource",
+      referenceId: id,
+    });
 
     return { id, status: "pending" };
   }),
 
-  // Update resource (owner or moderator)
+  // Update resource (owner or moderator). Every update is saved as a version;
+  // file/description edits to an approved resource wait for moderation.
   update: protectedProcedure.input(updateResourceInput).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-    const { id, ...updates } = input;
+    const { id, changeNote, uploadId, ...updates } = input;
 
-    // Fetch existing resource
-    const [existing] = await db.select().from(resources).where(eq(resources.id, id));
-    if (!existing) {
-      throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
+    const { resource, isModerator } = await assertCanEdit(db, id, ctx.user);
+
+    // Attach in the edit's transaction, so an edit that is rejected leaves the upload unattached
+    const result = await db.transaction(async (tx) => {
+      const file = uploadId
+        ? await attachUpload(tx, ctx.user.id, uploadId, id, updates.resourceType ?? resource.resourceType)
+        : {};
+
+      return applyEdit(tx, {
+        resourceId: id,
+        editorId: ctx.user.id,
+        changes: { ...updates, ...file },
+        changeNote,
+        requireReview: !isModerator,
+      });
+    });
+
+    return { success: true, ...result };
+  }),
+
+  // List a resource's versions, newest first (owner or moderator)
+  listVersions: protectedProcedure.input(z.object({ resourceId: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const { resource } = await assertCanEdit(db, input.resourceId, ctx.user);
+
+    const versions = await db
+      .select({
+        id: resourceVersions.id,
+        version: resourceVersions.version,
+        status: resourceVersions.status,
+        changeNote: resourceVersions.changeNote,
+        restoredFromId: resourceVersions.restoredFromId,
+        editorId: resourceVersions.editorId,
+        editorName: users.name,
+        reviewedAt: resourceVersions.reviewedAt,
+        reviewNotes: resourceVersions.reviewNotes,
+        createdAt: resourceVersions.createdAt,
+      })
+      .from(resourceVersions)
+      .leftJoin(users, eq(resourceVersions.editorId, users.id))
+      .where(eq(resourceVersions.resourceId, input.resourceId))
+      .orderBy(desc(resourceVersions.version));
+
+    // The newest applied version is the one currently live
+    const liveVersionId = versions.find((v) => v.status === "applied")?.id;
+
+    return {
+      pendingVersionId: resource.pendingVersionId,
+      items: versions.map((v) => ({ ...v, isLive: v.id === liveVersionId })),
+    };
+  }),
+
+  // Field-by-field diff between two versions (owner or moderator)
+  diffVersions: protectedProcedure.input(diffVersionsInput).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await assertCanEdit(db, input.resourceId, ctx.user);
+
+    const versions = await db
+      .select()
+      .from(resourceVersions)
+      .where(
+        and(
+          eq(resourceVersions.resourceId, input.resourceId),
+          inArray(resourceVersions.id, [input.fromVersionId, input.toVersionId])
+        )
+      );
+
+    const from = versions.find((v) => v.id === input.fromVersionId);
+    const to = versions.find((v) => v.id === input.toVersionId);
+    if (!from || !to) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
     }
 
-    // Check permissions
-    const isOwner = existing.contributorId === ctx.user.id;
-    const isModerator = ["moderator", "admin"].includes(ctx.user.role);
+    return {
+      from: { id: from.id, version: from.version, status: from.status, createdAt: from.createdAt },
+      to: { id: to.id, version: to.version, status: to.status, createdAt: to.createdAt },
+      changes: diffSnapshots(from.snapshot, to.snapshot),
+    };
+  }),
+
+  // Restore an earlier version by saving its content as a new version (owner or moderator)
+  restoreVersion: protectedProcedure.input(restoreVersionInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const { isModerator } = await assertCanEdit(db, input.resourceId, ctx.user);
 
-    if (!isOwner && !isModerator) {
-      throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to edit this resource" });
+    const [version] = await db
+      .select()
+      .from(resourceVersions)
+      .where(and(eq(resourceVersions.id, input.versionId), eq(resourceVersions.resourceId, input.resourceId)));
+    if (!version) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
     }
 
-    await db
-      .update(resources)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(resources.id, id));
+    const result = await applyEdit(db, {
+      resourceId: input.resourceId,
+      editorId: ctx.user.id,
+      changes: version.snapshot,
+      changeNote: input.changeNote ?? `Restored version ${version.version}`,
+      restoredFromId: version.id,
+      requireReview: !isModerator,
+    });
 
-    return { success: true };
+    return { success: true, ...result };
   }),
 
   // Submit for review (teacher+)
@@ -417,70 +647,22 @@ export const resourceRouter = router({
     return { success: true };
   }),
 
-  // Track view (public)
+  // Count a view of the detail page: once per user or IP per window, ignoring bots and over-limit clients
   trackView: publicProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-    // Record the view
-    await db.insert(resourceViews).values({
-      id: nanoid(),
-      resourceId: input.id,
-      userId: ctx.user?.id ?? null,
-    });
-
-    // Increment view count
-    await db
-      .update(resources)
-      .set({ viewCount: sql`${resources.viewCount} + 1` })
-      .where(eq(resources.id, input.id));
-
-    return { success: true };
-  }),
-
-  // Track download (public)
-  trackDownload: publicProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
-    const db = await getDb();
-    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
-
-    // Get resource to find contributor
-    const [resource] = await db.select().from(resources).where(eq(resources.id, input.id));
-    if (!resource) {
-      throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
+    if (isBotUserAgent(ctx.req.headers["user-agent"])) {
+      return { counted: false };
     }
 
-    // Record the download
-    await db.insert(resourceDownloads).values({
-      id: nanoid(),
-      resourceId: input.id,
-      userId: ctx.user?.id ?? null,
-    });
-
-    // Increment download count
-    await db
-      .update(resources)
-      .set({ downloadCount: sql`${resources.downloadCount} + 1` })
-      .where(eq(resources.id, input.id));
+    const client = { userId: ctx.user?.id ?? null, ipHash: hashIp(ctx.req.ip) };
+    if (!(await takeRateLimit(db, "view", client))) {
+      throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "Too many requests, please slow down" });
+    }
 
-    // Update contributor stats
-    await db
-      .update(users)
-      .set({
-        totalDownloadsReceived: sql`${users.totalDownloadsReceived} + 1`,
-      })
-      .where(eq(users.id, resource.contributorId));
-
-    // Award RC to resource owner
-    await awardRc(
-      db,
-      resource.contributorId,
-      RC_CONFIG.RESOURCE_DOWNLOAD,
-      "resource_upvoted", // Using upvoted as closest match
-      "resource",
-      input.id
-    );
-
-    return { fileUrl: resource.fileUrl, externalUrl: resource.externalUrl };
+    const counted = await recordView(db, { resourceId: input.id, ...client });
+    return { counted };
   }),
 
   // Vote on resource (authenticated)
@@ -498,132 +680,100 @@ export const resourceRouter = router({
       throw new TRPCError({ code: "BAD_REQUEST", message: "You cannot vote on your own resources" });
     }
 
-    // Check existing vote
-    const [existingVote] = await db
-      .select()
-      .from(resourceVotes)
-      .where(and(eq(resourceVotes.resourceId, input.resourceId), eq(resourceVotes.userId, ctx.user.id)));
+    const rcForValue = (value: number) =>
+      value > 0 ? RC_CONFIG.RESOURCE_UPVOTE_RECEIVED : RC_CONFIG.RESOURCE_DOWNVOTE_RECEIVED;
+    const reasonForAmount = (amount: number) => (amount > 0 ? "resource_upvoted" : "resource_downvoted");
 
-    if (input.value === "remove") {
-      if (existingVote) {
-        // Remove vote
-        await db
-          .delete(resourceVotes)
-          .where(and(eq(resourceVotes.resourceId, input.resourceId), eq(resourceVotes.userId, ctx.user.id)));
-
-        // Update resource counts
-        if (existingVote.value > 0) {
-          await db
-            .update(resources)
-            .set({
-              upvoteCount: sql`${resources.upvoteCount} - 1`,
-              netVotes: sql`${resources.netVotes} - 1`,
-            })
-            .where(eq(resources.id, input.resourceId));
-        } else {
-          await db
-            .update(resources)
-            .set({
-              downvoteCount: sql`${resources.downvoteCount} - 1`,
-              netVotes: sql`${resources.netVotes} + 1`,
-            })
-            .where(eq(resources.id, input.resourceId));
-        }
-      }
-      return { success: true, vote: null };
-    }
+    // Vote rows are never edited in place: a change deletes the old row and inserts a
+    // new one, so every ledger posting is keyed by the vote row that caused it.
+    return db.transaction(async (tx) => {
+      const [existingVote] = await tx
+        .select()
+        .from(resourceVotes)
+        .where(and(eq(resourceVotes.resourceId, input.resourceId), eq(resourceVotes.userId, ctx.user.id)))
+        .for("update");
 
-    const newValue = input.value === "up" ? 1 : -1;
+      const newValue = input.value === "remove" ? null : input.value === "up" ? 1 : -1;
+      const oldValue = existingVote?.value ?? null;
 
-    if (existingVote) {
-      if (existingVote.value === newValue) {
+      if (newValue === oldValue) {
         return { success: true, vote: newValue };
       }
 
-      // Change vote
-      await db
-        .update(resourceVotes)
-        .set({ value: newValue, updatedAt: new Date() })
-        .where(eq(resourceVotes.id, existingVote.id));
-
-      // Update counts (changing vote = +-2 net change)
-      if (newValue > 0) {
-        await db
-          .update(resources)
-          .set({
-            upvoteCount: sql`${resources.upvoteCount} + 1`,
-            downvoteCount: sql`${resources.downvoteCount} - 1`,
-            netVotes: sql`${resources.netVotes} + 2`,
-          })
-          .where(eq(resources.id, input.resourceId));
-
-        // Award/deduct RC
-        await awardRc(
-          db,
-          resource.contributorId,
-          RC_CONFIG.RESOURCE_UPVOTE_RECEIVED - RC_CONFIG.RESOURCE_DOWNVOTE_RECEIVED,
-          "resource_upvoted",
-          "resource",
-          input.resourceId
-        );
-      } else {
-        await db
-          .update(resources)
-          .set({
-            upvoteCount: sql`${resources.upvoteCount} - 1`,
-            downvoteCount: sql`${resources.downvoteCount} + 1`,
-            netVotes: sql`${resources.netVotes} - 2`,
-          })
-          .where(eq(resources.id, input.resourceId));
-
-        await awardRc(
-          db,
-          resource.contributorId,
-          RC_CONFIG.RESOURCE_DOWNVOTE_RECEIVED - RC_CONFIG.RESOURCE_UPVOTE_RECEIVED,
-          "resource_downvoted",
-          "resource",
-          input.resourceId
-        );
+      if (existingVote) {
+        await tx.delete(resourceVotes).where(eq(resourceVotes.id, existingVote.id));
+      }
+
+      let voteId: string | null = null;
+      if (newValue !== null) {
+        voteId = nanoid();
+        await tx.insert(resourceVotes).values({
+          id: voteId,
+          resourceId: input.resourceId,
+          userId: ctx.user.id,
+          value: newValue,
+          ipHash: hashIp(ctx.req.ip),
+        });
       }
-    } else {
-      // New vote
-      await db.insert(resourceVotes).values({
-        id: nanoid(),
-        resourceId: input.resourceId,
-        userId: ctx.user.id,
-        value: newValue,
-      });
 
-      if (newValue > 0) {
-        await db
-          .update(resources)
-          .set({
-            upvoteCount: sql`${resources.upvoteCount} + 1`,
-            netVotes: sql`${resources.netVotes} + 1`,
-          })
-          .where(eq(resources.id, input.resourceId));
-
-        // Update contributor stats
-        await db
+      const upDelta = (newValue === 1 ? 1 : 0) - (oldValue === 1 ? 1 : 0);
+      const downDelta = (newValue === -1 ? 1 : 0) - (oldValue === -1 ? 1 : 0);
+
+      await tx
+        .update(resources)
+        .set({
+          upvoteCount: sql`${resources.upvoteCount} + ${upDelta}`,
+          downvoteCount: sql`${resources.downvoteCount} + ${downDelta}`,
+          netVotes: sql`${resources.netVotes} + ${upDelta - downDelta}`,
+          ratingScore: ratingScoreExpression(
+            sql`${resources.upvoteCount} + ${upDelta}`,
+            sql`${resources.downvoteCount} + ${downDelta}`
+          ),
+        })
+        .where(eq(resources.id, input.resourceId));
+
+      // Only brand new upvotes count toward contributor stats
+      if (oldValue === null && newValue === 1) {
+        await tx
           .update(users)
           .set({ totalUpvotesReceived: sql`${users.totalUpvotesReceived} + 1` })
           .where(eq(users.id, resource.contributorId));
+      }
 
-        await awardRc(db, resource.contributorId, RC_CONFIG.RESOURCE_UPVOTE_RECEIVED, "resource_upvoted", "resource", input.resourceId);
-      } else {
-        await db
-          .update(resources)
-          .set({
-            downvoteCount: sql`${resources.downvoteCount} + 1`,
-            netVotes: sql`${resources.netVotes} - 1`,
-          })
-          .where(eq(resources.id, input.resourceId));
-
-        await awardRc(db, resource.contributorId, RC_CONFIG.RESOURCE_DOWNVOTE_RECEIVED, "resource_downvoted", "resource", input.resourceId);
+      // RC already taken back from the contributor for the old vote by a confirmed gaming case
+      let reversed = 0;
+      if (existingVote) {
+        const [row] = await tx
+          .select({ total: sql<number>`coalesce(sum(${rcTransactions.amount}), 0)::int` })
+          .from(rcTransactions)
+          .where(
+            and(
+              eq(rcTransactions.userId, resource.contributorId),
+              eq(rcTransactions.reason, "vote_reversed"),
+              eq(rcTransactions.referenceType, "resource_vote"),
+              eq(rcTransactions.referenceId, existingVote.id)
+            )
+          );
+        reversed = -(row?.total ?? 0);
+      }
+
+      // Net RC effect of moving from the old vote to the new one, less what was already reversed
+      const amount =
+        (newValue !== null ? rcForValue(newValue) : 0) - (oldValue !== null ? rcForValue(oldValue) : 0) + reversed;
+      if (amount !== 0) {
+        await postRc(tx, {
+          userId: resource.contributorId,
+          amount,
+          reason: reasonForAmount(amount),
+          referenceType: "resource_vote",
+          // A removal is keyed by the deleted row; its original posting used the opposite reason
+          referenceId: voteId ?? existingVote!.id,
+          meta: { resourceId: input.resourceId, voterId: ctx.user.id, from: oldValue, to: newValue },
+        });
       }
-    }
 
-    return { success: true, vote: newValue };
+      return { success: true, vote: newValue };
+    });
   }),
 
   // Get user's vote on a resource
@@ -639,54 +789,6 @@ export const resourceRouter = router({
     return vote?.value ?? null;
   }),
 
-  // Get comments for a resource
-  getComments: publicProcedure.input(z.object({ resourceId: z.string() })).query(async ({ input }) => {
-    const db = await getDb();
-    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
-
-    const comments = await db
-      .select({
-        id: resourceComments.id,
-        content: resourceComments.content,
-        parentId: resourceComments.parentId,
-        isEdited: resourceComments.isEdited,
-        createdAt: resourceComments.createdAt,
-        userId: resourceComments.userId,
-        userName: users.name,
-        userAvatar: users.avatarUrl,
-      })
-      .from(resourceComments)
-      .leftJoin(users, eq(resourceComments.userId, users.id))
-      .where(eq(resourceComments.resourceId, input.resourceId))
-      .orderBy(asc(resourceComments.createdAt));
-
-    return comments;
-  }),
-
-  // Add comment (authenticated)
-  addComment: protectedProcedure.input(commentInput).mutation(async ({ ctx, input }) => {
-    const db = await getDb();
-    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
-
-    const id = nanoid();
-
-    await db.insert(resourceComments).values({
-      id,
-      resourceId: input.resourceId,
-      userId: ctx.user.id,
-      content: input.content,
-      parentId: input.parentId,
-    });
-
-    // Update comment count
-    await db
-      .update(resources)
-      .set({ commentCount: sql`${resources.commentCount} + 1` })
-      .where(eq(resources.id, input.resourceId));
-
-    return { id };
-  }),
-
   // List related resources
   listRelated: publicProcedure.input(z.object({ resourceId: z.string(), limit: z.number().default(5) })).query(async ({ input }) => {
     const db = await getDb();
@@ -708,6 +810,7 @@ export const resourceRouter = router({
         subject: resources.subject,
         gradeLevel: resources.gradeLevel,
         netVotes: resources.netVotes,
+        ratingScore: resources.ratingScore,
       })
       .from(resources)
       .where(
@@ -717,35 +820,49 @@ export const resourceRouter = router({
           or(eq(resources.subject, source.subject), eq(resources.gradeLevel, source.gradeLevel))
         )
       )
-      .orderBy(desc(resources.netVotes))
+      .orderBy(desc(resources.ratingScore), desc(resources.id))
       .limit(input.limit);
 
     return related;
   }),
 
-  // Get featured resources
+  // Get featured resources, topped up with the highest rated when fewer are featured
   getFeatured: publicProcedure.query(async () => {
     const db = await getDb();
     if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
+    const limit = 10;
+    const fields = {
+      id: resources.id,
+      title: resources.title,
+      summary: resources.summary,
+      thumbnailUrl: resources.thumbnailUrl,
+      category: resources.category,
+      subject: resources.subject,
+      gradeLevel: resources.gradeLevel,
+      netVotes: resources.netVotes,
+      ratingScore: resources.ratingScore,
+      viewCount: resources.viewCount,
+      isFeatured: resources.isFeatured,
+    };
+
     const featured = await db
-      .select({
-        id: resources.id,
-        title: resources.title,
-        summary: resources.summary,
-        thumbnailUrl: resources.thumbnailUrl,
-        category: resources.category,
-        subject: resources.subject,
-        gradeLevel: resources.gradeLevel,
-        netVotes: resources.netVotes,
-        viewCount: resources.viewCount,
-      })
+      .select(fields)
       .from(resources)
       .where(and(eq(resources.status, "approved"), eq(resources.isFeatured, true)))
-      .orderBy(desc(resources.netVotes))
-      .limit(10);
+      .orderBy(desc(resources.ratingScore), desc(resources.id))
+      .limit(limit);
 
-    return featured;
+    if (featured.length >= limit) return featured;
+
+    const fallback = await db
+      .select(fields)
+      .from(resources)
+      .where(and(eq(resources.status, "approved"), eq(resources.isFeatured, false)))
+      .orderBy(desc(resources.ratingScore), desc(resources.id))
+      .limit(limit - featured.length);
+
+    return [...featured, ...fallback];
   }),
 
   // Get editor picks
@@ -777,13 +894,108 @@ export const resourceRouter = router({
    * Fetches all resources uploaded by the logged-in user, regardless of status.
    */
   getMyResources: protectedProcedure
-    .query(async ({ ctx }) => {
+    .input(
+      z.object({
+        cursor: z.string().optional(),
+        limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
-      return await db.select()
+      const limit = input?.limit ?? PAGINATION.DEFAULT_PAGE_SIZE;
+      const keyset: Keyset = { sort: "newest", key: resources.createdAt, id: resources.id, direction: "desc" };
+
+      const { searchVector: _searchVector, ...resourceColumns } = getTableColumns(resources);
+      const results = await db.select({ ...resourceColumns, cursorKey: keysetCursorKey(keyset) })
         .from(resources)
-        .where(eq(resources.contributorId, ctx.user.id))
-        .orderBy(desc(resources.createdAt));
+        .where(and(eq(resources.contributorId, ctx.user.id), keysetAfter(keyset, input?.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
+        .limit(limit + 1);
+
+      return paginate(results, limit, keyset);
     }),
+
+  // Queue a bulk import of draft resources from a Common Cartridge, a ZIP with a CSV manifest, or a CSV of links
+  startImport: teacherProcedure.input(startImportInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    if (input.format !== "csv_links" && !input.uploadId) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Upload the package before importing it" });
+    }
+    if (!input.uploadId === !input.csv) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Provide either an uploaded file or pasted CSV" });
+    }
+
+    if (input.uploadId) {
+      const [upload] = await db.select().from(uploads).where(eq(uploads.id, input.uploadId));
+      if (!upload || upload.userId !== ctx.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+      }
+      if (upload.status !== "complete") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Upload is not complete" });
+      }
+    }
+
+    const defaults: Record<string, string> = {};
+    for (const [field, value] of Object.entries(input.defaults ?? {})) {
+      if (value) defaults[field] = value;
+    }
+
+    const id = nanoid();
+    await db.insert(resourceImports).values({
+      id,
+      userId: ctx.user.id,
+      format: input.format,
+      uploadId: input.uploadId ?? null,
+      csv: input.csv ?? null,
+      defaults,
+    });
+
+    kickImportJob();
+
+    return { id };
+  }),
+
+  // Status of an import, with its per-row report once it has completed (importer only)
+  getImport: teacherProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const [job] = await db.select().from(resourceImports).where(eq(resourceImports.id, input.id));
+    if (!job || job.userId !== ctx.user.id) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Import not found" });
+    }
+
+    const { csv: _csv, reportKey, ...status } = job;
+    return {
+      ...status,
+      reportUrl: reportKey ? (await storageGet(reportKey, IMPORT_CONFIG.REPORT_URL_TTL_S)).url : null,
+    };
+  }),
+
+  // The logged-in user's imports, newest first
+  listImports: teacherProcedure.query(async ({ ctx }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    return db
+      .select({
+        id: resourceImports.id,
+        format: resourceImports.format,
+        status: resourceImports.status,
+        totalRows: resourceImports.totalRows,
+        createdCount: resourceImports.createdCount,
+        errorCount: resourceImports.errorCount,
+        error: resourceImports.error,
+        createdAt: resourceImports.createdAt,
+        completedAt: resourceImports.completedAt,
+      })
+      .from(resourceImports)
+      .where(eq(resourceImports.userId, ctx.user.id))
+      .orderBy(desc(resourceImports.createdAt))
+      .limit(20);
+  }),
 });
@@ -0,0 +1,271 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq, and, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { router, publicProcedure, protectedProcedure } from "../_core/trpc";
+import { getDb, type DbInstance } from "../db";
+import { canAccessResource } from "../downloads";
+import { keysetAfter, keysetCursorKey, keysetOrderBy, paginate, type Keyset } from "../pagination";
+import { resourceReviews, resources, users, type User } from "../../drizzle/schema";
+import { PAGINATION, REVIEW_CONFIG } from "@shared/const";
+
+// Input schemas
+const score = z.number().int().min(REVIEW_CONFIG.MIN_SCORE).max(REVIEW_CONFIG.MAX_SCORE);
+
+const reviewFieldsInput = z.object({
+  rating: score,
+  alignmentScore: score.nullable().optional(),
+  clarityScore: score.nullable().optional(),
+  classroomReadinessScore: score.nullable().optional(),
+  notes: z.string().trim().max(REVIEW_CONFIG.MAX_NOTES_LENGTH).optional(),
+  usedInClass: z.boolean().optional(),
+});
+
+const createReviewInput = reviewFieldsInput.extend({
+  resourceId: z.string(),
+});
+
+const updateReviewInput = reviewFieldsInput.partial().extend({
+  id: z.string(),
+});
+
+const listReviewsInput = z.object({
+  resourceId: z.string(),
+  usedInClassOnly: z.boolean().default(false),
+  cursor: z.string().optional(),
+  limit: z.number().min(1).max(PAGINATION.MAX_PAGE_SIZE).default(PAGINATION.DEFAULT_PAGE_SIZE),
+});
+
+const reviewKeyset: Keyset = { sort: "newest", key: resourceReviews.createdAt, id: resourceReviews.id, direction: "desc" };
+
+// Load a resource the caller can see
+async function loadVisibleResource(db: DbInstance, resourceId: string, user: User | null) {
+  const [resource] = await db
+    .select({ id: resources.id, status: resources.status, contributorId: resources.contributorId })
+    .from(resources)
+    .where(eq(resources.id, resourceId));
+  if (!resource || !canAccessResource(resource, user)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
+  }
+  return resource;
+}
+
+// Reviews are deliberately not votes: they never touch vote counts or post RC
+export const reviewRouter = router({
+  // Reviews of a resource, newest first
+  list: publicProcedure.input(listReviewsInput).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await loadVisibleResource(db, input.resourceId, ctx.user);
+
+    const results = await db
+      .select({
+        id: resourceReviews.id,
+        rating: resourceReviews.rating,
+        alignmentScore: resourceReviews.alignmentScore,
+        clarityScore: resourceReviews.clarityScore,
+        classroomReadinessScore: resourceReviews.classroomReadinessScore,
+        notes: resourceReviews.notes,
+        usedInClass: resourceReviews.usedInClass,
+        editedAt: resourceReviews.editedAt,
+        createdAt: resourceReviews.createdAt,
+        userId: resourceReviews.userId,
+        userName: users.name,
+        userAvatar: users.avatarUrl,
+        cursorKey: keysetCursorKey(reviewKeyset),
+      })
+      .from(resourceReviews)
+      .leftJoin(users, eq(resourceReviews.userId, users.id))
+      .where(
+        and(
+          eq(resourceReviews.resourceId, input.resourceId),
+          input.usedInClassOnly ? eq(resourceReviews.usedInClass, true) : undefined,
+          keysetAfter(reviewKeyset, input.cursor)
+        )
+      )
+      .orderBy(...keysetOrderBy(reviewKeyset))
+      .limit(input.limit + 1);
+
+    return paginate(results, input.limit, reviewKeyset);
+  }),
+
+  // Aggregate ratings: average, star distribution, criterion averages and classroom use
+  summary: publicProcedure.input(z.object({ resourceId: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    await loadVisibleResource(db, input.resourceId, ctx.user);
+
+    const [totals] = await db
+      .select({
+        reviewCount: sql<number>`count(*)::int`,
+        averageRating: sql<number | null>`avg(${resourceReviews.rating})::float`,
+        alignment: sql<number | null>`avg(${resourceReviews.alignmentScore})::float`,
+        alignmentCount: sql<number>`count(${resourceReviews.alignmentScore})::int`,
+        clarity: sql<number | null>`avg(${resourceReviews.clarityScore})::float`,
+        clarityCount: sql<number>`count(${resourceReviews.clarityScore})::int`,
+        classroomReadiness: sql<number | null>`avg(${resourceReviews.classroomReadinessScore})::float`,
+        classroomReadinessCount: sql<number>`count(${resourceReviews.classroomReadinessScore})::int`,
+        usedInClassCount: sql<number>`count(*) FILTER (WHERE ${resourceReviews.usedInClass})::int`,
+      })
+      .from(resourceReviews)
+      .where(eq(resourceReviews.resourceId, input.resourceId));
+
+    const stars = await db
+      .select({ rating: resourceReviews.rating, count: sql<number>`count(*)::int` })
+      .from(resourceReviews)
+      .where(eq(resourceReviews.resourceId, input.resourceId))
+      .groupBy(resourceReviews.rating);
+
+    const distribution: Record<number, number> = {};
+    for (let rating = REVIEW_CONFIG.MIN_SCORE; rating <= REVIEW_CONFIG.MAX_SCORE; rating++) {
+      distribution[rating] = stars.find((s) => s.rating === rating)?.count ?? 0;
+    }
+
+    return {
+      reviewCount: totals.reviewCount,
+      averageRating: totals.averageRating,
+      distribution,
+      criteria: {
+        alignment: { average: totals.alignment, count: totals.alignmentCount },
+        clarity: { average: totals.clarity, count: totals.clarityCount },
+        classroomReadiness: { average: totals.classroomReadiness, count: totals.classroomReadinessCount },
+      },
+      usedInClassCount: totals.usedInClassCount,
+    };
+  }),
+
+  // The logged-in user's review of a resource, if any
+  getMine: protectedProcedure.input(z.object({ resourceId: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const [review] = await db
+      .select()
+      .from(resourceReviews)
+      .where(and(eq(resourceReviews.resourceId, input.resourceId), eq(resourceReviews.userId, ctx.user.id)));
+
+    return review ?? null;
+  }),
+
+  // Review a resource (one per user; authors cannot review their own)
+  create: protectedProcedure.input(createReviewInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const resource = await loadVisibleResource(db, input.resourceId, ctx.user);
+    if (resource.status !== "approved") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Only published resources can be reviewed" });
+    }
+    if (resource.contributorId === ctx.user.id) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "You cannot review your own resources" });
+    }
+
+    const id = nanoid();
+
+    await db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(resourceReviews)
+        .values({
+          id,
+          resourceId: input.resourceId,
+          userId: ctx.user.id,
+          rating: input.rating,
+          alignmentScore: input.alignmentScore ?? null,
+          clarityScore: input.clarityScore ?? null,
+          classroomReadinessScore: input.classroomReadinessScore ?? null,
+          notes: input.notes || null,
+          usedInClass: input.usedInClass ?? false,
+        })
+        .onConflictDoNothing()
+        .returning({ id: resourceReviews.id });
+
+      if (inserted.length === 0) {
+        throw new TRPCError({ code: "CONFLICT", message: "You have already reviewed this resource" });
+      }
+
+      await tx
+        .update(resources)
+        .set({
+          reviewCount: sql`${resources.reviewCount} + 1`,
+          ratingTotal: sql`${resources.ratingTotal} + ${input.rating}`,
+        })
+        .where(eq(resources.id, input.resourceId));
+    });
+
+    return { id };
+  }),
+
+  // Edit own review
+  update: protectedProcedure.input(updateReviewInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const { id, ...changes } = input;
+
+    return db.transaction(async (tx) => {
+      const [review] = await tx.select().from(resourceReviews).where(eq(resourceReviews.id, id)).for("update");
+      if (!review) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+      }
+      if (review.userId !== ctx.user.id) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You can only edit your own reviews" });
+      }
+
+      const now = new Date();
+      await tx
+        .update(resourceReviews)
+        .set({
+          ...changes,
+          notes: changes.notes === undefined ? undefined : changes.notes || null,
+          editedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(resourceReviews.id, id));
+
+      const ratingDelta = changes.rating === undefined ? 0 : changes.rating - review.rating;
+      if (ratingDelta !== 0) {
+        await tx
+          .update(resources)
+          .set({ ratingTotal: sql`${resources.ratingTotal} + ${ratingDelta}` })
+          .where(eq(resources.id, review.resourceId));
+      }
+
+      return { success: true };
+    });
+  }),
+
+  // Delete a review (author or moderator)
+  delete: protectedProcedure.input(z.object({ id: z.string() })).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const isModerator = ["moderator", "admin"].includes(ctx.user.role);
+
+    await db.transaction(async (tx) => {
+      const [review] = await tx
+        .select()
+        .from(resourceReviews)
+        .where(eq(resourceReviews.id, input.id))
+        .for("update");
+      if (!review) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Review not found" });
+      }
+      if (review.userId !== ctx.user.id && !isModerator) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You can only delete your own reviews" });
+      }
+
+      await tx.delete(resourceReviews).where(eq(resourceReviews.id, review.id));
+      await tx
+        .update(resources)
+        .set({
+          reviewCount: sql`GREATEST(${resources.reviewCount} - 1, 0)`,
+          ratingTotal: sql`GREATEST(${resources.ratingTotal} - ${review.rating}, 0)`,
+        })
+        .where(eq(resources.id, review.resourceId));
+    });
+
+    return { success: true };
+  }),
+});
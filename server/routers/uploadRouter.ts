@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { eq, and } from "drizzle-orm";
+import { router, protectedProcedure } from "../_core/trpc";
+import { getDb } from "../db";
+import { completeUpload, maxUploadSize, purgeStaleUploads, startUpload } from "../uploads";
+import { uploads, resourceTypeEnum } from "../../drizzle/schema";
+import { UPLOAD_CONFIG } from "@shared/const";
+
+// Input schemas
+const startUploadInput = z.object({
+  fileName: z.string().min(1).max(255),
+  fileSize: z.number().int().positive(),
+  resourceType: z.enum(resourceTypeEnum.enumValues),
+});
+
+export const uploadRouter = router({
+  // Upload limits for the current user
+  limits: protectedProcedure.query(({ ctx }) => {
+    return {
+      maxFileSize: maxUploadSize(ctx.user.role),
+      chunkSize: UPLOAD_CONFIG.CHUNK_SIZE,
+    };
+  }),
+
+  // Open an upload session; chunks are then sent to PUT /api/uploads/:uploadId/chunks/:index
+  start: protectedProcedure.input(startUploadInput).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    // Sweep abandoned sessions while we're here
+    await purgeStaleUploads(db);
+
+    return startUpload(db, ctx.user, input);
+  }),
+
+  // Validate the received file and store it
+  complete: protectedProcedure.input(z.object({ uploadId: z.string() })).mutation(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const upload = await completeUpload(db, ctx.user.id, input.uploadId);
+
+    return {
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      fileSize: upload.declaredSize,
+      mimeType: upload.mimeType,
+      sha256: upload.sha256,
+      url: upload.url,
+    };
+  }),
+
+  // Upload progress / status (own uploads only)
+  get: protectedProcedure.input(z.object({ uploadId: z.string() })).query(async ({ ctx, input }) => {
+    const db = await getDb();
+    if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+    const [upload] = await db
+      .select({
+        id: uploads.id,
+        fileName: uploads.fileName,
+        resourceType: uploads.resourceType,
+        declaredSize: uploads.declaredSize,
+        receivedBytes: uploads.receivedBytes,
+        nextChunk: uploads.nextChunk,
+        status: uploads.status,
+        mimeType: uploads.mimeType,
+        sha256: uploads.sha256,
+        error: uploads.error,
+        createdAt: uploads.createdAt,
+        completedAt: uploads.completedAt,
+      })
+      .from(uploads)
+      .where(and(eq(uploads.id, input.uploadId), eq(uploads.userId, ctx.user.id)));
+
+    if (!upload) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+    }
+
+    return upload;
+  }),
+});
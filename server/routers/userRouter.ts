@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { eq, desc, sql } from "drizzle-orm";
+import { eq, and, desc, sql, getTableColumns } from "drizzle-orm";
 import {
   router,
   publicProcedure,
@@ -8,6 +8,9 @@ import {
   adminProcedure,
 } from "../_core/trpc";
 import { getDb } from "../db";
+import { keysetAfter, keysetCursorKey, keysetOrderBy, paginate, type Keyset } from "../pagination";
+import { postRc, reconcileLedger } from "../ledger";
+import { refreshSearchVectors } from "../search";
 import {
   users,
   resources,
@@ -26,16 +29,6 @@ const updateProfileInput = z.object({
   gradeLevels: z.array(z.string()).optional(),
 });
 
-// Helper: Calculate contributor level from RC
-function getContributorLevel(rc: number): keyof typeof CONTRIBUTOR_LEVELS {
-  for (const [level, range] of Object.entries(CONTRIBUTOR_LEVELS)) {
-    if (rc >= range.min && rc <= range.max) {
-      return level as keyof typeof CONTRIBUTOR_LEVELS;
-    }
-  }
-  return "newcomer";
-}
-
 export const userRouter = router({
   // Get current user (authenticated)
   me: protectedProcedure.query(async ({ ctx }) => {
@@ -100,6 +93,11 @@ export const userRouter = router({
       })
       .where(eq(users.id, ctx.user.id));
 
+    // Contributor names are part of the resource search index
+    if (input.name !== undefined) {
+      await refreshSearchVectors(db, { contributorId: ctx.user.id });
+    }
+
     return { success: true };
   }),
 
@@ -159,20 +157,16 @@ export const userRouter = router({
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
 
+      const keyset: Keyset = { sort: "newest", key: rcTransactions.createdAt, id: rcTransactions.id, direction: "desc" };
+
       const transactions = await db
-        .select()
+        .select({ ...getTableColumns(rcTransactions), cursorKey: keysetCursorKey(keyset) })
         .from(rcTransactions)
-        .where(eq(rcTransactions.userId, ctx.user.id))
-        .orderBy(desc(rcTransactions.createdAt))
+        .where(and(eq(rcTransactions.userId, ctx.user.id), keysetAfter(keyset, input.cursor)))
+        .orderBy(...keysetOrderBy(keyset))
         .limit(input.limit + 1);
 
-      const hasMore = transactions.length > input.limit;
-      const items = hasMore ? transactions.slice(0, -1) : transactions;
-
-      return {
-        items,
-        nextCursor: hasMore ? items[items.length - 1]?.id : undefined,
-      };
+      return paginate(transactions, input.limit, keyset);
     }),
 
   // Get user resources (public)
@@ -351,29 +345,33 @@ export const userRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "User not found" });
       }
 
-      const newBalance = (user.reputationCredits ?? 0) + input.amount;
-      const newLevel = getContributorLevel(newBalance);
-
-      await db
-        .update(users)
-        .set({
-          reputationCredits: newBalance,
-          contributorLevel: newLevel,
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, input.userId));
-
-      // Log the transaction
-      await db.insert(rcTransactions).values({
-        id: `rc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const posting = await postRc(db, {
         userId: input.userId,
         amount: input.amount,
         reason: "manual_adjustment",
         meta: { adjustedBy: ctx.user.id, note: input.reason },
-        balanceAfter: newBalance,
       });
 
-      return { success: true, newBalance, newLevel };
+      return { success: true, newBalance: posting.balanceAfter, newLevel: posting.contributorLevel };
+    }),
+
+  // Admin: Check RC balances against the ledger, optionally writing corrective entries
+  reconcileRc: adminProcedure
+    .input(
+      z.object({
+        userId: z.string().optional(),
+        repair: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const db = await getDb();
+      if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database not available" });
+
+      return reconcileLedger(db, {
+        userId: input.userId,
+        repair: input.repair,
+        repairedBy: ctx.user.id,
+      });
     }),
 
   // Search users (public)
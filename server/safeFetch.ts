@@ -0,0 +1,138 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+/**
+ * Fetch a user-supplied URL from the server.
+ *
+ * Only http(s) URLs whose host resolves to public addresses are fetched, so a
+ * submitted link cannot be used to reach internal services. The address is
+ * checked in the socket's own DNS lookup, so the address checked is the one
+ * connected to (no window for DNS rebinding). Redirects are followed manually
+ * (re-checking each hop), and the response body is capped.
+ */
+
+const USER_AGENT = "ApexCommonsBot/1.0 (+https://apexcommons.org)";
+const MAX_REDIRECTS = 5;
+
+const privateRanges = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // multicast and reserved
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string, family: number) {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1 or ::ffff:a00:1) is checked as IPv4
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) return privateRanges.check(dotted[1], "ipv4");
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return privateRanges.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, "ipv4");
+  }
+  return privateRanges.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+function assertPublicUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Refusing to fetch ${url.protocol} URL`);
+  }
+  // IP literals skip DNS (and the lookup below); IPv6 ones come bracketed
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  const family = net.isIP(host);
+  if (family && isPrivateAddress(host, family)) {
+    throw new Error(`Refusing to fetch non-public host ${url.hostname}`);
+  }
+}
+
+// dns.lookup for outgoing sockets that fails unless every address is public
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { family: options.family, hints: options.hints, all: true }, (error, addresses) => {
+    if (!error && (addresses.length === 0 || addresses.some(({ address, family }) => isPrivateAddress(address, family)))) {
+      error = Object.assign(new Error(`Refusing to fetch non-public host ${hostname}`), { code: "EPUBLICONLY" });
+    }
+    if (error) callback(error, "", 0);
+    else if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function request(url: URL, headers: Record<string, string>, signal: AbortSignal) {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise<http.IncomingMessage>((resolve, reject) => {
+    client.get(url, { headers, signal, lookup: publicLookup }, resolve).on("error", reject);
+  });
+}
+
+async function readCapped(response: http.IncomingMessage, maxBytes: number) {
+  const declared = Number(response.headers["content-length"]);
+  if (declared > maxBytes) {
+    response.destroy();
+    throw new Error(`Response too large (${declared} bytes)`);
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response) {
+    total += (chunk as Buffer).length;
+    if (total > maxBytes) {
+      response.destroy();
+      throw new Error(`Response larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function safeFetch(
+  input: string,
+  options: { maxBytes: number; timeoutMs: number; accept?: string }
+): Promise<{ body: Buffer; contentType: string; url: string }> {
+  let url = new URL(input);
+  const signal = AbortSignal.timeout(options.timeoutMs);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(url);
+
+    const response = await request(url, { "user-agent": USER_AGENT, accept: options.accept ?? "*/*" }, signal);
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      url = new URL(location, url);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Fetch failed (${status} ${response.statusMessage ?? ""}) for ${url}`);
+    }
+
+    return {
+      body: await readCapped(response, options.maxBytes),
+      contentType: (response.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase(),
+      url: url.toString(),
+    };
+  }
+
+  throw new Error(`Too many redirects for ${input}`);
+}
@@ -0,0 +1,31 @@
+/**
+ * Scan recent upvotes for vote farming and open moderation cases.
+ *
+ * Usage:
+ *   pnpm gaming:detect
+ *
+ * The server also does this every hour. Cases are reviewed in the moderation
+ * queue; nothing is reversed until a moderator confirms a case.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { detectVoteGaming } from "../antiGaming";
+
+async function main() {
+  const db = await getDb();
+  if (!db) {
+    console.error("[AntiGaming] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  const { suspects, casesOpened, casesUpdated, votesFlagged } = await detectVoteGaming(db);
+  console.log(
+    `[AntiGaming] ${suspects} suspects, ${votesFlagged} new votes flagged (${casesOpened} cases opened, ${casesUpdated} updated)`
+  );
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[AntiGaming] Detection failed:", error);
+  process.exit(2);
+});
@@ -0,0 +1,40 @@
+/**
+ * Generate thumbnails for resources that have none.
+ *
+ * Usage:
+ *   pnpm thumbnails:generate [batchSize]
+ *
+ * The server does this in the background every few minutes; run it by hand
+ * to backfill existing resources in one go.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { generateMissingThumbnails } from "../thumbnails";
+
+async function main() {
+  const db = await getDb();
+  if (!db) {
+    console.error("[Thumbnails] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  const batchSize = Number.parseInt(process.argv[2] ?? "25", 10);
+  let total = 0;
+  let generated = 0;
+
+  while (true) {
+    const result = await generateMissingThumbnails(db, batchSize);
+    if (result.processed === 0) break;
+    total += result.processed;
+    generated += result.generated;
+    console.log(`[Thumbnails] ${generated} of ${total} generated so far`);
+  }
+
+  console.log(`[Thumbnails] Done: ${generated} of ${total} resources now have a thumbnail`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[Thumbnails] Generation failed:", error);
+  process.exit(2);
+});
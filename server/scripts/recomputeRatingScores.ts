@@ -0,0 +1,29 @@
+/**
+ * Recompute every resource's rating score from its vote counters.
+ *
+ * Usage:
+ *   pnpm ratings:recompute
+ *
+ * Run once after adding the rating_score column, or whenever the formula in
+ * server/ranking.ts changes. Votes keep the score current after that.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { refreshRatingScores } from "../ranking";
+
+async function main() {
+  const db = await getDb();
+  if (!db) {
+    console.error("[Ranking] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  const updated = await refreshRatingScores(db, "all");
+  console.log(`[Ranking] Recomputed rating scores for ${updated} resources`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[Ranking] Recompute failed:", error);
+  process.exit(2);
+});
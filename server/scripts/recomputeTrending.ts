@@ -0,0 +1,31 @@
+/**
+ * Recompute trending scores for every period.
+ *
+ * Usage:
+ *   pnpm trending:recompute
+ *
+ * The server does this every few minutes; run it to fill the table right after
+ * deploying or after changing the weights in TRENDING_CONFIG.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { recomputeAllTrendingScores } from "../trending";
+
+async function main() {
+  const db = await getDb();
+  if (!db) {
+    console.error("[Trending] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  const counts = await recomputeAllTrendingScores(db);
+  for (const [period, count] of Object.entries(counts)) {
+    console.log(`[Trending] ${period}: ${count} resources`);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[Trending] Recompute failed:", error);
+  process.exit(2);
+});
@@ -0,0 +1,32 @@
+/**
+ * Rebuild resource view and download counters from the tracking tables.
+ *
+ * Usage:
+ *   pnpm engagement:reconcile
+ *
+ * The server also does this every hour. Lists the resources whose counters
+ * were corrected.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { reconcileEngagementCounts } from "../tracking";
+
+async function main() {
+  const db = await getDb();
+  if (!db) {
+    console.error("[Tracking] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  const corrected = await reconcileEngagementCounts(db);
+  for (const id of corrected) {
+    console.log(`  corrected ${id}`);
+  }
+  console.log(`[Tracking] ${corrected.length} resources corrected`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[Tracking] Reconciliation failed:", error);
+  process.exit(2);
+});
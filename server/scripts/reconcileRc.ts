@@ -0,0 +1,56 @@
+/**
+ * RC ledger reconciliation.
+ *
+ * Usage:
+ *   pnpm rc:reconcile                 # report mismatches for every user
+ *   pnpm rc:reconcile --user <id>     # report a single user
+ *   pnpm rc:reconcile --repair        # also write corrective manual_adjustment entries
+ *
+ * Exits with code 1 when unrepaired mismatches were found, so it can gate CI or cron.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { reconcileLedger } from "../ledger";
+
+function parseArgs(argv: string[]) {
+  const userIndex = argv.indexOf("--user");
+  return {
+    repair: argv.includes("--repair"),
+    userId: userIndex >= 0 ? argv[userIndex + 1] : undefined,
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  const db = await getDb();
+  if (!db) {
+    console.error("[Ledger] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  const report = await reconcileLedger(db, {
+    userId: args.userId,
+    repair: args.repair,
+    repairedBy: "cli",
+  });
+
+  for (const d of report.discrepancies) {
+    console.log(
+      `${d.userId}\tstored=${d.storedBalance}\tledger=${d.ledgerBalance}\tdrift=${d.drift}\tchainBreaks=${d.chainBreaks.length}` +
+        (d.repairTransactionId ? `\trepaired=${d.repairTransactionId}` : "")
+    );
+  }
+
+  console.log(
+    `[Ledger] Scanned ${report.usersScanned} users, ${report.discrepancies.length} mismatched` +
+      (report.repaired ? ", corrective entries written" : "")
+  );
+
+  process.exit(report.discrepancies.length > 0 && !report.repaired ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("[Ledger] Reconciliation failed:", error);
+  process.exit(2);
+});
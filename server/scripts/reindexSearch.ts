@@ -0,0 +1,29 @@
+/**
+ * Rebuild the resource full-text search index.
+ *
+ * Usage:
+ *   pnpm search:reindex
+ *
+ * Run once after adding the search_vector column, or whenever the weighting in
+ * server/search.ts changes.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { refreshSearchVectors } from "../search";
+
+async function main() {
+  const db = await getDb();
+  if (!db) {
+    console.error("[Search] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  await refreshSearchVectors(db, "all");
+  console.log("[Search] Search vectors rebuilt");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("[Search] Reindex failed:", error);
+  process.exit(2);
+});
@@ -0,0 +1,34 @@
+/**
+ * Run one pass of the proposal lifecycle scheduler: activate scheduled
+ * drafts, close expired proposals and settle their RC rewards.
+ *
+ * Usage:
+ *   pnpm scheduler:run
+ *
+ * The server does this every 15 seconds. Only the holder of the scheduler
+ * lease runs jobs, so this does nothing while a server holds it.
+ */
+import "dotenv/config";
+import { getDb } from "../db";
+import { runScheduler } from "../proposalLifecycle";
+
+async function main() {
+  const db = await getDb();
+  if (!db) {
+    console.error("[Scheduler] DATABASE_URL is not set");
+    process.exit(2);
+  }
+
+  const { leader, enqueued, completed, failed } = await runScheduler(db);
+  if (!leader) {
+    console.log("[Scheduler] Another process holds the scheduler lease; nothing to do");
+  } else {
+    console.log(`[Scheduler] ${completed} jobs ran, ${failed} failed (${enqueued} missing jobs queued)`);
+  }
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("[Scheduler] Run failed:", error);
+  process.exit(2);
+});
@@ -0,0 +1,147 @@
+import { sql, type SQL } from "drizzle-orm";
+import type { DbExecutor } from "./db";
+import { resources } from "../drizzle/schema";
+
+/**
+ * Postgres full-text search for resources.
+ *
+ * `resources.search_vector` is maintained by the application: call
+ * `refreshSearchVectors` after any write that touches an indexed field
+ * (title, summary, description, tags, standards or the contributor's name).
+ *
+ * Field weights: A = title, B = tags + standards, C = summary + contributor name,
+ * D = description.
+ */
+
+const SEARCH_CONFIG = "english";
+
+// Markers used by ts_headline; swapped for <mark> after escaping the snippet
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+const jsonArrayText = (column: SQL) =>
+  sql`coalesce((SELECT string_agg(value, ' ') FROM json_array_elements_text(${column}) AS value), '')`;
+
+const searchVectorExpression = sql`
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(resources.title, '')), 'A') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, ${jsonArrayText(sql`resources.tags`)} || ' ' || ${jsonArrayText(sql`resources.standards`)}), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(resources.summary, '') || ' ' || coalesce(users.name, '')), 'C') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(resources.description, '')), 'D')
+`;
+
+// Rebuild search vectors for specific resources, one contributor's resources, or everything
+export async function refreshSearchVectors(
+  db: DbExecutor,
+  target: { resourceIds: string[] } | { contributorId: string } | "all"
+) {
+  let filter: SQL;
+  if (target === "all") {
+    filter = sql`TRUE`;
+  } else if ("contributorId" in target) {
+    filter = sql`resources.contributor_id = ${target.contributorId}`;
+  } else {
+    if (target.resourceIds.length === 0) return;
+    filter = sql`resources.id IN (${sql.join(
+      target.resourceIds.map((id) => sql`${id}`),
+      sql`, `
+    )})`;
+  }
+
+  await db.execute(sql`
+    UPDATE resources
+    SET search_vector = ${searchVectorExpression}
+    FROM users
+    WHERE users.id = resources.contributor_id AND ${filter}
+  `);
+}
+
+/**
+ * Turn user input into a `to_tsquery` expression.
+ *
+ *   "exit ticket"   -> phrase (exit <-> ticket)
+ *   fract*          -> prefix (fract:*)
+ *   -calculus       -> negation (!calculus)
+ *
+ * The last bare word is always prefix-matched so results update while typing.
+ * Returns null when nothing searchable is left.
+ */
+export function buildTsQuery(input: string): string | null {
+  // Strip tsquery operators and punctuation; letters in any script are kept
+  const clean = (word: string) => word.replace(/[\s!-\/:-@\[-`{-~]+/g, "");
+  const parts: string[] = [];
+
+  const tokens = input.match(/-?"[^"]*"?|\S+/g) ?? [];
+  let lastBareIndex = -1;
+
+  for (const token of tokens) {
+    const negated = token.startsWith("-");
+    const body = negated ? token.slice(1) : token;
+
+    if (body.startsWith('"')) {
+      const words = body.replace(/"/g, "").split(/\s+/).map(clean).filter(Boolean);
+      if (words.length === 0) continue;
+      const phrase = words.length === 1 ? words[0] : `(${words.join(" <-> ")})`;
+      parts.push(negated ? `!${phrase}` : phrase);
+      continue;
+    }
+
+    const prefix = body.endsWith("*");
+    const word = clean(body);
+    if (!word) continue;
+
+    if (negated) {
+      parts.push(`!${word}`);
+    } else {
+      parts.push(prefix ? `${word}:*` : word);
+      lastBareIndex = parts.length - 1;
+    }
+  }
+
+  if (parts.length === 0 || parts.every((p) => p.startsWith("!"))) return null;
+
+  if (lastBareIndex >= 0 && !parts[lastBareIndex].endsWith(":*")) {
+    parts[lastBareIndex] = `${parts[lastBareIndex]}:*`;
+  }
+
+  return parts.join(" & ");
+}
+
+export function tsQuery(query: string) {
+  return sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${query})`;
+}
+
+export function searchMatches(query: string) {
+  return sql`${resources.searchVector} @@ ${tsQuery(query)}`;
+}
+
+export function searchRank(query: string) {
+  // float8 so the value round-trips exactly through keyset cursors
+  return sql<number>`ts_rank_cd(${resources.searchVector}, ${tsQuery(query)})::float8`;
+}
+
+export function searchSnippet(query: string) {
+  return sql<string>`ts_headline(
+    ${SEARCH_CONFIG}::regconfig,
+    coalesce(nullif(${resources.description}, ''), ${resources.summary}, ${resources.title}),
+    ${tsQuery(query)},
+    ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "`}
+  )`;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Escape a ts_headline result and convert its markers into <mark> tags
+export function formatSnippet(headline: string | null) {
+  if (!headline) return null;
+  return escapeHtml(headline)
+    .split(HIGHLIGHT_START)
+    .join("<mark>")
+    .split(HIGHLIGHT_END)
+    .join("</mark>");
+}
@@ -1,8 +1,47 @@
-// Preconfigured storage helpers for Manus WebDev templates
-// Uses the Biz-provided storage proxy (Authorization: Bearer <token>)
+// Storage helpers behind a pluggable backend:
+//   forge - the Biz-provided storage proxy (Authorization: Bearer <token>)
+//   local - files on disk under LOCAL_STORAGE_DIR, served from /api/storage
+//   s3    - any S3-compatible bucket via @aws-sdk/client-s3
+// STORAGE_BACKEND picks one; without it forge is used when configured, else local.
+//
+// Object URLs returned by put() are not meant to be handed out for private
+// files: use storageGet(), which returns a URL that expires. Local files are
+// only served with a valid signature, except keys under "public/".
+//
+// Keys under "public/" (thumbnails, previews) get a stable URL under
+// /api/storage/public on every backend. With the local backend it serves the
+// file; with forge and s3 it redirects to a freshly signed URL, so a private
+// bucket works without a public-read policy.
 
+import fs from "fs";
+import path from "path";
+import { createHmac, timingSafeEqual } from "crypto";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+import express, { type Express } from "express";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { ENV } from './_core/env';
 
+export type StoredObject = { key: string; url: string };
+
+export interface StorageBackend {
+  readonly name: "forge" | "local" | "s3";
+  put(key: string, data: Buffer | Uint8Array | string, contentType: string): Promise<StoredObject>;
+  // Store a file from disk without reading it into memory where the backend allows
+  putFile(key: string, filePath: string, contentType: string): Promise<StoredObject>;
+  getUrl(key: string, expiresIn: number): Promise<string>;
+  // Copy a stored object to a local file (for server-side processing)
+  download(key: string, filePath: string): Promise<void>;
+  // Remove an object; missing objects are not an error
+  delete(key: string): Promise<void>;
+}
+
+// ============================================================================
+// FORGE
+// ============================================================================
+
 type StorageConfig = { baseUrl: string; apiKey: string };
 
 function getStorageConfig(): StorageConfig {
@@ -67,39 +106,329 @@ function buildAuthHeaders(apiKey: string): HeadersInit {
   return { Authorization: `Bearer ${apiKey}` };
 }
 
+const forgeBackend: StorageBackend = {
+  name: "forge",
+
+  async put(relKey, data, contentType) {
+    const { baseUrl, apiKey } = getStorageConfig();
+    const key = normalizeKey(relKey);
+    const uploadUrl = buildUploadUrl(baseUrl, key);
+    const formData = toFormData(data, contentType, key.split("/").pop() ?? key);
+    const response = await fetch(uploadUrl, {
+      method: "POST",
+      headers: buildAuthHeaders(apiKey),
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const message = await response.text().catch(() => response.statusText);
+      throw new Error(
+        `Storage upload failed (${response.status} ${response.statusText}): ${message}`
+      );
+    }
+    const url = (await response.json()).url;
+    return { key, url };
+  },
+
+  async putFile(relKey, filePath, contentType) {
+    return this.put(relKey, await fs.promises.readFile(filePath), contentType);
+  },
+
+  async getUrl(relKey) {
+    const { baseUrl, apiKey } = getStorageConfig();
+    return buildDownloadUrl(baseUrl, normalizeKey(relKey), apiKey);
+  },
+
+  async download(relKey, filePath) {
+    const response = await fetch(await this.getUrl(relKey, 300));
+    if (!response.ok || !response.body) {
+      throw new Error(`Storage download failed (${response.status} ${response.statusText})`);
+    }
+    await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), fs.createWriteStream(filePath));
+  },
+
+  // The storage proxy has no delete endpoint; objects stay until its own retention removes them
+  async delete() {},
+};
+
+// ============================================================================
+// LOCAL FILESYSTEM
+// ============================================================================
+
+const LOCAL_URL_PREFIX = "/api/storage";
+
+function localPath(relKey: string): string {
+  const root = path.resolve(ENV.localStorageDir);
+  const target = path.resolve(root, normalizeKey(relKey));
+  if (!target.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key: ${relKey}`);
+  }
+  return target;
+}
+
+// Keys under this prefix are served without a signature (thumbnails, previews)
+const PUBLIC_PREFIX = "public/";
+// How long the signed URL behind a public key's redirect lasts
+const PUBLIC_URL_TTL_S = 60 * 60;
+// Extensions served inline (with their own content type); anything else,
+// e.g. .svg or .xml, downloads as an opaque attachment
+const LOCAL_INLINE_EXTENSIONS = new Set([
+  "pdf", "png", "jpg", "jpeg", "gif", "webp", "mp4", "mov", "webm", "ogg", "ogv", "txt", "html", "htm",
+]);
+
+function localUrl(key: string): string {
+  return `${LOCAL_URL_PREFIX}/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+function localSignature(key: string, expires: number): string {
+  return createHmac("sha256", ENV.cookieSecret).update(`${key}\n${expires}`).digest("hex");
+}
+
+function signedLocalUrl(key: string, expiresIn: number): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  return `${localUrl(key)}?expires=${expires}&signature=${localSignature(key, expires)}`;
+}
+
+function hasValidSignature(key: string, expiresParam: unknown, signatureParam: unknown): boolean {
+  const expires = Number(expiresParam);
+  if (!Number.isInteger(expires) || expires < Date.now() / 1000) return false;
+  if (typeof signatureParam !== "string") return false;
+
+  const expected = Buffer.from(localSignature(key, expires));
+  const actual = Buffer.from(signatureParam);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const localBackend: StorageBackend = {
+  name: "local",
+
+  async put(relKey, data) {
+    const key = normalizeKey(relKey);
+    const target = localPath(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, data);
+    return { key, url: localUrl(key) };
+  },
+
+  async putFile(relKey, filePath) {
+    const key = normalizeKey(relKey);
+    const target = localPath(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(filePath, target);
+    return { key, url: localUrl(key) };
+  },
+
+  async getUrl(relKey, expiresIn) {
+    const key = normalizeKey(relKey);
+    return key.startsWith(PUBLIC_PREFIX) ? localUrl(key) : signedLocalUrl(key, expiresIn);
+  },
+
+  async download(relKey, filePath) {
+    await fs.promises.copyFile(localPath(relKey), filePath);
+  },
+
+  async delete(relKey) {
+    await fs.promises.rm(localPath(relKey), { force: true });
+  },
+};
+
+// Serve locally stored files, or redirect public keys to signed URLs on other backends
+export function registerStorageRoutes(app: Express) {
+  if (getStorage().name !== "local") {
+    app.get(`${LOCAL_URL_PREFIX}/${PUBLIC_PREFIX}*`, async (req, res) => {
+      let key: string;
+      try {
+        key = decodeURIComponent(req.path).slice(LOCAL_URL_PREFIX.length).replace(/^\/+/, "");
+      } catch {
+        res.status(400).json({ error: "Invalid path" });
+        return;
+      }
+      // Only ever sign keys that really are under the public prefix
+      if (!key.startsWith(PUBLIC_PREFIX) || key.split("/").some((part) => part === "" || part === "." || part === "..")) {
+        res.status(400).json({ error: "Invalid path" });
+        return;
+      }
+      try {
+        const { url } = await storageGet(key, PUBLIC_URL_TTL_S);
+        // Let browsers reuse the redirect while the signed URL is still valid
+        res.setHeader("Cache-Control", `public, max-age=${PUBLIC_URL_TTL_S - 5 * 60}`);
+        res.redirect(302, url);
+      } catch (error) {
+        console.error(`[Storage] Failed to sign ${key}`, error);
+        res.status(502).json({ error: "Storage unavailable" });
+      }
+    });
+    return;
+  }
+
+  app.use(LOCAL_URL_PREFIX, (req, res, next) => {
+    let key: string;
+    try {
+      key = decodeURIComponent(req.path).replace(/^\/+/, "");
+    } catch {
+      res.status(400).json({ error: "Invalid path" });
+      return;
+    }
+    if (key.startsWith(PUBLIC_PREFIX) || hasValidSignature(key, req.query.expires, req.query.signature)) {
+      next();
+      return;
+    }
+    res.status(403).json({ error: "Link expired or invalid" });
+  });
+  app.use(
+    LOCAL_URL_PREFIX,
+    express.static(path.resolve(ENV.localStorageDir), {
+      dotfiles: "deny",
+      index: false,
+      setHeaders(res, filePath) {
+        // Stored files are served from our origin; sandbox every one of them
+        // even when opened directly. HTML resources keep their scripts, in an
+        // opaque origin.
+        res.setHeader("X-Content-Type-Options", "nosniff");
+        const ext = path.extname(filePath).slice(1).toLowerCase();
+        res.setHeader("Content-Security-Policy", ext === "html" || ext === "htm" ? "sandbox allow-scripts" : "sandbox");
+        if (!LOCAL_INLINE_EXTENSIONS.has(ext)) {
+          res.setHeader("Content-Type", "application/octet-stream");
+          res.setHeader("Content-Disposition", "attachment");
+        }
+      },
+    })
+  );
+}
+
+// ============================================================================
+// S3
+// ============================================================================
+
+let _s3: S3Client | null = null;
+
+function getS3Client(): S3Client {
+  if (!ENV.s3Bucket) {
+    throw new Error("S3 storage is not configured: set S3_BUCKET (and credentials)");
+  }
+  if (!_s3) {
+    _s3 = new S3Client({
+      region: ENV.s3Region,
+      endpoint: ENV.s3Endpoint || undefined,
+      forcePathStyle: ENV.s3ForcePathStyle,
+      credentials:
+        ENV.s3AccessKeyId && ENV.s3SecretAccessKey
+          ? { accessKeyId: ENV.s3AccessKeyId, secretAccessKey: ENV.s3SecretAccessKey }
+          : undefined, // fall back to the default provider chain (IAM role, env, profile)
+    });
+  }
+  return _s3;
+}
+
+function s3ObjectUrl(key: string): string {
+  const encoded = key.split("/").map(encodeURIComponent).join("/");
+  if (ENV.s3Endpoint) {
+    return `${ENV.s3Endpoint.replace(/\/+$/, "")}/${ENV.s3Bucket}/${encoded}`;
+  }
+  return `https://${ENV.s3Bucket}.s3.${ENV.s3Region}.amazonaws.com/${encoded}`;
+}
+
+const s3Backend: StorageBackend = {
+  name: "s3",
+
+  async put(relKey, data, contentType) {
+    const key = normalizeKey(relKey);
+    await getS3Client().send(
+      new PutObjectCommand({ Bucket: ENV.s3Bucket, Key: key, Body: data, ContentType: contentType })
+    );
+    return { key, url: s3ObjectUrl(key) };
+  },
+
+  async putFile(relKey, filePath, contentType) {
+    const key = normalizeKey(relKey);
+    const { size } = await fs.promises.stat(filePath);
+    await getS3Client().send(
+      new PutObjectCommand({
+        Bucket: ENV.s3Bucket,
+        Key: key,
+        Body: fs.createReadStream(filePath),
+        ContentLength: size,
+        ContentType: contentType,
+      })
+    );
+    return { key, url: s3ObjectUrl(key) };
+  },
+
+  async getUrl(relKey, expiresIn) {
+    const command = new GetObjectCommand({ Bucket: ENV.s3Bucket, Key: normalizeKey(relKey) });
+    return getSignedUrl(getS3Client(), command, { expiresIn });
+  },
+
+  async download(relKey, filePath) {
+    const { Body } = await getS3Client().send(
+      new GetObjectCommand({ Bucket: ENV.s3Bucket, Key: normalizeKey(relKey) })
+    );
+    if (!(Body instanceof Readable)) {
+      throw new Error(`Storage download failed: empty body for ${relKey}`);
+    }
+    await pipeline(Body, fs.createWriteStream(filePath));
+  },
+
+  async delete(relKey) {
+    await getS3Client().send(new DeleteObjectCommand({ Bucket: ENV.s3Bucket, Key: normalizeKey(relKey) }));
+  },
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function getStorage(): StorageBackend {
+  switch (ENV.storageBackend) {
+    case "forge":
+      return forgeBackend;
+    case "local":
+      return localBackend;
+    case "s3":
+      return s3Backend;
+    case "":
+      return ENV.forgeApiUrl && ENV.forgeApiKey ? forgeBackend : localBackend;
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${ENV.storageBackend}`);
+  }
+}
+
+// Public keys are handed out as their stable /api/storage URL, never the backend's object URL
+function withPublicUrl(stored: StoredObject): StoredObject {
+  return stored.key.startsWith(PUBLIC_PREFIX) ? { key: stored.key, url: localUrl(stored.key) } : stored;
+}
+
 export async function storagePut(
   relKey: string,
   data: Buffer | Uint8Array | string,
   contentType = "application/octet-stream"
-): Promise<{ key: string; url: string }> {
-  const { baseUrl, apiKey } = getStorageConfig();
-  const key = normalizeKey(relKey);
-  const uploadUrl = buildUploadUrl(baseUrl, key);
-  const formData = toFormData(data, contentType, key.split("/").pop() ?? key);
-  const response = await fetch(uploadUrl, {
-    method: "POST",
-    headers: buildAuthHeaders(apiKey),
-    body: formData,
-  });
+): Promise<StoredObject> {
+  return withPublicUrl(await getStorage().put(relKey, data, contentType));
+}
 
-  if (!response.ok) {
-    const message = await response.text().catch(() => response.statusText);
-    throw new Error(
-      `Storage upload failed (${response.status} ${response.statusText}): ${message}`
-    );
-  }
-  const url = (await response.json()).url;
-  return { key, url };
+export async function storagePutFile(
+  relKey: string,
+  filePath: string,
+  contentType = "application/octet-stream"
+): Promise<StoredObject> {
+  return withPublicUrl(await getStorage().putFile(relKey, filePath, contentType));
 }
 
 export async function storageGet(
   relKey: string,
-  _expiresIn = 300
-): Promise<{ key: string; url: string; }> {
-  const { baseUrl, apiKey } = getStorageConfig();
+  expiresIn = 300
+): Promise<StoredObject> {
   const key = normalizeKey(relKey);
   return {
     key,
-    url: await buildDownloadUrl(baseUrl, key, apiKey),
+    url: await getStorage().getUrl(key, expiresIn),
   };
 }
+
+export async function storageDownload(relKey: string, filePath: string): Promise<void> {
+  return getStorage().download(normalizeKey(relKey), filePath);
+}
+
+export async function storageDelete(relKey: string): Promise<void> {
+  return getStorage().delete(normalizeKey(relKey));
+}
@@ -0,0 +1,301 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { eq, and, or, isNull, lt, inArray, asc, sql } from "drizzle-orm";
+import { getDb, type DbExecutor } from "./db";
+import { generateImage } from "./_core/imageGeneration";
+import { safeFetch } from "./safeFetch";
+import { storageDownload, storagePut } from "./storage";
+import { renderThumbnail } from "./previews";
+import { sniffMimeType } from "./uploads";
+import { resources, resourceVersions, uploads, type Resource } from "../drizzle/schema";
+import { THUMBNAIL_CONFIG } from "@shared/const";
+
+/**
+ * Background thumbnail generation for resources without a `thumbnailUrl`.
+ *
+ * Sources are tried in order until one produces an image:
+ *   1. the preview rendered when the file was uploaded (first page or still)
+ *   2. a render of the stored file: first PDF page, image, or video frame
+ *   3. the og:image of a link resource's page
+ *   4. an illustration from `generateImage`, prompted with title and subject
+ *
+ * Each resource gets `THUMBNAIL_CONFIG.MAX_ATTEMPTS` tries, spaced
+ * `RETRY_AFTER_MS` apart. Thumbnails are stored under `public/thumbnails/`.
+ */
+
+type ThumbnailTarget = Pick<
+  Resource,
+  "id" | "title" | "subject" | "resourceType" | "fileKey" | "fileUrl" | "fileMimeType" | "externalUrl"
+>;
+
+export type ThumbnailSource = "preview" | "file" | "og_image" | "generated";
+
+const RENDERABLE_TYPES: readonly Resource["resourceType"][] = ["pdf", "image", "video"];
+
+// Images we are willing to re-host; SVG is excluded because it can carry script
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const thumbnailKey = (resourceId: string) => `public/thumbnails/${resourceId}-${Date.now()}`;
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+async function fromPreview(db: DbExecutor, resource: ThumbnailTarget) {
+  if (!resource.fileKey) return null;
+
+  const [upload] = await db
+    .select({ preview: uploads.preview })
+    .from(uploads)
+    .where(eq(uploads.storageKey, resource.fileKey))
+    .limit(1);
+
+  return upload?.preview?.pages?.[0]?.thumbnailUrl ?? upload?.preview?.posterUrl ?? null;
+}
+
+async function fromFile(resource: ThumbnailTarget) {
+  if (!RENDERABLE_TYPES.includes(resource.resourceType)) return null;
+  if (!resource.fileKey && !resource.fileUrl) return null;
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "apex-thumb-src-"));
+  const filePath = path.join(workDir, "source");
+  try {
+    if (resource.fileKey) {
+      await storageDownload(resource.fileKey, filePath);
+    } else {
+      // Legacy resources only have a URL, which may point anywhere
+      const { body } = await safeFetch(resource.fileUrl!, {
+        maxBytes: THUMBNAIL_CONFIG.MAX_REMOTE_FILE_BYTES,
+        timeoutMs: THUMBNAIL_CONFIG.FETCH_TIMEOUT_MS,
+      });
+      await fs.promises.writeFile(filePath, body);
+    }
+
+    const head = Buffer.alloc(64 * 1024);
+    const handle = await fs.promises.open(filePath, "r");
+    const { bytesRead } = await handle.read(head, 0, head.length, 0).finally(() => handle.close());
+    const mimeType = resource.fileMimeType ?? sniffMimeType(head.subarray(0, bytesRead));
+
+    return await renderThumbnail(filePath, mimeType, thumbnailKey(resource.id), THUMBNAIL_CONFIG.WIDTH);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+
+const OG_IMAGE_PROPERTIES = ["og:image:secure_url", "og:image:url", "og:image", "twitter:image", "twitter:image:src"];
+
+/** Find the og:image (or Twitter card image) URL in a page's HTML. */
+export function findOgImage(html: string, pageUrl: string): string | null {
+  const found = new Map<string, string>();
+
+  const metaTag = /<meta\b[^>]*>/gi;
+  let tag: RegExpExecArray | null;
+  while ((tag = metaTag.exec(html))) {
+    const attributes = new Map<string, string>();
+    const attribute = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = attribute.exec(tag[0]))) {
+      attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? "");
+    }
+    const property = (attributes.get("property") ?? attributes.get("name") ?? "").toLowerCase();
+    const content = attributes.get("content");
+    if (content && OG_IMAGE_PROPERTIES.includes(property) && !found.has(property)) {
+      found.set(property, decodeEntities(content.trim()));
+    }
+  }
+
+  for (const property of OG_IMAGE_PROPERTIES) {
+    const value = found.get(property);
+    if (!value) continue;
+    try {
+      return new URL(value, pageUrl).toString();
+    } catch {
+      // Malformed URL; try the next property
+    }
+  }
+  return null;
+}
+
+async function fromOpenGraph(resource: ThumbnailTarget) {
+  if (resource.resourceType !== "link" || !resource.externalUrl) return null;
+
+  const page = await safeFetch(resource.externalUrl, {
+    maxBytes: THUMBNAIL_CONFIG.MAX_PAGE_BYTES,
+    timeoutMs: THUMBNAIL_CONFIG.FETCH_TIMEOUT_MS,
+    accept: "text/html,application/xhtml+xml",
+  });
+  if (!page.contentType.includes("html")) return null;
+
+  const imageUrl = findOgImage(page.body.toString("utf8"), page.url);
+  if (!imageUrl) return null;
+
+  // Re-host the image so the card does not depend on (or leak visitors to) the remote site
+  const image = await safeFetch(imageUrl, {
+    maxBytes: THUMBNAIL_CONFIG.MAX_IMAGE_BYTES,
+    timeoutMs: THUMBNAIL_CONFIG.FETCH_TIMEOUT_MS,
+    accept: "image/*",
+  });
+  const mimeType = sniffMimeType(image.body);
+  const extension = IMAGE_EXTENSIONS[mimeType];
+  if (!extension) return null;
+
+  return (await storagePut(`${thumbnailKey(resource.id)}.${extension}`, image.body, mimeType)).url;
+}
+
+async function fromImageGeneration(resource: ThumbnailTarget) {
+  const subject = resource.subject.replace(/_/g, " ");
+  const { url } = await generateImage({
+    prompt:
+      `A clean, friendly flat illustration for a ${subject} classroom resource titled "${resource.title}". ` +
+      "Simple shapes, soft colors, no text or lettering.",
+    storageKey: `${thumbnailKey(resource.id)}.png`,
+  });
+  return url ?? null;
+}
+
+// ============================================================================
+// JOB
+// ============================================================================
+
+async function trySource(name: ThumbnailSource, resourceId: string, source: () => Promise<string | null>) {
+  try {
+    return await source();
+  } catch (error) {
+    console.warn(`[Thumbnails] ${name} failed for resource ${resourceId}:`, (error as Error).message);
+    return null;
+  }
+}
+
+export async function generateThumbnail(
+  db: DbExecutor,
+  resource: ThumbnailTarget
+): Promise<{ url: string; source: ThumbnailSource } | null> {
+  const sources: [ThumbnailSource, () => Promise<string | null>][] = [
+    ["preview", () => fromPreview(db, resource)],
+    ["file", () => fromFile(resource)],
+    ["og_image", () => fromOpenGraph(resource)],
+    ["generated", () => fromImageGeneration(resource)],
+  ];
+
+  for (const [name, source] of sources) {
+    const url = await trySource(name, resource.id, source);
+    if (url) return { url, source: name };
+  }
+  return null;
+}
+
+// Set the thumbnail unless someone added one meanwhile; carry it into a pending version too,
+// so approving that version does not clear it again
+async function saveThumbnail(db: DbExecutor, resourceId: string, url: string) {
+  await db.transaction(async (tx) => {
+    const [resource] = await tx
+      .update(resources)
+      .set({ thumbnailUrl: url })
+      .where(and(eq(resources.id, resourceId), isNull(resources.thumbnailUrl)))
+      .returning({ pendingVersionId: resources.pendingVersionId });
+
+    if (!resource?.pendingVersionId) return;
+
+    const [pending] = await tx
+      .select({ snapshot: resourceVersions.snapshot })
+      .from(resourceVersions)
+      .where(eq(resourceVersions.id, resource.pendingVersionId))
+      .for("update");
+    if (pending && !pending.snapshot.thumbnailUrl) {
+      await tx
+        .update(resourceVersions)
+        .set({ snapshot: { ...pending.snapshot, thumbnailUrl: url } })
+        .where(eq(resourceVersions.id, resource.pendingVersionId));
+    }
+  });
+}
+
+/**
+ * Generate thumbnails for the next batch of resources that need one.
+ * Attempts are recorded before generating, so a crash mid-batch does not
+ * retry the same resource immediately.
+ */
+export async function generateMissingThumbnails(db: DbExecutor, limit: number = THUMBNAIL_CONFIG.BATCH_SIZE) {
+  const retryBefore = new Date(Date.now() - THUMBNAIL_CONFIG.RETRY_AFTER_MS);
+
+  const batch = await db
+    .select({
+      id: resources.id,
+      title: resources.title,
+      subject: resources.subject,
+      resourceType: resources.resourceType,
+      fileKey: resources.fileKey,
+      fileUrl: resources.fileUrl,
+      fileMimeType: resources.fileMimeType,
+      externalUrl: resources.externalUrl,
+    })
+    .from(resources)
+    .where(
+      and(
+        isNull(resources.thumbnailUrl),
+        inArray(resources.status, ["pending", "approved"]),
+        lt(resources.thumbnailAttempts, THUMBNAIL_CONFIG.MAX_ATTEMPTS),
+        or(isNull(resources.thumbnailAttemptedAt), lt(resources.thumbnailAttemptedAt, retryBefore))
+      )
+    )
+    .orderBy(asc(resources.thumbnailAttempts), asc(resources.createdAt))
+    .limit(limit);
+
+  if (batch.length === 0) return { processed: 0, generated: 0 };
+
+  await db
+    .update(resources)
+    .set({ thumbnailAttempts: sql`${resources.thumbnailAttempts} + 1`, thumbnailAttemptedAt: new Date() })
+    .where(inArray(resources.id, batch.map((r) => r.id)));
+
+  let generated = 0;
+  for (const resource of batch) {
+    const result = await generateThumbnail(db, resource);
+    if (result) {
+      await saveThumbnail(db, resource.id, result.url);
+      generated++;
+    }
+  }
+
+  return { processed: batch.length, generated };
+}
+
+let running = false;
+
+// Run the job on an interval inside the server process
+export function startThumbnailJob() {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const db = await getDb();
+      if (!db) return;
+      const { processed, generated } = await generateMissingThumbnails(db);
+      if (processed > 0) {
+        console.log(`[Thumbnails] Generated ${generated} of ${processed} thumbnails`);
+      }
+    } catch (error) {
+      console.error("[Thumbnails] Job failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, THUMBNAIL_CONFIG.INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,191 @@
+import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { getDb, type DbExecutor } from "./db";
+import { rateLimits, resources, resourceViews } from "../drizzle/schema";
+import { TRACKING_CONFIG } from "@shared/const";
+
+/**
+ * View and download counting safeguards.
+ *
+ * - Requests from crawlers, link previewers and HTTP libraries (by user agent)
+ *   are served but never counted.
+ * - Each user, or IP hash for anonymous visitors, is rate limited per kind.
+ *   Counters live in `rate_limits`, so the limit holds across server instances.
+ * - A view counts once per viewer within `VIEW_DEDUP_WINDOW_MS`; downloads
+ *   are deduplicated in server/downloads.ts.
+ * - `reconcileEngagementCounts` rebuilds `viewCount` and `downloadCount` from
+ *   the tracking tables, undoing any drift in the denormalized counters.
+ */
+
+// Crawlers, link unfurlers, headless browsers and scripted clients
+const BOT_USER_AGENT =
+  /bot\b|bot\/|crawl|spider|slurp|archiver|facebookexternalhit|embedly|preview|headless|phantomjs|lighthouse|curl\/|wget\/|python-|httpclient|okhttp|axios\/|node-fetch|undici|go-http-client|java\/|libwww|scrapy/i;
+
+export function isBotUserAgent(userAgent: string | undefined) {
+  if (!userAgent || userAgent.trim().length < 10) return true;
+  return BOT_USER_AGENT.test(userAgent);
+}
+
+// ============================================================================
+// RATE LIMITS
+// ============================================================================
+
+export type TrackingKind = "view" | "download";
+
+const LIMITS: Record<TrackingKind, number> = {
+  view: TRACKING_CONFIG.MAX_VIEWS_PER_WINDOW,
+  download: TRACKING_CONFIG.MAX_DOWNLOADS_PER_WINDOW,
+};
+
+// When this process last deleted expired counters
+let lastSweep = 0;
+
+/**
+ * Count a request against the client's limit for `kind`. Returns false once
+ * the client is over the limit for the current window.
+ */
+export async function takeRateLimit(
+  db: DbExecutor,
+  kind: TrackingKind,
+  client: { userId: string | null; ipHash: string | null }
+) {
+  const clientKey = client.userId ? `u:${client.userId}` : client.ipHash ? `ip:${client.ipHash}` : null;
+  if (!clientKey) return false;
+
+  const now = new Date();
+  if (now.getTime() - lastSweep > TRACKING_CONFIG.RATE_LIMIT_WINDOW_MS) {
+    lastSweep = now.getTime();
+    await db.delete(rateLimits).where(lte(rateLimits.resetAt, now));
+  }
+
+  // One upsert: start a new window if the old one is over, else count against it
+  const expired = sql`${rateLimits.resetAt} <= ${now}`;
+  const [entry] = await db
+    .insert(rateLimits)
+    .values({
+      key: `${kind}:${clientKey}`,
+      count: 1,
+      resetAt: new Date(now.getTime() + TRACKING_CONFIG.RATE_LIMIT_WINDOW_MS),
+    })
+    .onConflictDoUpdate({
+      target: rateLimits.key,
+      set: {
+        count: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+        resetAt: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+      },
+    })
+    .returning({ count: rateLimits.count });
+
+  return (entry?.count ?? 1) <= LIMITS[kind];
+}
+
+// ============================================================================
+// VIEWS
+// ============================================================================
+
+/**
+ * Record a view of an approved resource. Contributors viewing their own
+ * resources are not counted, and neither are repeat views by the same user
+ * (or IP hash) within the dedup window. Returns whether the view was counted.
+ */
+export async function recordView(
+  db: DbExecutor,
+  view: { resourceId: string; userId: string | null; ipHash: string | null }
+) {
+  const viewer = view.userId
+    ? eq(resourceViews.userId, view.userId)
+    : view.ipHash
+      ? eq(resourceViews.ipHash, view.ipHash)
+      : undefined;
+  if (!viewer) return false;
+
+  return db.transaction(async (tx) => {
+    // Lock the resource so concurrent requests from the same client dedupe correctly
+    const [resource] = await tx
+      .select({ status: resources.status, contributorId: resources.contributorId })
+      .from(resources)
+      .where(eq(resources.id, view.resourceId))
+      .for("update");
+
+    if (!resource || resource.status !== "approved" || resource.contributorId === view.userId) {
+      return false;
+    }
+
+    const since = new Date(Date.now() - TRACKING_CONFIG.VIEW_DEDUP_WINDOW_MS);
+    const [recent] = await tx
+      .select({ id: resourceViews.id })
+      .from(resourceViews)
+      .where(and(eq(resourceViews.resourceId, view.resourceId), viewer, gte(resourceViews.createdAt, since)))
+      .limit(1);
+    if (recent) return false;
+
+    await tx.insert(resourceViews).values({
+      id: nanoid(),
+      resourceId: view.resourceId,
+      userId: view.userId,
+      ipHash: view.ipHash,
+    });
+
+    await tx
+      .update(resources)
+      .set({ viewCount: sql`${resources.viewCount} + 1` })
+      .where(eq(resources.id, view.resourceId));
+
+    return true;
+  });
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Rebuild `viewCount` and `downloadCount` from `resource_views` and
+ * `resource_downloads`. Only rows whose counters drifted are written.
+ * Returns the ids of the corrected resources.
+ */
+export async function reconcileEngagementCounts(db: DbExecutor) {
+  const result = await db.execute(sql`
+    WITH counts AS (
+      SELECT
+        resources.id,
+        (SELECT count(*)::int FROM resource_views WHERE resource_views.resource_id = resources.id) AS views,
+        (SELECT count(*)::int FROM resource_downloads WHERE resource_downloads.resource_id = resources.id) AS downloads
+      FROM resources
+    )
+    UPDATE resources
+    SET view_count = counts.views, download_count = counts.downloads
+    FROM counts
+    WHERE resources.id = counts.id
+      AND (resources.view_count <> counts.views OR resources.download_count <> counts.downloads)
+    RETURNING resources.id
+  `);
+
+  return (result.rows as { id: string }[]).map((row) => row.id);
+}
+
+let running = false;
+
+// Run reconciliation on an interval inside the server process
+export function startEngagementReconcileJob() {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const db = await getDb();
+      if (!db) return;
+      const corrected = await reconcileEngagementCounts(db);
+      if (corrected.length > 0) {
+        console.log(`[Tracking] Corrected view/download counts for ${corrected.length} resources`);
+      }
+    } catch (error) {
+      console.error("[Tracking] Reconciliation failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, TRACKING_CONFIG.RECONCILE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,124 @@
+import { eq, sql } from "drizzle-orm";
+import { getDb, type DbExecutor } from "./db";
+import { resourceTrendingScores } from "../drizzle/schema";
+import { TRENDING_CONFIG } from "@shared/const";
+
+/**
+ * Trending scores, rebuilt on an interval into `resource_trending_scores` so
+ * `metrics.trending` is a single indexed read.
+ *
+ * For each period (day, week, month) every event inside the window adds
+ * `weight * 0.5^(age / halfLife)`:
+ *   - unique viewers: a user (or IP hash) counts once, at their latest view
+ *   - downloads, likewise once per user or IP hash
+ *   - votes: upvotes add and downvotes subtract
+ *   - additions to collections
+ *
+ * Only approved resources with a positive score are kept, capped at
+ * `TRENDING_CONFIG.MAX_ROWS_PER_PERIOD` per period.
+ */
+
+export type TrendingPeriod = keyof typeof TRENDING_CONFIG.PERIODS;
+
+const PERIODS = Object.keys(TRENDING_CONFIG.PERIODS) as TrendingPeriod[];
+const { WEIGHTS } = TRENDING_CONFIG;
+
+// Recompute one period's scores, replacing the previous rows
+export async function recomputeTrendingScores(db: DbExecutor, period: TrendingPeriod, now = new Date()) {
+  const { WINDOW_MS, HALF_LIFE_MS } = TRENDING_CONFIG.PERIODS[period];
+  // Bound as ISO strings, the way drizzle writes timestamp columns
+  const since = new Date(now.getTime() - WINDOW_MS).toISOString();
+  const at = now.toISOString();
+
+  return db.transaction(async (tx) => {
+    await tx.delete(resourceTrendingScores).where(eq(resourceTrendingScores.period, period));
+
+    // A viewer without an account or IP hash counts as one viewer per row
+    const result = await tx.execute(sql`
+      WITH events AS (
+        SELECT resource_id, 'view' AS kind, 1 AS sign, max(created_at) AS at
+        FROM resource_views
+        WHERE created_at >= ${since}::timestamp
+        GROUP BY resource_id, coalesce(user_id, ip_hash, id)
+        UNION ALL
+        SELECT resource_id, 'download', 1, max(created_at)
+        FROM resource_downloads
+        WHERE created_at >= ${since}::timestamp
+        GROUP BY resource_id, coalesce(user_id, ip_hash, id)
+        UNION ALL
+        SELECT resource_id, 'vote', value, created_at
+        FROM resource_votes
+        WHERE created_at >= ${since}::timestamp
+        UNION ALL
+        SELECT resource_id, 'collection_add', 1, added_at
+        FROM collection_resources
+        WHERE added_at >= ${since}::timestamp
+      ),
+      scored AS (
+        SELECT
+          events.resource_id,
+          sum(
+            CASE events.kind
+              WHEN 'view' THEN ${sql.raw(String(WEIGHTS.VIEW))}
+              WHEN 'download' THEN ${sql.raw(String(WEIGHTS.DOWNLOAD))}
+              WHEN 'vote' THEN ${sql.raw(String(WEIGHTS.VOTE))}
+              ELSE ${sql.raw(String(WEIGHTS.COLLECTION_ADD))}
+            END
+            * events.sign
+            * power(0.5, greatest(extract(epoch FROM (${at}::timestamp - events.at)), 0) * 1000 / ${sql.raw(String(HALF_LIFE_MS))})
+          ) AS score,
+          count(*) FILTER (WHERE events.kind = 'view') AS unique_viewers,
+          count(*) FILTER (WHERE events.kind = 'download') AS downloads,
+          coalesce(sum(events.sign) FILTER (WHERE events.kind = 'vote'), 0) AS net_votes,
+          count(*) FILTER (WHERE events.kind = 'collection_add') AS collection_adds
+        FROM events
+        JOIN resources ON resources.id = events.resource_id AND resources.status = 'approved'
+        GROUP BY events.resource_id
+      )
+      INSERT INTO resource_trending_scores
+        (id, resource_id, period, score, unique_viewers, downloads, net_votes, collection_adds, computed_at)
+      SELECT md5(resource_id || ':' || ${period}), resource_id, ${period}::trending_period, score,
+        unique_viewers, downloads, net_votes, collection_adds, ${at}::timestamp
+      FROM scored
+      WHERE score > 0
+      ORDER BY score DESC
+      LIMIT ${TRENDING_CONFIG.MAX_ROWS_PER_PERIOD}
+    `);
+
+    return result.rowCount ?? 0;
+  });
+}
+
+// Recompute every period
+export async function recomputeAllTrendingScores(db: DbExecutor) {
+  const counts = {} as Record<TrendingPeriod, number>;
+  for (const period of PERIODS) {
+    counts[period] = await recomputeTrendingScores(db, period);
+  }
+  return counts;
+}
+
+let running = false;
+
+// Run the job on an interval inside the server process
+export function startTrendingJob() {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const db = await getDb();
+      if (!db) return;
+      await recomputeAllTrendingScores(db);
+    } catch (error) {
+      console.error("[Trending] Job failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // Fill the table soon after startup rather than one interval later
+  setTimeout(tick, 0).unref();
+  const timer = setInterval(tick, TRENDING_CONFIG.INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
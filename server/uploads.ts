@@ -0,0 +1,450 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { pipeline } from "stream/promises";
+import express, { type Express, type Request, type Response } from "express";
+import { eq, and, inArray, lt, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { TRPCError } from "@trpc/server";
+import { getDb, type DbExecutor } from "./db";
+import { sdk } from "./_core/sdk";
+import { storageDelete, storageDownload, storagePut, storagePutFile } from "./storage";
+import { generatePreview } from "./previews";
+import { uploads, type Resource, type Upload, type User } from "../drizzle/schema";
+import { UPLOAD_CONFIG } from "@shared/const";
+
+/**
+ * Chunked file uploads.
+ *
+ *   1. `upload.start` (tRPC) checks the declared size against the caller's role
+ *      limit and opens an upload session.
+ *   2. `PUT /api/uploads/:id/chunks/:index` stores raw bytes, in order, as one
+ *      part object per chunk in the storage backend, so chunks may reach any
+ *      server instance. Re-sending an already received chunk is a no-op, so
+ *      clients can retry after a dropped connection.
+ *   3. `upload.complete` (tRPC) joins the parts into a local temporary file,
+ *      sniffs the MIME type from the file content,
+ *      checks it against the intended `resourceType`, computes a SHA-256
+ *      checksum and writes the file through the configured storage backend.
+ *      Preview artifacts are generated at the same time (see previews.ts).
+ *
+ * Completed uploads are attached to a resource with `attachUpload`.
+ */
+
+type ResourceType = Resource["resourceType"];
+type Role = User["role"];
+
+// Bytes read from the start of the file for MIME sniffing
+const SNIFF_BYTES = 64 * 1024;
+
+export function maxUploadSize(role: Role): number {
+  return UPLOAD_CONFIG.MAX_FILE_SIZE[role];
+}
+
+const partKey = (uploadId: string, index: number) => `upload-parts/${uploadId}/${index}`;
+
+// Delete the stored parts of an upload's received chunks
+async function removeParts(upload: Pick<Upload, "id" | "nextChunk">) {
+  for (let index = 0; index < upload.nextChunk; index++) {
+    await storageDelete(partKey(upload.id, index));
+  }
+}
+
+// Join the stored parts into one local file
+async function assembleParts(upload: Pick<Upload, "id" | "nextChunk">, filePath: string) {
+  const chunkPath = `${filePath}.chunk`;
+  try {
+    await fs.promises.writeFile(filePath, Buffer.alloc(0));
+    for (let index = 0; index < upload.nextChunk; index++) {
+      await storageDownload(partKey(upload.id, index), chunkPath);
+      await pipeline(fs.createReadStream(chunkPath), fs.createWriteStream(filePath, { flags: "a" }));
+    }
+  } finally {
+    await fs.promises.rm(chunkPath, { force: true });
+  }
+}
+
+// ============================================================================
+// MIME SNIFFING
+// ============================================================================
+
+const MIME = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  quicktime: "video/quicktime",
+  webm: "video/webm",
+  ogg: "video/ogg",
+  zip: "application/zip",
+  ole: "application/x-ole-storage", // legacy .doc / .ppt / .xls
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  odt: "application/vnd.oasis.opendocument.text",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  html: "text/html",
+  text: "text/plain",
+  binary: "application/octet-stream",
+} as const;
+
+// Which sniffed types each resourceType accepts ("other" accepts anything)
+const ALLOWED_MIME_TYPES: Record<Exclude<ResourceType, "other">, readonly string[]> = {
+  pdf: [MIME.pdf],
+  doc: [MIME.docx, MIME.odt, MIME.ole, MIME.text],
+  ppt: [MIME.pptx, MIME.odp, MIME.ole],
+  video: [MIME.mp4, MIME.quicktime, MIME.webm, MIME.ogg],
+  image: [MIME.png, MIME.jpeg, MIME.gif, MIME.webp],
+  html: [MIME.html],
+  zip: [MIME.zip, MIME.docx, MIME.pptx, MIME.xlsx, MIME.odt, MIME.odp],
+  link: [], // links have no file
+};
+
+function startsWith(buf: Buffer, bytes: number[], offset = 0) {
+  return bytes.every((b, i) => buf[offset + i] === b);
+}
+
+// Office Open XML and OpenDocument files are ZIPs; tell them apart by their entries
+function sniffZip(head: Buffer): string {
+  const text = head.toString("latin1");
+  if (text.includes("mimetypeapplication/vnd.oasis.opendocument.text")) return MIME.odt;
+  if (text.includes("mimetypeapplication/vnd.oasis.opendocument.presentation")) return MIME.odp;
+  if (text.includes("word/")) return MIME.docx;
+  if (text.includes("ppt/")) return MIME.pptx;
+  if (text.includes("xl/")) return MIME.xlsx;
+  return MIME.zip;
+}
+
+function looksLikeText(head: Buffer) {
+  return !head.subarray(0, 8192).includes(0);
+}
+
+/** Detect a file's type from its first bytes. */
+export function sniffMimeType(head: Buffer): string {
+  if (startsWith(head, [0x25, 0x50, 0x44, 0x46, 0x2d])) return MIME.pdf; // %PDF-
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return MIME.png;
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return MIME.jpeg;
+  if (startsWith(head, [0x47, 0x49, 0x46, 0x38])) return MIME.gif; // GIF8
+  if (startsWith(head, [0x52, 0x49, 0x46, 0x46]) && startsWith(head, [0x57, 0x45, 0x42, 0x50], 8)) return MIME.webp;
+  if (startsWith(head, [0x66, 0x74, 0x79, 0x70], 4)) {
+    // ISO base media: "ftyp" box, brand tells MP4 from QuickTime
+    return head.toString("latin1", 8, 10) === "qt" ? MIME.quicktime : MIME.mp4;
+  }
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return MIME.webm; // EBML
+  if (startsWith(head, [0x4f, 0x67, 0x67, 0x53])) return MIME.ogg; // OggS
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return sniffZip(head);
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return MIME.ole;
+
+  if (looksLikeText(head)) {
+    const text = head.toString("utf8", 0, 1024).replace(/^\uFEFF/, "").trimStart().toLowerCase();
+    if (text.startsWith("<!doctype html") || text.startsWith("<html")) return MIME.html;
+    return MIME.text;
+  }
+
+  return MIME.binary;
+}
+
+export function isAllowedMimeType(resourceType: ResourceType, mimeType: string) {
+  if (resourceType === "other") return true;
+  return ALLOWED_MIME_TYPES[resourceType].includes(mimeType);
+}
+
+// The first resourceType that accepts a sniffed MIME type, for files that arrive without one
+export function resourceTypeForMimeType(mimeType: string): ResourceType {
+  const types = Object.keys(ALLOWED_MIME_TYPES) as Exclude<ResourceType, "other">[];
+  return types.find((type) => ALLOWED_MIME_TYPES[type].includes(mimeType)) ?? "other";
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+export async function startUpload(
+  db: DbExecutor,
+  user: Pick<User, "id" | "role">,
+  input: { fileName: string; fileSize: number; resourceType: ResourceType }
+) {
+  if (input.resourceType === "link") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Link resources do not take file uploads" });
+  }
+
+  const limit = maxUploadSize(user.role);
+  if (input.fileSize > limit) {
+    throw new TRPCError({
+      code: "PAYLOAD_TOO_LARGE",
+      message: `File exceeds the ${Math.floor(limit / (1024 * 1024))}MB limit for your account`,
+    });
+  }
+
+  const id = nanoid();
+  await db.insert(uploads).values({
+    id,
+    userId: user.id,
+    fileName: input.fileName,
+    resourceType: input.resourceType,
+    declaredSize: input.fileSize,
+  });
+
+  return {
+    uploadId: id,
+    chunkSize: UPLOAD_CONFIG.CHUNK_SIZE,
+    totalChunks: Math.max(1, Math.ceil(input.fileSize / UPLOAD_CONFIG.CHUNK_SIZE)),
+  };
+}
+
+async function loadOwnUpload(db: DbExecutor, uploadId: string, userId: string, lock = false) {
+  const query = db.select().from(uploads).where(and(eq(uploads.id, uploadId), eq(uploads.userId, userId)));
+  const [upload] = lock ? await query.for("update") : await query;
+  if (!upload) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+  }
+  return upload;
+}
+
+// Append one chunk; chunks must arrive in order
+export async function appendChunk(db: DbExecutor, userId: string, uploadId: string, index: number, data: Buffer) {
+  return db.transaction(async (tx) => {
+    const upload = await loadOwnUpload(tx, uploadId, userId, true);
+
+    if (upload.status !== "uploading") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Upload is no longer accepting data" });
+    }
+
+    // Retry of a chunk we already have
+    if (index < upload.nextChunk) {
+      return { receivedBytes: upload.receivedBytes, nextChunk: upload.nextChunk };
+    }
+    if (index > upload.nextChunk) {
+      throw new TRPCError({ code: "CONFLICT", message: `Expected chunk ${upload.nextChunk}` });
+    }
+    if (data.length === 0 || data.length > UPLOAD_CONFIG.CHUNK_SIZE) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid chunk size" });
+    }
+    if (upload.receivedBytes + data.length > upload.declaredSize) {
+      throw new TRPCError({ code: "PAYLOAD_TOO_LARGE", message: "Upload is larger than declared" });
+    }
+
+    // Keyed by index, so a chunk retried after a failed update overwrites its part
+    await storagePut(partKey(upload.id, index), data);
+
+    const receivedBytes = upload.receivedBytes + data.length;
+    await tx
+      .update(uploads)
+      .set({ receivedBytes, nextChunk: sql`${uploads.nextChunk} + 1` })
+      .where(eq(uploads.id, upload.id));
+
+    return { receivedBytes, nextChunk: upload.nextChunk + 1 };
+  });
+}
+
+async function readHead(filePath: string) {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function sha256File(filePath: string) {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+export function safeFileName(name: string) {
+  const cleaned = path.basename(name).replace(/[^\w.\-]+/g, "_").replace(/^\.+/, "");
+  return cleaned.slice(-120) || "file";
+}
+
+async function failUpload(db: DbExecutor, upload: Upload, message: string): Promise<never> {
+  await db.update(uploads).set({ status: "failed", error: message }).where(eq(uploads.id, upload.id));
+  await removeParts(upload);
+  throw new TRPCError({ code: "BAD_REQUEST", message });
+}
+
+// Validate the received file and move it into permanent storage
+export async function completeUpload(db: DbExecutor, userId: string, uploadId: string) {
+  const upload = await loadOwnUpload(db, uploadId, userId);
+
+  if (upload.status === "complete" || upload.status === "attached") {
+    return upload;
+  }
+  if (upload.status === "processing") {
+    throw new TRPCError({ code: "CONFLICT", message: "Upload is already being completed" });
+  }
+  if (upload.status !== "uploading") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: upload.error ?? "Upload failed" });
+  }
+  if (upload.receivedBytes !== upload.declaredSize) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Upload incomplete: received ${upload.receivedBytes} of ${upload.declaredSize} bytes`,
+    });
+  }
+
+  // Claim the upload, so a concurrent complete cannot process the same parts
+  const [claimed] = await db
+    .update(uploads)
+    .set({ status: "processing" })
+    .where(and(eq(uploads.id, upload.id), eq(uploads.status, "uploading")))
+    .returning({ id: uploads.id });
+  if (!claimed) {
+    throw new TRPCError({ code: "CONFLICT", message: "Upload is already being completed" });
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "apex-upload-"));
+  try {
+    const file = path.join(workDir, "file");
+    await assembleParts(upload, file);
+
+    const mimeType = sniffMimeType(await readHead(file));
+    if (!isAllowedMimeType(upload.resourceType, mimeType)) {
+      return await failUpload(db, upload, `File content (${mimeType}) does not match resource type "${upload.resourceType}"`);
+    }
+
+    const sha256 = await sha256File(file);
+    const stored = await storagePutFile(`uploads/${userId}/${upload.id}/${safeFileName(upload.fileName)}`, file, mimeType);
+    const preview = await generatePreview(file, {
+      uploadId: upload.id,
+      fileName: upload.fileName,
+      resourceType: upload.resourceType,
+      mimeType,
+    });
+    await removeParts(upload);
+
+    const [completed] = await db
+      .update(uploads)
+      .set({
+        status: "complete",
+        storageKey: stored.key,
+        url: stored.url,
+        mimeType,
+        sha256,
+        preview,
+        completedAt: new Date(),
+      })
+      .where(eq(uploads.id, upload.id))
+      .returning();
+
+    return completed;
+  } catch (error) {
+    // Release the claim after an unexpected failure so the client can retry; the parts are kept
+    if (!(error instanceof TRPCError)) {
+      await db.update(uploads).set({ status: "uploading" }).where(eq(uploads.id, upload.id));
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Resolve a completed upload into resource file fields and mark it attached.
+ * The upload must belong to the user and match the resource's type.
+ */
+export async function attachUpload(
+  db: DbExecutor,
+  userId: string,
+  uploadId: string,
+  resourceId: string,
+  resourceType: ResourceType
+) {
+  const upload = await loadOwnUpload(db, uploadId, userId);
+
+  if (upload.status !== "complete" && !(upload.status === "attached" && upload.resourceId === resourceId)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Upload is not ready to attach" });
+  }
+  if (upload.resourceType !== resourceType) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Upload was validated as "${upload.resourceType}"` });
+  }
+
+  await db.update(uploads).set({ status: "attached", resourceId }).where(eq(uploads.id, upload.id));
+
+  return {
+    fileUrl: upload.url,
+    fileName: upload.fileName,
+    fileSize: upload.declaredSize,
+    fileKey: upload.storageKey,
+    fileMimeType: upload.mimeType,
+    fileSha256: upload.sha256,
+  };
+}
+
+// Drop unfinished sessions older than the TTL along with their stored parts
+export async function purgeStaleUploads(db: DbExecutor) {
+  const cutoff = new Date(Date.now() - UPLOAD_CONFIG.SESSION_TTL_MS);
+  const stale = await db
+    .update(uploads)
+    .set({ status: "failed", error: "Upload expired" })
+    .where(and(inArray(uploads.status, ["uploading", "processing"]), lt(uploads.createdAt, cutoff)))
+    .returning({ id: uploads.id, nextChunk: uploads.nextChunk });
+
+  for (const upload of stale) {
+    await removeParts(upload);
+  }
+  return stale.length;
+}
+
+// ============================================================================
+// HTTP ROUTES
+// ============================================================================
+
+const HTTP_STATUS: Partial<Record<TRPCError["code"], number>> = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+};
+
+export function registerUploadRoutes(app: Express) {
+  // Raw chunk bodies; JSON and form parsers skip application/octet-stream
+  const rawChunk = express.raw({ type: "application/octet-stream", limit: UPLOAD_CONFIG.CHUNK_SIZE });
+
+  app.put("/api/uploads/:uploadId/chunks/:index", rawChunk, async (req: Request, res: Response) => {
+    const index = Number.parseInt(req.params.index, 10);
+    if (!Number.isInteger(index) || index < 0) {
+      res.status(400).json({ error: "Invalid chunk index" });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(415).json({ error: "Chunks must be sent as application/octet-stream" });
+      return;
+    }
+
+    let user: User;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    try {
+      const db = await getDb();
+      if (!db) {
+        res.status(500).json({ error: "Database not available" });
+        return;
+      }
+
+      const result = await appendChunk(db, user.id, req.params.uploadId, index, req.body);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof TRPCError) {
+        res.status(HTTP_STATUS[error.code] ?? 500).json({ error: error.message });
+        return;
+      }
+      console.error("[Uploads] Chunk failed", error);
+      res.status(500).json({ error: "Upload failed" });
+    }
+  });
+}
@@ -0,0 +1,327 @@
+import { eq, and, desc } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import { TRPCError } from "@trpc/server";
+import type { DbExecutor } from "./db";
+import { refreshSearchVectors } from "./search";
+import {
+  resources,
+  resourceVersions,
+  type Resource,
+  type ResourceSnapshot,
+} from "../drizzle/schema";
+
+/**
+ * Resource version history.
+ *
+ * Every change to a resource's editable content goes through `applyEdit`, which
+ * appends a `resource_versions` row holding a full snapshot. Edits to an
+ * approved resource that touch its file or description are stored as a
+ * "pending" version instead of being applied: the approved content stays live
+ * until a moderator accepts the new version with `reviewVersion`.
+ */
+
+export const SNAPSHOT_FIELDS = [
+  "title",
+  "description",
+  "summary",
+  "category",
+  "resourceType",
+  "subject",
+  "gradeLevel",
+  "tags",
+  "standards",
+  "fileUrl",
+  "fileName",
+  "fileSize",
+  "fileKey",
+  "fileMimeType",
+  "fileSha256",
+  "thumbnailUrl",
+  "externalUrl",
+] as const satisfies readonly (keyof ResourceSnapshot)[];
+
+export type SnapshotField = (typeof SNAPSHOT_FIELDS)[number];
+
+// Changing any of these on an approved resource requires another review
+export const MODERATED_FIELDS: readonly SnapshotField[] = [
+  "description",
+  "fileUrl",
+  "fileName",
+  "fileSize",
+  "fileKey",
+  "fileSha256",
+];
+
+// Fields diffed line by line
+const TEXT_FIELDS: readonly SnapshotField[] = ["title", "description", "summary"];
+
+export function snapshotOf(resource: Resource): ResourceSnapshot {
+  return {
+    title: resource.title,
+    description: resource.description,
+    summary: resource.summary,
+    category: resource.category,
+    resourceType: resource.resourceType,
+    subject: resource.subject,
+    gradeLevel: resource.gradeLevel,
+    tags: resource.tags ?? [],
+    standards: resource.standards ?? [],
+    fileUrl: resource.fileUrl,
+    fileName: resource.fileName,
+    fileSize: resource.fileSize,
+    fileKey: resource.fileKey,
+    fileMimeType: resource.fileMimeType,
+    fileSha256: resource.fileSha256,
+    thumbnailUrl: resource.thumbnailUrl,
+    externalUrl: resource.externalUrl,
+  };
+}
+
+export function changedFields(before: ResourceSnapshot, after: ResourceSnapshot): SnapshotField[] {
+  return SNAPSHOT_FIELDS.filter(
+    (field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+  );
+}
+
+// ============================================================================
+// DIFFS
+// ============================================================================
+
+export type LineChange = { type: "equal" | "added" | "removed"; text: string };
+
+export type FieldDiff = {
+  field: SnapshotField;
+  before: ResourceSnapshot[SnapshotField];
+  after: ResourceSnapshot[SnapshotField];
+  lines?: LineChange[]; // text fields only
+};
+
+// Above this many line pairs the LCS table gets too big; show a full replacement instead
+const MAX_LINE_DIFF_CELLS = 1_000_000;
+
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  if (a.length * b.length > MAX_LINE_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: "equal", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: "removed", text: a[i++] });
+    } else {
+      changes.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: "removed", text: a[i++] });
+  while (j < b.length) changes.push({ type: "added", text: b[j++] });
+
+  return changes;
+}
+
+export function diffSnapshots(before: ResourceSnapshot, after: ResourceSnapshot): FieldDiff[] {
+  return changedFields(before, after).map((field) => {
+    const diff: FieldDiff = { field, before: before[field], after: after[field] };
+    if (TEXT_FIELDS.includes(field)) {
+      diff.lines = diffLines(String(before[field] ?? ""), String(after[field] ?? ""));
+    }
+    return diff;
+  });
+}
+
+// ============================================================================
+// WRITES
+// ============================================================================
+
+export type EditRequest = {
+  resourceId: string;
+  editorId: string;
+  changes: Partial<ResourceSnapshot>;
+  changeNote?: string;
+  restoredFromId?: string;
+  // false for moderators, whose edits apply immediately
+  requireReview: boolean;
+};
+
+async function nextVersionNumber(db: DbExecutor, resourceId: string) {
+  const [latest] = await db
+    .select({ version: resourceVersions.version })
+    .from(resourceVersions)
+    .where(eq(resourceVersions.resourceId, resourceId))
+    .orderBy(desc(resourceVersions.version))
+    .limit(1);
+
+  return latest ? latest.version + 1 : 1;
+}
+
+// Record version 1 for a newly created resource
+export async function recordInitialVersion(db: DbExecutor, resource: Resource) {
+  await db.insert(resourceVersions).values({
+    id: nanoid(),
+    resourceId: resource.id,
+    version: 1,
+    snapshot: snapshotOf(resource),
+    editorId: resource.contributorId,
+    changeNote: "Initial version",
+    status: "applied",
+  });
+}
+
+// Mark the resource's outstanding pending version (if any) as replaced
+async function supersedePending(db: DbExecutor, resource: Resource) {
+  if (!resource.pendingVersionId) return;
+  await db
+    .update(resourceVersions)
+    .set({ status: "superseded" })
+    .where(and(eq(resourceVersions.id, resource.pendingVersionId), eq(resourceVersions.status, "pending")));
+}
+
+// Copy a snapshot onto the live resource row
+async function applySnapshot(db: DbExecutor, resourceId: string, snapshot: ResourceSnapshot) {
+  await db
+    .update(resources)
+    .set({ ...snapshot, pendingVersionId: null, updatedAt: new Date() })
+    .where(eq(resources.id, resourceId));
+  await refreshSearchVectors(db, { resourceIds: [resourceId] });
+}
+
+/**
+ * Save an edit as a new version. Edits build on the pending version when one
+ * exists, so successive edits before review accumulate instead of dropping
+ * earlier changes.
+ */
+export async function applyEdit(db: DbExecutor, edit: EditRequest) {
+  return db.transaction(async (tx) => {
+    const [resource] = await tx
+      .select()
+      .from(resources)
+      .where(eq(resources.id, edit.resourceId))
+      .for("update");
+    if (!resource) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Resource not found" });
+    }
+
+    const live = snapshotOf(resource);
+    let base = live;
+    if (resource.pendingVersionId) {
+      const [pending] = await tx
+        .select({ snapshot: resourceVersions.snapshot })
+        .from(resourceVersions)
+        .where(eq(resourceVersions.id, resource.pendingVersionId));
+      if (pending) base = pending.snapshot;
+    }
+
+    const next: ResourceSnapshot = { ...base, ...edit.changes };
+    // A new fileUrl that comes without its own stored file (a plain URL, or a snapshot from
+    // before uploads) replaces the stored object; downloads must not keep serving the old one
+    if (next.fileUrl !== base.fileUrl && next.fileKey && next.fileKey === base.fileKey) {
+      next.fileKey = null;
+      next.fileMimeType = null;
+      next.fileSha256 = null;
+    }
+    const changed = changedFields(base, next);
+    if (changed.length === 0) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "No changes to save" });
+    }
+
+    // Resources written before versioning existed get their current content as version 1
+    let version = await nextVersionNumber(tx, resource.id);
+    if (version === 1) {
+      await recordInitialVersion(tx, resource);
+      version = 2;
+    }
+
+    const needsReview =
+      edit.requireReview &&
+      resource.status === "approved" &&
+      changedFields(live, next).some((field) => MODERATED_FIELDS.includes(field));
+
+    await supersedePending(tx, resource);
+
+    const versionId = nanoid();
+    await tx.insert(resourceVersions).values({
+      id: versionId,
+      resourceId: resource.id,
+      version,
+      snapshot: next,
+      editorId: edit.editorId,
+      changeNote: edit.changeNote,
+      restoredFromId: edit.restoredFromId,
+      status: needsReview ? "pending" : "applied",
+    });
+
+    if (needsReview) {
+      await tx
+        .update(resources)
+        .set({ pendingVersionId: versionId, updatedAt: new Date() })
+        .where(eq(resources.id, resource.id));
+    } else {
+      await applySnapshot(tx, resource.id, next);
+    }
+
+    return {
+      versionId,
+      version,
+      status: needsReview ? ("pending" as const) : ("applied" as const),
+      changedFields: changed,
+    };
+  });
+}
+
+// Accept or reject a pending version (moderators)
+export async function reviewVersion(
+  db: DbExecutor,
+  review: { versionId: string; decision: "approve" | "reject"; reviewerId: string; notes?: string }
+) {
+  return db.transaction(async (tx) => {
+    const [version] = await tx
+      .select()
+      .from(resourceVersions)
+      .where(eq(resourceVersions.id, review.versionId))
+      .for("update");
+    if (!version) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+    }
+    if (version.status !== "pending") {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Version is not pending review" });
+    }
+
+    const now = new Date();
+    const status = review.decision === "approve" ? "applied" : "rejected";
+
+    await tx
+      .update(resourceVersions)
+      .set({ status, reviewedBy: review.reviewerId, reviewedAt: now, reviewNotes: review.notes })
+      .where(eq(resourceVersions.id, version.id));
+
+    if (review.decision === "approve") {
+      await applySnapshot(tx, version.resourceId, version.snapshot);
+    } else {
+      await tx
+        .update(resources)
+        .set({ pendingVersionId: null, updatedAt: now })
+        .where(and(eq(resources.id, version.resourceId), eq(resources.pendingVersionId, version.id)));
+    }
+
+    return { resourceId: version.resourceId, status };
+  });
+}
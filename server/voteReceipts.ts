@@ -0,0 +1,88 @@
+import { createHash } from "crypto";
+import { eq, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
+import type { DbExecutor } from "./db";
+import { proposals, proposalVoteHistory, type ProposalVote } from "../drizzle/schema";
+
+/**
+ * Vote receipts. Each choice cast on a proposal gets a receipt: the SHA-256 of
+ * the proposal id, voter id, choice, RC weight and cast time. The current
+ * receipt is kept on the vote and every receipt in `proposal_vote_history`,
+ * so a voter holding a receipt can look up the choice it was issued for and
+ * whether that choice is the one tallied when voting closed. Receipts are an
+ * unkeyed hash stored next to the fields it covers, so they identify a vote;
+ * they do not prove the recorded vote was never changed.
+ */
+
+type ReceiptFields = {
+  proposalId: string;
+  voterId: string;
+  choice: ProposalVote["choice"];
+  weightRc: number;
+  castAt: Date;
+};
+
+export function voteReceiptHash(fields: ReceiptFields) {
+  const payload = JSON.stringify([
+    fields.proposalId,
+    fields.voterId,
+    fields.choice,
+    fields.weightRc,
+    fields.castAt.toISOString(),
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+// Proposal counter columns by choice
+const VOTE_COUNTERS = {
+  for: { field: "votesFor", column: proposals.votesFor },
+  against: { field: "votesAgainst", column: proposals.votesAgainst },
+  abstain: { field: "votesAbstain", column: proposals.votesAbstain },
+} as const;
+
+/**
+ * Adjust a proposal's counters for a vote moving from one choice and weight
+ * to another. A new vote has no previous choice.
+ */
+export async function adjustVoteCounters(
+  db: DbExecutor,
+  proposalId: string,
+  previous: { choice: ProposalVote["choice"]; weightRc: number } | null,
+  next: { choice: ProposalVote["choice"]; weightRc: number }
+) {
+  const updateData: Record<string, unknown> = {
+    totalRcWeight: sql`${proposals.totalRcWeight} + ${next.weightRc - (previous?.weightRc ?? 0)}`,
+    updatedAt: new Date(),
+  };
+  if (previous?.choice !== next.choice) {
+    const added = VOTE_COUNTERS[next.choice];
+    updateData[added.field] = sql`${added.column} + 1`;
+    if (previous) {
+      const removed = VOTE_COUNTERS[previous.choice];
+      updateData[removed.field] = sql`${removed.column} - 1`;
+    }
+  }
+
+  await db.update(proposals).set(updateData).where(eq(proposals.id, proposalId));
+}
+
+// Append a cast or changed choice to the vote history
+export async function recordVoteHistory(
+  db: DbExecutor,
+  vote: ReceiptFields & { voteId: string; receiptHash: string; castById?: string | null },
+  previous: { choice: ProposalVote["choice"]; weightRc: number } | null = null
+) {
+  await db.insert(proposalVoteHistory).values({
+    id: nanoid(),
+    voteId: vote.voteId,
+    proposalId: vote.proposalId,
+    voterId: vote.voterId,
+    choice: vote.choice,
+    weightRc: vote.weightRc,
+    previousChoice: previous?.choice ?? null,
+    previousWeightRc: previous?.weightRc ?? null,
+    castById: vote.castById ?? null,
+    receiptHash: vote.receiptHash,
+    castAt: vote.castAt,
+  });
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip, readZip } from "./zip";
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe("createZip / readZip", () => {
+  it("round-trips entries", () => {
+    const binary = Buffer.from(Array.from({ length: 512 }, (_, i) => (i * 7919) % 256));
+    const entries = [
+      { name: "manifest.csv", data: "title,file\nFractions,files/fractions.pdf\n" },
+      { name: "files/fractions.pdf", data: binary },
+      { name: "files/empty.txt", data: "" },
+      { name: "files/répertoire/ünïcödé.txt", data: "héllo wörld" },
+      { name: "files/repetitive.txt", data: "abc".repeat(10_000) },
+    ];
+
+    const files = readZip(createZip(entries));
+
+    expect(files.map((file) => file.name)).toEqual(entries.map((entry) => entry.name));
+    for (let i = 0; i < entries.length; i++) {
+      const { data } = entries[i];
+      const expected = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+      expect(files[i].size).toBe(expected.length);
+      expect(files[i].read().equals(expected)).toBe(true);
+    }
+  });
+
+  it("deflates entries only when that makes them smaller", () => {
+    const repetitive = createZip([{ name: "a.txt", data: "abc".repeat(10_000) }]);
+    expect(repetitive.length).toBeLessThan(1_000);
+
+    // Random bytes do not compress, so they are stored as they are
+    const random = Buffer.from(Array.from({ length: 4096 }, () => Math.floor(Math.random() * 256)));
+    const stored = createZip([{ name: "random.bin", data: random }]);
+    expect(stored.readUInt16LE(8)).toBe(0);
+    expect(readZip(stored)[0].read().equals(random)).toBe(true);
+  });
+
+  it("reads an empty archive", () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});
+
+describe("readZip on damaged or crafted archives", () => {
+  // Offset of the first central directory record, from the end record
+  const centralDirectory = (archive: Buffer) => archive.readUInt32LE(archive.length - 22 + 16);
+
+  it("rejects data that is not a ZIP", () => {
+    expect(() => readZip(Buffer.from("just some text, long enough to scan"))).toThrow("Not a ZIP archive");
+    expect(() => readZip(Buffer.alloc(0))).toThrow("Not a ZIP archive");
+  });
+
+  it("rejects a damaged central directory", () => {
+    const archive = createZip([{ name: "a.txt", data: "hello" }]);
+    archive.writeUInt32LE(0, centralDirectory(archive));
+    expect(() => readZip(archive)).toThrow("Corrupt ZIP central directory");
+  });
+
+  it("rejects a central directory that points past the end", () => {
+    const archive = createZip([{ name: "a.txt", data: "hello" }]);
+    archive.writeUInt32LE(archive.length, archive.length - 22 + 16);
+    expect(() => readZip(archive)).toThrow("Corrupt ZIP central directory");
+  });
+
+  it("fails reading an entry whose contents were changed", () => {
+    const archive = createZip([{ name: "a.txt", data: "hello world" }]);
+    // Stored (too short to deflate): the body follows the 30-byte header and the name
+    archive[30 + "a.txt".length] ^= 0xff;
+    const [file] = readZip(archive);
+    expect(() => file.read()).toThrow("Corrupt ZIP entry a.txt");
+  });
+
+  it("fails reading a deflated entry whose stream is damaged", () => {
+    const archive = createZip([{ name: "a.txt", data: "abc".repeat(1_000) }]);
+    const body = 30 + "a.txt".length;
+    archive.fill(0xff, body, body + 8);
+    const [file] = readZip(archive);
+    expect(() => file.read()).toThrow();
+  });
+
+  it("fails reading an entry whose local header is missing", () => {
+    const archive = createZip([{ name: "a.txt", data: "hello" }]);
+    archive.writeUInt32LE(0, 0);
+    const [file] = readZip(archive);
+    expect(() => file.read()).toThrow("Corrupt ZIP entry a.txt");
+  });
+
+  it("does not inflate an entry past its declared size", () => {
+    // 1 MB of zeros deflates to about 1 KB; declare it as 10 bytes
+    const archive = createZip([{ name: "bomb.bin", data: Buffer.alloc(1024 * 1024) }]);
+    archive.writeUInt32LE(10, centralDirectory(archive) + 24);
+
+    const [file] = readZip(archive);
+    expect(file.size).toBe(10);
+    expect(() => file.read()).toThrow();
+  });
+
+  it("rejects ZIP64 and encrypted entries", () => {
+    const zip64 = createZip([{ name: "a.txt", data: "hello" }]);
+    zip64.writeUInt32LE(0xffffffff, centralDirectory(zip64) + 24);
+    expect(() => readZip(zip64)).toThrow("ZIP64 archives are not supported");
+
+    const encrypted = createZip([{ name: "a.txt", data: "hello" }]);
+    encrypted.writeUInt16LE(0x0801, centralDirectory(encrypted) + 8);
+    expect(() => readZip(encrypted)).toThrow("Encrypted ZIP entries are not supported (a.txt)");
+  });
+});
@@ -0,0 +1,167 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+/**
+ * Minimal ZIP support for generated packages (collection exports) and
+ * uploaded ones (bulk imports). Entries are deflated unless that does not
+ * make them smaller; everything is held in memory, so callers cap the sizes.
+ * No ZIP64 or encryption, so packages must stay under 4 GB and 65535 entries.
+ */
+
+export type ZipEntry = { name: string; data: Buffer | string };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS date and time fields
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+export function createZip(entries: ZipEntry[], modifiedAt = new Date()) {
+  const { time, day } = dosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = typeof entry.data === "string" ? Buffer.from(entry.data, "utf8") : entry.data;
+    const deflated = deflateRawSync(data);
+    const compress = deflated.length < data.length;
+    const body = compress ? deflated : data;
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(compress ? 8 : 0, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(compress ? 8 : 0, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+export type ZipFile = {
+  name: string;
+  size: number; // uncompressed, as declared by the archive
+  read: () => Buffer;
+};
+
+// The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+function findEndOfCentralDirectory(archive: Buffer) {
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) return i;
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+/**
+ * List the files in an archive (directories are skipped). Reading an entry
+ * inflates it on demand and refuses to produce more than its declared size,
+ * so a crafted archive cannot expand past what the caller checked.
+ */
+export function readZip(archive: Buffer): ZipFile[] {
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const files: ZipFile[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive
+      .toString(flags & 0x0800 ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength)
+      .replace(/\\/g, "/");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x0001) throw new Error(`Encrypted ZIP entries are not supported (${name})`);
+    if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error("ZIP64 archives are not supported");
+    }
+    if (method !== 0 && method !== 8) throw new Error(`Unsupported compression method in ${name}`);
+
+    files.push({
+      name,
+      size,
+      read: () => {
+        if (archive.readUInt32LE(localOffset) !== 0x04034b50) throw new Error(`Corrupt ZIP entry ${name}`);
+        const start = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const body = archive.subarray(start, start + compressedSize);
+        const data = method === 8 ? inflateRawSync(body, { maxOutputLength: Math.max(size, 1) }) : body;
+        if (data.length !== size || crc32(data) !== crc) {
+          throw new Error(`Corrupt ZIP entry ${name}`);
+        }
+        return data;
+      },
+    });
+  }
+
+  return files;
+}
@@ -40,8 +40,174 @@ export const CONTRIBUTOR_LEVELS = {
   master: { min: 1000, max: Infinity },
 } as const;
 
+// View and download counting (server/tracking.ts)
+export const TRACKING_CONFIG = {
+  // Repeat views by the same user or IP within this window are not counted again
+  VIEW_DEDUP_WINDOW_MS: 6 * 60 * 60 * 1000,
+  // Per user (or IP hash) request limits
+  RATE_LIMIT_WINDOW_MS: 60 * 1000,
+  MAX_VIEWS_PER_WINDOW: 30,
+  MAX_DOWNLOADS_PER_WINDOW: 20,
+  // Rebuild viewCount / downloadCount from the tracking tables
+  RECONCILE_INTERVAL_MS: 60 * 60 * 1000,
+} as const;
+
+// Resource ranking (see server/ranking.ts)
+export const RANKING_CONFIG = {
+  // z for a 95% confidence interval on the upvote share
+  WILSON_Z: 1.96,
+} as const;
+
 // Pagination defaults
 export const PAGINATION = {
   DEFAULT_PAGE_SIZE: 20,
   MAX_PAGE_SIZE: 100,
 } as const;
+
+// File uploads (chunked via /api/uploads)
+export const UPLOAD_CONFIG = {
+  CHUNK_SIZE: 5 * 1024 * 1024, // 5MB
+  // Maximum file size per role, in bytes
+  MAX_FILE_SIZE: {
+    user: 10 * 1024 * 1024,
+    teacher: 50 * 1024 * 1024,
+    moderator: 100 * 1024 * 1024,
+    admin: 200 * 1024 * 1024,
+  },
+  // Unfinished uploads are discarded after this long
+  SESSION_TTL_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+// File downloads (via /api/resources/:id/download)
+export const DOWNLOAD_CONFIG = {
+  // Lifetime of the signed storage URL the route redirects to
+  URL_TTL_SECONDS: 60,
+  // Repeat downloads by the same user or IP within this window are not counted again
+  DEDUP_WINDOW_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+// File previews (see server/previews.ts)
+export const PREVIEW_CONFIG = {
+  MAX_PAGES: 20, // pages rendered for PDFs and office documents
+  PAGE_WIDTH: 1200, // px
+  THUMBNAIL_WIDTH: 240, // px
+  POSTER_WIDTH: 960, // px, video stills and image previews
+  MAX_ZIP_ENTRIES: 500,
+  TOOL_TIMEOUT_MS: 60_000,
+  // Lifetime of the signed URL used to stream or embed the file itself
+  MEDIA_URL_TTL_SECONDS: 60 * 60,
+} as const;
+
+// Automatic resource thumbnails (see server/thumbnails.ts)
+export const THUMBNAIL_CONFIG = {
+  WIDTH: 480, // px
+  BATCH_SIZE: 10,
+  INTERVAL_MS: 5 * 60 * 1000,
+  MAX_ATTEMPTS: 3,
+  RETRY_AFTER_MS: 6 * 60 * 60 * 1000,
+  FETCH_TIMEOUT_MS: 15_000,
+  MAX_PAGE_BYTES: 2 * 1024 * 1024, // HTML fetched to find og:image
+  MAX_IMAGE_BYTES: 5 * 1024 * 1024,
+  MAX_REMOTE_FILE_BYTES: 50 * 1024 * 1024, // legacy files stored by URL only
+} as const;
+
+// Resource comments
+export const COMMENT_CONFIG = {
+  MAX_LENGTH: 5000,
+  // Replies deeper than this attach to the deepest allowed ancestor instead
+  MAX_DEPTH: 5,
+  REPLY_PAGE_SIZE: 5, // replies loaded with each comment; more via comment.listReplies
+  MAX_MENTIONS: 10,
+} as const;
+
+// Resource reviews: overall rating and criterion scores share one scale
+export const REVIEW_CONFIG = {
+  MIN_SCORE: 1,
+  MAX_SCORE: 5,
+  MAX_NOTES_LENGTH: 5000,
+} as const;
+
+// Trending scores (server/trending.ts). Each event counts `weight * 0.5^(age / halfLife)`
+// within the period's window.
+export const TRENDING_CONFIG = {
+  PERIODS: {
+    day: { WINDOW_MS: 24 * 60 * 60 * 1000, HALF_LIFE_MS: 6 * 60 * 60 * 1000 },
+    week: { WINDOW_MS: 7 * 24 * 60 * 60 * 1000, HALF_LIFE_MS: 2 * 24 * 60 * 60 * 1000 },
+    month: { WINDOW_MS: 30 * 24 * 60 * 60 * 1000, HALF_LIFE_MS: 7 * 24 * 60 * 60 * 1000 },
+  },
+  WEIGHTS: {
+    VIEW: 1, // per unique viewer
+    DOWNLOAD: 3,
+    VOTE: 2, // upvotes add, downvotes subtract
+    COLLECTION_ADD: 4,
+  },
+  MAX_ROWS_PER_PERIOD: 500,
+  INTERVAL_MS: 10 * 60 * 1000,
+} as const;
+
+// Collection unit plans: sections and per-item notes and durations
+export const COLLECTION_CONFIG = {
+  MAX_SECTIONS: 50,
+  MAX_SECTION_TITLE_LENGTH: 100,
+  MAX_NOTE_LENGTH: 1000,
+  MAX_DURATION_MINUTES: 40 * 60,
+} as const;
+
+// Collection export packages (server/collectionExport.ts)
+export const COLLECTION_EXPORT_CONFIG = {
+  MAX_FILE_BYTES: 50 * 1024 * 1024, // larger files are exported as links
+  MAX_TOTAL_BYTES: 250 * 1024 * 1024, // once reached, remaining files are exported as links
+  DOWNLOAD_URL_TTL_S: 60 * 60,
+  STALE_AFTER_MS: 30 * 60 * 1000, // running exports older than this are marked failed
+  INTERVAL_MS: 10 * 1000,
+} as const;
+
+// Proposal pass rules (server/proposalResults.ts); authors may choose their own within the limits
+export const GOVERNANCE_CONFIG = {
+  DEFAULT_QUORUM_RC_PERCENT: 10, // share of eligible RC that must take part
+  DEFAULT_QUORUM_MIN_VOTERS: 5,
+  DEFAULT_PASS_THRESHOLD: "simple_majority",
+  DEFAULT_ABSTAIN_COUNTS_TOWARD_QUORUM: true,
+  DEFAULT_TALLY_MODE: "linear_rc",
+  DEFAULT_TALLY_CAP_RC: 1000, // capped_rc
+  MIN_QUORUM_RC_PERCENT: 1,
+  MIN_QUORUM_VOTERS: 1,
+  MAX_QUORUM_VOTERS: 1000,
+} as const;
+
+// Proposal lifecycle scheduler (server/proposalLifecycle.ts)
+export const SCHEDULER_CONFIG = {
+  INTERVAL_MS: 15 * 1000,
+  LOCK_TTL_MS: 60 * 1000, // leader lease, renewed every tick
+  BATCH_SIZE: 50, // jobs claimed per round
+  MAX_ATTEMPTS: 5,
+  RETRY_BASE_MS: 60 * 1000, // doubled after each failed attempt
+  STALE_AFTER_MS: 10 * 60 * 1000, // running jobs older than this are retried
+  DEFAULT_VOTING_DAYS: 7,
+  MAX_START_DELAY_DAYS: 30, // how far ahead a proposal's voting may be scheduled
+} as const;
+
+// Bulk resource imports (server/resourceImport.ts)
+export const IMPORT_CONFIG = {
+  MAX_ROWS: 1000,
+  MAX_CSV_LENGTH: 1024 * 1024, // pasted CSV, in characters
+  MAX_PACKAGE_BYTES: 500 * 1024 * 1024, // uncompressed total read from one package, manifests included
+  MAX_MANIFEST_BYTES: 5 * 1024 * 1024, // uncompressed manifest.csv, imsmanifest.xml or web link
+  REPORT_URL_TTL_S: 60 * 60,
+  STALE_AFTER_MS: 60 * 60 * 1000, // running imports older than this are marked failed
+  INTERVAL_MS: 10 * 1000,
+} as const;
+
+// Vote-farming detection (server/antiGaming.ts)
+export const ANTI_GAMING_CONFIG = {
+  LOOKBACK_MS: 30 * 24 * 60 * 60 * 1000, // upvotes older than this are not scanned
+  // Two users who each upvoted the other at least this often
+  RECIPROCAL_MIN_VOTES: 3,
+  // Upvotes from accounts younger than this, at least BURST_MIN_VOTES within BURST_WINDOW_MS
+  NEW_ACCOUNT_AGE_MS: 7 * 24 * 60 * 60 * 1000,
+  BURST_WINDOW_MS: 60 * 60 * 1000,
+  BURST_MIN_VOTES: 5,
+  // Distinct voters sharing one IP hash while upvoting the same user
+  SHARED_IP_MIN_VOTERS: 2,
+  INTERVAL_MS: 60 * 60 * 1000,
+} as const;